@@ -1,5 +1,5 @@
 import { Switch, Route, useLocation, Redirect } from "wouter";
-import { queryClient } from "./lib/queryClient";
+import { isLocalMode, queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
@@ -8,6 +8,7 @@ import { AuthProvider, useAuth } from "@/lib/auth-context";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/app-sidebar";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { NotificationCenter } from "@/components/notification-center";
 import { Loader2 } from "lucide-react";
 
 import NotFound from "@/pages/not-found";
@@ -16,9 +17,14 @@ import AdminDashboard from "@/pages/admin/dashboard";
 import AdminCertifications from "@/pages/admin/certifications";
 import AdminUsers from "@/pages/admin/users";
 import AdminExpiring from "@/pages/admin/expiring";
+import AdminSettings from "@/pages/admin/settings";
+import AdminReports from "@/pages/admin/reports";
+import AdminCatalog from "@/pages/admin/catalog";
+import AdminDuplicates from "@/pages/admin/duplicates";
 import UserDashboard from "@/pages/user/dashboard";
 import UserCertifications from "@/pages/user/certifications";
 import UserRenewals from "@/pages/user/renewals";
+import UserSettings from "@/pages/user/settings";
 
 function ProtectedRoute({ 
   children, 
@@ -65,7 +71,10 @@ function DashboardLayout({ children }: { children: React.ReactNode }) {
         <div className="flex flex-col flex-1 overflow-hidden">
           <header className="flex h-14 items-center justify-between gap-4 border-b px-4 shrink-0">
             <SidebarTrigger data-testid="button-sidebar-toggle" />
-            <ThemeToggle />
+            <div className="flex items-center gap-1">
+              {!isLocalMode && <NotificationCenter />}
+              <ThemeToggle />
+            </div>
           </header>
           <main className="flex-1 overflow-auto">
             {children}
@@ -130,6 +139,34 @@ function Router() {
           </DashboardLayout>
         </ProtectedRoute>
       </Route>
+      <Route path="/admin/catalog">
+        <ProtectedRoute requiredRole="admin">
+          <DashboardLayout>
+            <AdminCatalog />
+          </DashboardLayout>
+        </ProtectedRoute>
+      </Route>
+      <Route path="/admin/duplicates">
+        <ProtectedRoute requiredRole="admin">
+          <DashboardLayout>
+            <AdminDuplicates />
+          </DashboardLayout>
+        </ProtectedRoute>
+      </Route>
+      <Route path="/admin/reports">
+        <ProtectedRoute requiredRole="admin">
+          <DashboardLayout>
+            <AdminReports />
+          </DashboardLayout>
+        </ProtectedRoute>
+      </Route>
+      <Route path="/admin/settings">
+        <ProtectedRoute requiredRole="admin">
+          <DashboardLayout>
+            <AdminSettings />
+          </DashboardLayout>
+        </ProtectedRoute>
+      </Route>
 
       {/* User Routes */}
       <Route path="/dashboard">
@@ -153,6 +190,13 @@ function Router() {
           </DashboardLayout>
         </ProtectedRoute>
       </Route>
+      <Route path="/dashboard/settings">
+        <ProtectedRoute requiredRole="user">
+          <DashboardLayout>
+            <UserSettings />
+          </DashboardLayout>
+        </ProtectedRoute>
+      </Route>
 
       {/* Fallback */}
       <Route component={NotFound} />
@@ -0,0 +1,324 @@
+import { useEffect, useMemo } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { z } from "zod";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth-context";
+import { getErrorMessage, queryClient } from "@/lib/queryClient";
+import { changePassword, updateUser, updateUserSettings } from "@/lib/api";
+import { insertUserSchema, viewModes, type UserSettings } from "@shared/schema";
+import { DEFAULT_USER_SETTINGS } from "@shared/settings";
+import {
+  DEFAULT_PASSWORD_POLICY,
+  describePasswordPolicy,
+  passwordSchema,
+  type PasswordPolicy,
+} from "@shared/password-policy";
+
+const profileSchema = insertUserSchema.pick({ fullName: true, email: true });
+type ProfileValues = z.infer<typeof profileSchema>;
+
+const buildPasswordSchema = (policy: PasswordPolicy) =>
+  z
+    .object({
+      currentPassword: z.string().min(1, "Current password is required"),
+      newPassword: passwordSchema(policy),
+      confirmPassword: z.string(),
+    })
+    .refine((data) => data.newPassword === data.confirmPassword, {
+      message: "Passwords don't match",
+      path: ["confirmPassword"],
+    });
+type PasswordValues = z.infer<ReturnType<typeof buildPasswordSchema>>;
+
+const preferencesSchema = z.object({
+  emailReminders: z.boolean(),
+  defaultView: z.enum(viewModes),
+});
+type PreferencesValues = z.infer<typeof preferencesSchema>;
+
+function ProfileCard() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const form = useForm<ProfileValues>({
+    resolver: zodResolver(profileSchema),
+    defaultValues: { fullName: user?.fullName ?? "", email: user?.email ?? "" },
+  });
+
+  const mutation = useMutation({
+    mutationFn: (data: ProfileValues) => updateUser(user!.id, data),
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/auth/me"], updated);
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({ title: "Profile updated", description: "Your details have been saved." });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to update your profile."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Profile</CardTitle>
+        <CardDescription>Your name and the address reminders are sent to.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => mutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="fullName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Full Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} data-testid="input-profile-fullname" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email</FormLabel>
+                  <FormControl>
+                    <Input type="email" {...field} data-testid="input-profile-email" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" disabled={mutation.isPending} data-testid="button-save-profile">
+              {mutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Profile
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
+
+function PasswordCard() {
+  const { toast } = useToast();
+  const { data: passwordPolicy = DEFAULT_PASSWORD_POLICY } = useQuery<PasswordPolicy>({
+    queryKey: ["/api/auth/password-policy"],
+  });
+  const schema = useMemo(() => buildPasswordSchema(passwordPolicy), [passwordPolicy]);
+
+  const form = useForm<PasswordValues>({
+    resolver: zodResolver(schema),
+    defaultValues: { currentPassword: "", newPassword: "", confirmPassword: "" },
+  });
+
+  const mutation = useMutation({
+    mutationFn: ({ currentPassword, newPassword }: PasswordValues) =>
+      changePassword({ currentPassword, newPassword }),
+    onSuccess: () => {
+      form.reset();
+      toast({ title: "Password changed", description: "Use your new password next time you sign in." });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to change your password."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Password</CardTitle>
+        <CardDescription>Confirm your current password to choose a new one.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => mutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="currentPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Current Password</FormLabel>
+                  <FormControl>
+                    <Input type="password" {...field} data-testid="input-current-password" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="newPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>New Password</FormLabel>
+                  <FormControl>
+                    <Input type="password" {...field} data-testid="input-new-password" />
+                  </FormControl>
+                  <FormDescription>{describePasswordPolicy(passwordPolicy)}</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="confirmPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Confirm New Password</FormLabel>
+                  <FormControl>
+                    <Input type="password" {...field} data-testid="input-confirm-new-password" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" disabled={mutation.isPending} data-testid="button-change-password">
+              {mutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Change Password
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
+
+function PreferencesCard() {
+  const { toast } = useToast();
+  const { data: settings } = useQuery<UserSettings>({
+    queryKey: ["/api/settings/user"],
+  });
+
+  const form = useForm<PreferencesValues>({
+    resolver: zodResolver(preferencesSchema),
+    defaultValues: DEFAULT_USER_SETTINGS,
+  });
+
+  useEffect(() => {
+    if (settings) {
+      form.reset({ emailReminders: settings.emailReminders, defaultView: settings.defaultView });
+    }
+  }, [settings, form]);
+
+  const mutation = useMutation({
+    mutationFn: updateUserSettings,
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/settings/user"], updated);
+      toast({ title: "Preferences saved", description: "Your preferences have been updated." });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to save your preferences."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Preferences</CardTitle>
+        <CardDescription>How you are notified and how your certifications are shown.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => mutation.mutate(data))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="emailReminders"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                  <div className="space-y-0.5">
+                    <FormLabel>Email reminders</FormLabel>
+                    <FormDescription>Get an email as your certifications approach expiry.</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                      data-testid="switch-email-reminders"
+                    />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="defaultView"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Default view</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger className="w-[180px]" data-testid="select-default-view">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="grid">Grid</SelectItem>
+                      <SelectItem value="list">List</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>Used when you open My Certifications.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" disabled={mutation.isPending} data-testid="button-save-preferences">
+              {mutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Preferences
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
+
+// The personal settings shown to every signed-in user; admins see them
+// below the organisation settings.
+export function AccountSettings() {
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      <ProfileCard />
+      <PasswordCard />
+      <PreferencesCard />
+    </div>
+  );
+}
@@ -9,6 +9,9 @@ import {
   ShieldCheck,
   Clock,
   AlertTriangle,
+  FileSearch,
+  Layers,
+  CopyCheck,
 } from "lucide-react";
 import {
   Sidebar,
@@ -25,6 +28,7 @@ import {
 } from "@/components/ui/sidebar";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
+import { useBranding } from "@/hooks/use-branding";
 import { useAuth } from "@/lib/auth-context";
 
 const adminMenuItems = [
@@ -38,6 +42,16 @@ const adminMenuItems = [
     url: "/admin/certifications",
     icon: FileText,
   },
+  {
+    title: "Catalog",
+    url: "/admin/catalog",
+    icon: Layers,
+  },
+  {
+    title: "Duplicates",
+    url: "/admin/duplicates",
+    icon: CopyCheck,
+  },
   {
     title: "Users",
     url: "/admin/users",
@@ -48,6 +62,16 @@ const adminMenuItems = [
     url: "/admin/expiring",
     icon: AlertTriangle,
   },
+  {
+    title: "Reports",
+    url: "/admin/reports",
+    icon: FileSearch,
+  },
+  {
+    title: "Settings",
+    url: "/admin/settings",
+    icon: Settings,
+  },
 ];
 
 const userMenuItems = [
@@ -66,11 +90,17 @@ const userMenuItems = [
     url: "/dashboard/renewals",
     icon: Clock,
   },
+  {
+    title: "Settings",
+    url: "/dashboard/settings",
+    icon: Settings,
+  },
 ];
 
 export function AppSidebar() {
   const [location] = useLocation();
   const { user, logout } = useAuth();
+  const organizationName = useBranding();
 
   const isAdmin = user?.role === "admin";
   const menuItems = isAdmin ? adminMenuItems : userMenuItems;
@@ -92,8 +122,8 @@ export function AppSidebar() {
           <div className="flex h-9 w-9 items-center justify-center rounded-md bg-primary">
             <ShieldCheck className="h-5 w-5 text-primary-foreground" />
           </div>
-          <div className="flex flex-col">
-            <span className="text-lg font-semibold" data-testid="text-app-name">CertTrack</span>
+          <div className="flex flex-col min-w-0">
+            <span className="text-lg font-semibold truncate" data-testid="text-app-name">{organizationName}</span>
             <span className="text-xs text-muted-foreground">Certification Manager</span>
           </div>
         </Link>
@@ -146,8 +176,8 @@ export function AppSidebar() {
             </div>
           </div>
           <SidebarMenuButton
-            onClick={() => {
-              logout();
+            onClick={async () => {
+              await logout();
               window.location.href = "/";
             }}
             className="h-8 w-8 p-0 hover:bg-destructive/10 hover:text-destructive"
@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { AlertCircle, Loader2, Paperclip, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { AttachmentThumbnail, AttachmentViewer } from "@/components/attachment-viewer";
+import { invalidateAttachments, useCurrentAttachments } from "@/hooks/use-attachments";
+import { getErrorMessage } from "@/lib/queryClient";
+import { deleteAttachment, uploadAttachment } from "@/lib/api";
+import type { CertificationAttachment } from "@shared/schema";
+import {
+  ATTACHMENT_ACCEPT,
+  MAX_ATTACHMENTS,
+  MAX_ATTACHMENT_BYTES,
+  checkAttachmentFile,
+  formatFileSize,
+} from "@shared/attachments";
+
+// The current cycle's documents for the edit dialog. Files are uploaded as
+// soon as they are chosen; ones that fail the limits are reported by name.
+export function AttachmentManager({ certificationId }: { certificationId: string }) {
+  const attachments = useCurrentAttachments(certificationId);
+  const [viewing, setViewing] = useState<CertificationAttachment | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  const upload = async (files: File[]) => {
+    setErrors([]);
+    setIsUploading(true);
+    const failed: string[] = [];
+    let count = attachments.length;
+    for (const file of files) {
+      const problem = checkAttachmentFile(file, count);
+      if (problem) {
+        failed.push(`${file.name}: ${problem}`);
+        continue;
+      }
+      try {
+        await uploadAttachment(certificationId, file);
+        count++;
+      } catch (error) {
+        failed.push(`${file.name}: ${getErrorMessage(error, "Upload failed")}`);
+      }
+    }
+    invalidateAttachments(certificationId);
+    setErrors(failed);
+    setIsUploading(false);
+  };
+
+  const remove = async (attachment: CertificationAttachment) => {
+    setErrors([]);
+    setRemovingId(attachment.id);
+    try {
+      await deleteAttachment(certificationId, attachment.id);
+      invalidateAttachments(certificationId);
+    } catch (error) {
+      setErrors([`${attachment.fileName}: ${getErrorMessage(error, "Could not remove the document")}`]);
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <p className="text-sm font-medium">Certificate Documents</p>
+          <p className="text-sm text-muted-foreground">
+            PDF, PNG or JPG up to {formatFileSize(MAX_ATTACHMENT_BYTES)}; at most {MAX_ATTACHMENTS}.
+          </p>
+        </div>
+        <Button type="button" variant="outline" size="sm" disabled={isUploading} asChild>
+          <label className="cursor-pointer" data-testid="button-add-attachment">
+            {isUploading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Paperclip className="mr-2 h-4 w-4" />}
+            Attach Files
+            <input
+              type="file"
+              accept={ATTACHMENT_ACCEPT}
+              multiple
+              className="sr-only"
+              disabled={isUploading}
+              onChange={(event) => {
+                upload(Array.from(event.target.files ?? []));
+                event.target.value = "";
+              }}
+              data-testid="input-attachment-file"
+            />
+          </label>
+        </Button>
+      </div>
+
+      {attachments.length > 0 && (
+        <ul className="space-y-2">
+          {attachments.map((attachment) => (
+            <li key={attachment.id} className="flex items-center gap-3 rounded-lg border p-2">
+              <AttachmentThumbnail attachment={attachment} onClick={() => setViewing(attachment)} className="h-10 w-10" />
+              <div className="min-w-0 flex-1">
+                <p className="truncate text-sm font-medium">{attachment.fileName}</p>
+                <p className="text-xs text-muted-foreground">{formatFileSize(attachment.size)}</p>
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => remove(attachment)}
+                disabled={removingId === attachment.id}
+                data-testid={`button-remove-attachment-${attachment.id}`}
+              >
+                {removingId === attachment.id ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Trash2 className="h-4 w-4" />
+                )}
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="space-y-1 text-sm text-destructive" data-testid="list-attachment-errors">
+          {errors.map((error) => (
+            <li key={error} className="flex items-start gap-2">
+              <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+              {error}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <AttachmentViewer attachment={viewing} onOpenChange={(open) => !open && setViewing(null)} />
+    </div>
+  );
+}
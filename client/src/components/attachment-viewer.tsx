@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { ExternalLink, FileText } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { cn } from "@/lib/utils";
+import type { CertificationAttachment } from "@shared/schema";
+import { attachmentUrl, formatFileSize, isImageAttachment } from "@shared/attachments";
+
+interface AttachmentThumbnailProps {
+  attachment: CertificationAttachment;
+  onClick: () => void;
+  className?: string;
+}
+
+export function AttachmentThumbnail({ attachment, onClick, className }: AttachmentThumbnailProps) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      title={attachment.fileName}
+      className={cn(
+        "flex h-12 w-12 shrink-0 items-center justify-center overflow-hidden rounded-md border bg-muted hover-elevate",
+        className,
+      )}
+      data-testid={`button-attachment-${attachment.id}`}
+    >
+      {isImageAttachment(attachment) ? (
+        <img src={attachmentUrl(attachment)} alt={attachment.fileName} loading="lazy" className="h-full w-full object-cover" />
+      ) : (
+        <span className="flex flex-col items-center text-[10px] font-medium text-muted-foreground">
+          <FileText className="h-5 w-5" />
+          PDF
+        </span>
+      )}
+    </button>
+  );
+}
+
+interface AttachmentViewerProps {
+  attachment: CertificationAttachment | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Images are shown as they are; PDFs use the browser's own viewer
+export function AttachmentViewer({ attachment, onOpenChange }: AttachmentViewerProps) {
+  const url = attachment ? attachmentUrl(attachment) : "";
+
+  return (
+    <Dialog open={!!attachment} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="truncate pr-6" data-testid="text-attachment-title">
+            {attachment?.fileName}
+          </DialogTitle>
+          <DialogDescription className="flex items-center justify-between gap-2">
+            <span>{attachment && formatFileSize(attachment.size)}</span>
+            <Button variant="ghost" size="sm" asChild>
+              <a href={url} target="_blank" rel="noopener noreferrer" data-testid="link-open-attachment">
+                <ExternalLink className="mr-2 h-4 w-4" />
+                Open in New Tab
+              </a>
+            </Button>
+          </DialogDescription>
+        </DialogHeader>
+        {attachment &&
+          (isImageAttachment(attachment) ? (
+            <img src={url} alt={attachment.fileName} className="mx-auto max-h-[70vh] object-contain" />
+          ) : (
+            <iframe src={url} title={attachment.fileName} className="h-[70vh] w-full rounded-md border" />
+          ))}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// A row of thumbnails that open the viewer
+export function AttachmentThumbnails({ attachments, max }: { attachments: CertificationAttachment[]; max?: number }) {
+  const [viewing, setViewing] = useState<CertificationAttachment | null>(null);
+  const shown = max ? attachments.slice(0, max) : attachments;
+  const hidden = attachments.length - shown.length;
+
+  return (
+    <>
+      <div className="flex flex-wrap items-center gap-2">
+        {shown.map((attachment) => (
+          <AttachmentThumbnail key={attachment.id} attachment={attachment} onClick={() => setViewing(attachment)} />
+        ))}
+        {hidden > 0 && (
+          <button
+            type="button"
+            onClick={() => setViewing(attachments[shown.length])}
+            className="flex h-12 w-12 items-center justify-center rounded-md border text-sm text-muted-foreground hover-elevate"
+          >
+            +{hidden}
+          </button>
+        )}
+      </div>
+      <AttachmentViewer attachment={viewing} onOpenChange={(open) => !open && setViewing(null)} />
+    </>
+  );
+}
@@ -0,0 +1,337 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AlertCircle, Archive, Download, FileJson, Loader2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { getErrorMessage, queryClient } from "@/lib/queryClient";
+import { getBackup, previewRestore, restoreBackup } from "@/lib/api";
+import { downloadFile } from "@/lib/spreadsheet";
+import { backupSchema, type Backup, type RestoreMode, type RestoreSummary } from "@shared/backup";
+
+const MODE_OPTIONS: { mode: RestoreMode; label: string; description: string }[] = [
+  {
+    mode: "merge",
+    label: "Merge",
+    description: "Add and update records from the backup and keep everything else.",
+  },
+  {
+    mode: "replace",
+    label: "Replace",
+    description: "Make the tracker match the backup exactly. Records missing from it are deleted.",
+  },
+];
+
+const COLLECTIONS: { key: "users" | "certificationTypes" | "certifications" | "renewals"; label: string }[] = [
+  { key: "users", label: "Users" },
+  { key: "certificationTypes", label: "Catalog entries" },
+  { key: "certifications", label: "Certifications" },
+  { key: "renewals", label: "Renewal history" },
+];
+
+async function readBackup(file: File): Promise<Backup> {
+  let json: unknown;
+  try {
+    json = JSON.parse(await file.text());
+  } catch {
+    throw new Error("That file is not valid JSON.");
+  }
+  const parsed = backupSchema.safeParse(json);
+  if (!parsed.success) throw new Error(parsed.error.issues[0].message);
+  return parsed.data;
+}
+
+function RestoreDialog({ open, onOpenChange }: { open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const [fileName, setFileName] = useState("");
+  const [backup, setBackup] = useState<Backup | null>(null);
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [readError, setReadError] = useState<string | null>(null);
+
+  const previewMutation = useMutation({
+    mutationFn: ({ backup, mode }: { backup: Backup; mode: RestoreMode }) => previewRestore(backup, mode),
+  });
+
+  useEffect(() => {
+    if (open) {
+      setFileName("");
+      setBackup(null);
+      setMode("merge");
+      setReadError(null);
+      previewMutation.reset();
+    }
+  }, [open]);
+
+  useEffect(() => {
+    if (backup) previewMutation.mutate({ backup, mode });
+  }, [backup, mode]);
+
+  const restoreMutation = useMutation({
+    mutationFn: () => restoreBackup(backup!, mode),
+    onSuccess: (summary) => {
+      // Every list and setting may have changed
+      queryClient.invalidateQueries();
+      onOpenChange(false);
+      toast({
+        title: "Backup restored",
+        description:
+          summary.passwordResets.length > 0
+            ? `Reset the passwords of ${summary.passwordResets.join(", ")} before they next sign in.`
+            : "The tracker now holds the restored data.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to restore the backup. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setReadError(null);
+    try {
+      setBackup(await readBackup(file));
+      setFileName(file.name);
+    } catch (error) {
+      setReadError(error instanceof Error ? error.message : "That file could not be read.");
+    }
+  };
+
+  const summary: RestoreSummary | undefined = previewMutation.data;
+  const canRestore = !!summary && summary.errors.length === 0 && !previewMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle data-testid="text-restore-title">Restore from Backup</DialogTitle>
+          <DialogDescription>
+            {backup
+              ? "Choose how to apply the backup and check what will change."
+              : "Upload a backup file downloaded from this page."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!backup ? (
+          <div className="space-y-3">
+            <label
+              className="flex cursor-pointer flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed p-10 text-center hover-elevate"
+              data-testid="dropzone-restore"
+            >
+              <Upload className="h-8 w-8 text-muted-foreground" />
+              <span className="font-medium">Choose a backup file</span>
+              <span className="text-sm text-muted-foreground">JSON, as downloaded with Download Backup</span>
+              <input
+                type="file"
+                accept=".json,application/json"
+                className="sr-only"
+                onChange={(event) => {
+                  handleFile(event.target.files?.[0]);
+                  event.target.value = "";
+                }}
+                data-testid="input-restore-file"
+              />
+            </label>
+            {readError && (
+              <p className="flex items-center gap-2 text-sm text-destructive" data-testid="text-restore-read-error">
+                <AlertCircle className="h-4 w-4" />
+                {readError}
+              </p>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <FileJson className="h-4 w-4" />
+              {fileName} · made {format(new Date(backup.createdAt), "MMM d, yyyy HH:mm")}
+            </div>
+
+            <RadioGroup value={mode} onValueChange={(value) => setMode(value as RestoreMode)}>
+              {MODE_OPTIONS.map((option) => (
+                <Label
+                  key={option.mode}
+                  className="flex cursor-pointer items-start gap-3 rounded-lg border p-3 font-normal"
+                >
+                  <RadioGroupItem value={option.mode} className="mt-0.5" data-testid={`radio-restore-${option.mode}`} />
+                  <div className="space-y-0.5">
+                    <p className="font-medium">{option.label}</p>
+                    <p className="text-sm text-muted-foreground">{option.description}</p>
+                  </div>
+                </Label>
+              ))}
+            </RadioGroup>
+
+            {previewMutation.isPending && (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            )}
+            {previewMutation.isError && (
+              <p className="flex items-center gap-2 text-sm text-destructive" data-testid="text-restore-preview-error">
+                <AlertCircle className="h-4 w-4" />
+                {getErrorMessage(previewMutation.error, "The backup could not be checked. Please try again.")}
+              </p>
+            )}
+            {summary && !previewMutation.isPending && (
+              <>
+                <div className="rounded-lg border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Records</TableHead>
+                        <TableHead className="text-right">Added</TableHead>
+                        <TableHead className="text-right">Updated</TableHead>
+                        <TableHead className="text-right">Unchanged</TableHead>
+                        <TableHead className="text-right">Removed</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {COLLECTIONS.map(({ key, label }) => (
+                        <TableRow key={key} data-testid={`row-restore-${key}`}>
+                          <TableCell className="font-medium">{label}</TableCell>
+                          <TableCell className="text-right">{summary[key].added}</TableCell>
+                          <TableCell className="text-right">{summary[key].updated}</TableCell>
+                          <TableCell className="text-right">{summary[key].unchanged}</TableCell>
+                          <TableCell className={summary[key].removed > 0 ? "text-right text-destructive" : "text-right"}>
+                            {summary[key].removed}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {summary.settingsChanged
+                    ? "Organisation and personal settings will be replaced with the ones in the backup."
+                    : "Settings are the same as in the backup."}
+                </p>
+                {summary.passwordResets.length > 0 && (
+                  <p className="text-sm text-muted-foreground" data-testid="text-restore-password-resets">
+                    Passwords cannot be carried over from this backup. Reset them for{" "}
+                    {summary.passwordResets.join(", ")} after restoring.
+                  </p>
+                )}
+                {summary.errors.length > 0 && (
+                  <ul className="space-y-1 text-sm text-destructive" data-testid="list-restore-errors">
+                    {summary.errors.map((error) => (
+                      <li key={error} className="flex items-start gap-2">
+                        <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+                        {error}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {!backup ? (
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-restore">
+              Cancel
+            </Button>
+          ) : (
+            <>
+              <Button type="button" variant="outline" onClick={() => setBackup(null)} data-testid="button-restore-back">
+                Choose Another File
+              </Button>
+              <Button
+                type="button"
+                variant={mode === "replace" ? "destructive" : "default"}
+                onClick={() => restoreMutation.mutate()}
+                disabled={!canRestore || restoreMutation.isPending}
+                data-testid="button-submit-restore"
+              >
+                {restoreMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {mode === "replace" ? "Replace All Data" : "Merge Backup"}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Whole-tracker backup for administrators: users, certifications, types,
+// renewal history and settings in one versioned JSON file.
+export function BackupRestore() {
+  const { toast } = useToast();
+  const [isRestoreOpen, setIsRestoreOpen] = useState(false);
+
+  const backupMutation = useMutation({
+    mutationFn: getBackup,
+    onSuccess: (backup) => {
+      downloadFile({
+        body: JSON.stringify(backup, null, 2),
+        contentType: "application/json",
+        fileName: `certtrack-backup-${format(new Date(backup.createdAt), "yyyy-MM-dd")}.json`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to create the backup. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Archive className="h-5 w-5" />
+          Backup &amp; Restore
+        </CardTitle>
+        <CardDescription>
+          Download everything the tracker holds, or restore it from an earlier backup. Backups include password
+          hashes, so store them somewhere safe.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-wrap gap-2">
+        <Button
+          variant="outline"
+          onClick={() => backupMutation.mutate()}
+          disabled={backupMutation.isPending}
+          data-testid="button-download-backup"
+        >
+          {backupMutation.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Download className="mr-2 h-4 w-4" />
+          )}
+          Download Backup
+        </Button>
+        <Button variant="outline" onClick={() => setIsRestoreOpen(true)} data-testid="button-open-restore">
+          <Upload className="mr-2 h-4 w-4" />
+          Restore from Backup
+        </Button>
+      </CardContent>
+      <RestoreDialog open={isRestoreOpen} onOpenChange={setIsRestoreOpen} />
+    </Card>
+  );
+}
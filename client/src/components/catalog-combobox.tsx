@@ -0,0 +1,126 @@
+import { useState } from "react";
+import { Check, ChevronsUpDown, PenLine } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+import type { CertificationType } from "@shared/schema";
+import { CATALOG_LEVEL_LABELS } from "@shared/catalog";
+
+interface CatalogComboboxProps {
+  name: string;
+  typeId: string | null;
+  types: CertificationType[];
+  onSelectType: (typeId: string) => void;
+  // A name not in the catalog, kept as typed
+  onFreeText: (name: string) => void;
+}
+
+const OTHER_CATEGORY = "Other";
+
+// Catalog entries grouped by category, uncategorised ones last
+function byCategory(types: CertificationType[]): [string, CertificationType[]][] {
+  const groups = new Map<string, CertificationType[]>();
+  for (const type of types) {
+    const category = type.category || OTHER_CATEGORY;
+    groups.set(category, [...(groups.get(category) ?? []), type]);
+  }
+  return Array.from(groups).sort(([a], [b]) =>
+    a === OTHER_CATEGORY ? 1 : b === OTHER_CATEGORY ? -1 : a.localeCompare(b),
+  );
+}
+
+export function CatalogCombobox({ name, typeId, types, onSelectType, onFreeText }: CatalogComboboxProps) {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const typed = search.trim();
+  const inCatalog = types.some((t) => t.name.toLowerCase() === typed.toLowerCase());
+
+  const close = () => {
+    setOpen(false);
+    setSearch("");
+  };
+
+  return (
+    <Popover open={open} onOpenChange={(next) => (next ? setOpen(true) : close())}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          role="combobox"
+          aria-expanded={open}
+          className={cn("w-full justify-between font-normal", !name && "text-muted-foreground")}
+          data-testid="combobox-cert-name"
+        >
+          <span className="truncate">{name || "Choose from the catalog or type a name"}</span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+        <Command>
+          <CommandInput
+            placeholder="Search the catalog..."
+            value={search}
+            onValueChange={setSearch}
+            data-testid="input-catalog-search"
+          />
+          <CommandList>
+            <CommandEmpty>No catalog entries match.</CommandEmpty>
+            {byCategory(types).map(([category, entries]) => (
+              <CommandGroup key={category} heading={category}>
+                {entries.map((type) => (
+                  <CommandItem
+                    key={type.id}
+                    value={type.name}
+                    keywords={[type.issuingOrganization ?? "", type.category ?? ""]}
+                    onSelect={() => {
+                      onSelectType(type.id);
+                      close();
+                    }}
+                    data-testid={`option-catalog-${type.id}`}
+                  >
+                    <Check className={cn("mr-2 h-4 w-4", typeId === type.id ? "opacity-100" : "opacity-0")} />
+                    <div className="min-w-0">
+                      <p className="truncate">{type.name}</p>
+                      <p className="truncate text-xs text-muted-foreground">
+                        {[type.issuingOrganization, type.level && CATALOG_LEVEL_LABELS[type.level]]
+                          .filter(Boolean)
+                          .join(" · ")}
+                      </p>
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            ))}
+            {typed && !inCatalog && (
+              <CommandGroup heading="Not in the catalog">
+                <CommandItem
+                  value={typed}
+                  onSelect={() => {
+                    onFreeText(typed);
+                    close();
+                  }}
+                  data-testid="option-catalog-free-text"
+                >
+                  <PenLine className="mr-2 h-4 w-4" />
+                  Use "{typed}"
+                </CommandItem>
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
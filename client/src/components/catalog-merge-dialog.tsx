@@ -0,0 +1,86 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { CertificationType } from "@shared/schema";
+import type { UnlistedEntry } from "@shared/catalog";
+
+interface CatalogMergeDialogProps {
+  entry: UnlistedEntry | null;
+  types: CertificationType[];
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (typeId: string) => void;
+  isLoading?: boolean;
+}
+
+// Picks the catalog item a typed-in certification really is
+export function CatalogMergeDialog({ entry, types, onOpenChange, onConfirm, isLoading = false }: CatalogMergeDialogProps) {
+  const [typeId, setTypeId] = useState("");
+  const target = types.find((t) => t.id === typeId);
+
+  useEffect(() => {
+    if (entry) setTypeId("");
+  }, [entry]);
+
+  const count = entry?.certificationIds.length ?? 0;
+
+  return (
+    <Dialog open={!!entry} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Merge into Catalog</DialogTitle>
+          <DialogDescription>
+            {count === 1 ? "1 certification" : `${count} certifications`} entered as "{entry?.name}" from{" "}
+            {entry?.issuingOrganization} will be linked to the catalog entry you choose.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Select value={typeId} onValueChange={setTypeId}>
+          <SelectTrigger data-testid="select-merge-target">
+            <SelectValue placeholder="Choose a catalog entry" />
+          </SelectTrigger>
+          <SelectContent>
+            {types.map((type) => (
+              <SelectItem key={type.id} value={type.id}>
+                {type.name}
+                {type.issuingOrganization && ` · ${type.issuingOrganization}`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {target && (
+          <p className="text-sm text-muted-foreground">
+            They will be renamed to "{target.name}"
+            {target.issuingOrganization && ` from ${target.issuingOrganization}`}. Dates, credential IDs and
+            renewal history stay as they are.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={() => onConfirm(typeId)} disabled={!typeId || isLoading} data-testid="button-confirm-merge">
+            {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Merge
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { format, parseISO } from "date-fns";
+import { AlertCircle, FileSearch, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { readPdfText } from "@/lib/pdf-text";
+import {
+  CERTIFICATE_FIELD_LABELS,
+  certificateFields,
+  parseCertificateText,
+  type CertificateDetails,
+  type CertificateField,
+} from "@shared/certificate-text";
+
+interface CertificatePrefillProps {
+  // When set, a proposed issuer must be one of these (matched ignoring case)
+  issuers: string[];
+  onApply: (details: CertificateDetails) => void;
+}
+
+const isDateField = (field: CertificateField) => field === "issueDate" || field === "expirationDate";
+
+// Reads a certificate PDF and lists what it found; only the ticked values are
+// copied into the form, where they can still be changed before saving.
+export function CertificatePrefill({ issuers, onApply }: CertificatePrefillProps) {
+  const [proposed, setProposed] = useState<CertificateDetails | null>(null);
+  const [selected, setSelected] = useState<CertificateField[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isReading, setIsReading] = useState(false);
+
+  const read = async (file: File) => {
+    setError(null);
+    setProposed(null);
+    if (file.type !== "application/pdf" && !file.name.toLowerCase().endsWith(".pdf")) {
+      setError("Choose the certificate as a PDF file");
+      return;
+    }
+    setIsReading(true);
+    try {
+      const text = await readPdfText(file);
+      if (!text.trim()) {
+        setError("This PDF has no text to read, so it is probably a scan. Enter the details by hand.");
+        return;
+      }
+      const details = parseCertificateText(text);
+      if (details.issuingOrganization && issuers.length > 0) {
+        const wanted = details.issuingOrganization.toLowerCase();
+        const issuer = issuers.find((option) => option.toLowerCase() === wanted);
+        if (issuer) details.issuingOrganization = issuer;
+        else delete details.issuingOrganization;
+      }
+      const found = certificateFields.filter((field) => details[field]);
+      if (found.length === 0) {
+        setError("No certification details were recognised in this PDF");
+        return;
+      }
+      setProposed(details);
+      setSelected(found);
+    } catch {
+      setError("The PDF could not be read");
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const toggle = (field: CertificateField, checked: boolean) =>
+    setSelected((current) => (checked ? [...current, field] : current.filter((f) => f !== field)));
+
+  const apply = () => {
+    if (!proposed) return;
+    onApply(Object.fromEntries(selected.map((field) => [field, proposed[field]])));
+    setProposed(null);
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <p className="text-sm font-medium">Fill from Certificate</p>
+          <p className="text-sm text-muted-foreground">The PDF is read on this device and is not uploaded.</p>
+        </div>
+        <Button type="button" variant="outline" size="sm" disabled={isReading} asChild>
+          <label className="cursor-pointer" data-testid="button-fill-from-certificate">
+            {isReading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileSearch className="mr-2 h-4 w-4" />}
+            Choose PDF
+            <input
+              type="file"
+              accept=".pdf"
+              className="sr-only"
+              disabled={isReading}
+              onChange={(event) => {
+                const file = event.target.files?.[0];
+                if (file) read(file);
+                event.target.value = "";
+              }}
+              data-testid="input-certificate-pdf"
+            />
+          </label>
+        </Button>
+      </div>
+
+      {error && (
+        <p className="flex items-start gap-2 text-sm text-destructive" data-testid="text-prefill-error">
+          <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+          {error}
+        </p>
+      )}
+
+      {proposed && (
+        <div className="space-y-3" data-testid="panel-prefill-proposal">
+          <ul className="space-y-2">
+            {certificateFields
+              .filter((field) => proposed[field])
+              .map((field) => (
+                <li key={field} className="flex items-start gap-3">
+                  <Checkbox
+                    id={`prefill-${field}`}
+                    checked={selected.includes(field)}
+                    onCheckedChange={(checked) => toggle(field, checked === true)}
+                    className="mt-0.5"
+                    data-testid={`checkbox-prefill-${field}`}
+                  />
+                  <label htmlFor={`prefill-${field}`} className="min-w-0 text-sm">
+                    <span className="text-muted-foreground">{CERTIFICATE_FIELD_LABELS[field]}: </span>
+                    <span className="break-words font-medium">
+                      {isDateField(field) ? format(parseISO(proposed[field]!), "PPP") : proposed[field]}
+                    </span>
+                  </label>
+                </li>
+              ))}
+          </ul>
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="ghost" size="sm" onClick={() => setProposed(null)} data-testid="button-prefill-dismiss">
+              Dismiss
+            </Button>
+            <Button type="button" size="sm" onClick={apply} disabled={selected.length === 0} data-testid="button-prefill-apply">
+              Use Selected
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { format, differenceInDays, parseISO } from "date-fns";
+import { format, parseISO } from "date-fns";
 import {
   Award,
   Calendar,
@@ -12,6 +12,9 @@ import {
   AlertTriangle,
   XCircle,
   Clock,
+  History,
+  ShieldCheck,
+  type LucideIcon,
 } from "lucide-react";
 import { Card, CardContent, CardFooter, CardHeader } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -23,13 +26,27 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import { AttachmentThumbnails } from "@/components/attachment-viewer";
+import { useCurrentAttachments } from "@/hooks/use-attachments";
+import { useCertificationStatus } from "@/hooks/use-certification-status";
 import type { Certification } from "@shared/schema";
+import { describeDaysLeft, formatExpiration, type CertificationStatus } from "@shared/status";
+import { VERIFICATION_STATUS_LABELS, isVerified } from "@shared/verification";
+
+export const STATUS_ICONS: Record<CertificationStatus, LucideIcon> = {
+  expired: XCircle,
+  critical: AlertTriangle,
+  warning: Clock,
+  soon: Clock,
+  active: CheckCircle,
+};
 
 interface CertificationCardProps {
   certification: Certification;
   onEdit?: (certification: Certification) => void;
   onDelete?: (certification: Certification) => void;
   onRenew?: (certification: Certification) => void;
+  onHistory?: (certification: Certification) => void;
   showActions?: boolean;
   isAdmin?: boolean;
 }
@@ -39,58 +56,18 @@ export function CertificationCard({
   onEdit,
   onDelete,
   onRenew,
+  onHistory,
   showActions = true,
   isAdmin = false,
 }: CertificationCardProps) {
-  const expirationDate = parseISO(certification.expirationDate);
-  const daysUntilExpiration = differenceInDays(expirationDate, new Date());
-  
-  const getStatusInfo = () => {
-    if (daysUntilExpiration < 0) {
-      return {
-        status: "expired",
-        label: "Expired",
-        variant: "destructive" as const,
-        icon: XCircle,
-        color: "text-destructive",
-      };
-    } else if (daysUntilExpiration <= 30) {
-      return {
-        status: "critical",
-        label: `${daysUntilExpiration} days left`,
-        variant: "destructive" as const,
-        icon: AlertTriangle,
-        color: "text-destructive",
-      };
-    } else if (daysUntilExpiration <= 60) {
-      return {
-        status: "warning",
-        label: `${daysUntilExpiration} days left`,
-        variant: "secondary" as const,
-        icon: Clock,
-        color: "text-yellow-600 dark:text-yellow-500",
-      };
-    } else if (daysUntilExpiration <= 90) {
-      return {
-        status: "soon",
-        label: `${daysUntilExpiration} days left`,
-        variant: "secondary" as const,
-        icon: Clock,
-        color: "text-muted-foreground",
-      };
-    } else {
-      return {
-        status: "active",
-        label: "Active",
-        variant: "default" as const,
-        icon: CheckCircle,
-        color: "text-green-600 dark:text-green-500",
-      };
-    }
-  };
-
-  const statusInfo = getStatusInfo();
-  const StatusIcon = statusInfo.icon;
+  const { statusOf } = useCertificationStatus();
+  const attachments = useCurrentAttachments(certification.id);
+  const statusInfo = statusOf(certification);
+  const badgeLabel =
+    statusInfo.status === "active" || statusInfo.status === "expired"
+      ? statusInfo.label
+      : describeDaysLeft(statusInfo.days);
+  const StatusIcon = STATUS_ICONS[statusInfo.status];
 
   return (
     <Card className="group hover-elevate transition-all duration-200" data-testid={`card-certification-${certification.id}`}>
@@ -107,12 +84,21 @@ export function CertificationCard({
               <Building2 className="h-3.5 w-3.5 shrink-0" />
               <span className="truncate" data-testid="text-issuing-org">{certification.issuingOrganization}</span>
             </div>
+            {isVerified(certification) && (
+              <div className="mt-1 flex items-center gap-1.5 text-xs text-muted-foreground" data-testid="text-verification">
+                <ShieldCheck className="h-3.5 w-3.5 shrink-0 text-primary" />
+                <span className="truncate">
+                  {VERIFICATION_STATUS_LABELS[certification.verificationStatus]}
+                  {certification.verifiedAt && ` · ${format(new Date(certification.verifiedAt), "MMM d, yyyy")}`}
+                </span>
+              </div>
+            )}
           </div>
         </div>
         <div className="flex items-center gap-2">
-          <Badge variant={statusInfo.variant} className="shrink-0" data-testid="badge-status">
+          <Badge variant={statusInfo.badgeVariant} className="shrink-0" data-testid="badge-status">
             <StatusIcon className="mr-1 h-3 w-3" />
-            {statusInfo.label}
+            {badgeLabel}
           </Badge>
           {showActions && (
             <DropdownMenu>
@@ -134,6 +120,12 @@ export function CertificationCard({
                     Mark as Renewed
                   </DropdownMenuItem>
                 )}
+                {onHistory && (
+                  <DropdownMenuItem onClick={() => onHistory(certification)} data-testid="button-cert-history">
+                    <History className="mr-2 h-4 w-4" />
+                    Renewal History
+                  </DropdownMenuItem>
+                )}
                 {certification.certificateUrl && (
                   <DropdownMenuItem asChild>
                     <a href={certification.certificateUrl} target="_blank" rel="noopener noreferrer" data-testid="link-view-cert">
@@ -171,8 +163,8 @@ export function CertificationCard({
           </div>
           <div>
             <p className="text-muted-foreground mb-1">Expiration Date</p>
-            <p className={`font-medium ${statusInfo.color}`} data-testid="text-expiration-date">
-              {format(expirationDate, "MMM d, yyyy")}
+            <p className={`font-medium ${statusInfo.textClass}`} data-testid="text-expiration-date">
+              {formatExpiration(certification.expirationDate)}
             </p>
           </div>
         </div>
@@ -184,6 +176,11 @@ export function CertificationCard({
             </p>
           </div>
         )}
+        {attachments.length > 0 && (
+          <div className="mt-3" data-testid="list-attachments">
+            <AttachmentThumbnails attachments={attachments} max={4} />
+          </div>
+        )}
       </CardContent>
 
       {certification.notes && (
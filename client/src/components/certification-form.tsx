@@ -1,9 +1,11 @@
 import { useEffect, useRef } from "react";
 import { useForm } from "react-hook-form";
+import { useQuery } from "@tanstack/react-query";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { format } from "date-fns";
-import { CalendarIcon, Loader2 } from "lucide-react";
+import { format, parseISO } from "date-fns";
+import { AlertTriangle, CalendarIcon, Loader2 } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { Button } from "@/components/ui/button";
 import { Calendar } from "@/components/ui/calendar";
 import {
@@ -24,6 +26,7 @@ import {
   FormMessage,
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
 import { Textarea } from "@/components/ui/textarea";
 import {
   Popover,
@@ -37,19 +40,48 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { AttachmentManager } from "@/components/attachment-manager";
+import { CatalogCombobox } from "@/components/catalog-combobox";
+import { CertificatePrefill } from "@/components/certificate-prefill";
+import { isLocalMode } from "@/lib/queryClient";
 import { cn } from "@/lib/utils";
-import type { Certification, User } from "@shared/schema";
+import {
+  EXPIRATION_BEFORE_ISSUE,
+  certificationFieldsSchema,
+  type Certification,
+  type CertificationType,
+  type OrganizationSettings,
+  type User,
+} from "@shared/schema";
+import { describeValidity, expirationAfter, isLifetimeType } from "@shared/renewals";
+import type { CertificateDetails } from "@shared/certificate-text";
+import { credentialIdFormatError } from "@shared/catalog";
+import { duplicateMessage, findDuplicate } from "@shared/duplicates";
+import { generatedVerificationUrl } from "@shared/verification";
+
+// Radix Select items cannot have an empty value
+const NO_TYPE = "none";
 
-const certificationFormSchema = z.object({
-  name: z.string().min(1, "Certification name is required"),
-  issuingOrganization: z.string().min(1, "Issuing organization is required"),
-  issueDate: z.date({ required_error: "Issue date is required" }),
-  expirationDate: z.date({ required_error: "Expiration date is required" }),
-  credentialId: z.string().optional(),
-  certificateUrl: z.string().url("Must be a valid URL").optional().or(z.literal("")),
-  notes: z.string().optional(),
-  userId: z.string().optional(),
-});
+// Text fields reuse the server's rules; dates are picked as Date objects and
+// converted to YYYY-MM-DD strings on submit. A certification that does not
+// expire is sent with a null expiration date.
+const certificationFormSchema = certificationFieldsSchema
+  .pick({ name: true, issuingOrganization: true, credentialId: true, certificateUrl: true, notes: true })
+  .extend({
+    issueDate: z.date({ required_error: "Issue date is required" }),
+    expirationDate: z.date().optional(),
+    noExpiration: z.boolean(),
+    userId: z.string().optional(),
+    typeId: z.string(),
+  })
+  .refine((data) => data.noExpiration || data.expirationDate, {
+    message: "Expiration date is required",
+    path: ["expirationDate"],
+  })
+  .refine((data) => data.noExpiration || !data.expirationDate || data.expirationDate > data.issueDate, {
+    message: EXPIRATION_BEFORE_ISSUE,
+    path: ["expirationDate"],
+  });
 
 type CertificationFormValues = z.infer<typeof certificationFormSchema>;
 
@@ -62,6 +94,8 @@ interface CertificationFormProps {
   isAdmin?: boolean;
   users?: User[];
   currentUserId?: string;
+  // Certifications already recorded, to warn about adding one twice
+  existing?: Certification[];
 }
 
 export function CertificationForm({
@@ -73,6 +107,7 @@ export function CertificationForm({
   isAdmin = false,
   users = [],
   currentUserId,
+  existing = [],
 }: CertificationFormProps) {
   const form = useForm<CertificationFormValues>({
     resolver: zodResolver(certificationFormSchema),
@@ -81,13 +116,119 @@ export function CertificationForm({
       issuingOrganization: "",
       issueDate: undefined,
       expirationDate: undefined,
+      noExpiration: false,
       credentialId: "",
       certificateUrl: "",
       notes: "",
       userId: currentUserId || "",
+      typeId: NO_TYPE,
     },
   });
 
+  // Deactivated accounts can't be given new certifications, but an edited
+  // certification keeps showing its current owner.
+  const assignableUsers = users.filter((u) => !u.deactivated || u.id === certification?.userId);
+
+  // With an approved issuer list the issuer is picked rather than typed; a
+  // certification from an issuer since removed keeps its current value.
+  const { data: orgSettings } = useQuery<OrganizationSettings>({
+    queryKey: ["/api/settings/organization"],
+  });
+  const allowedIssuers = orgSettings?.allowedIssuers ?? [];
+  const issuerOptions =
+    certification && allowedIssuers.length > 0 && !allowedIssuers.includes(certification.issuingOrganization)
+      ? [certification.issuingOrganization, ...allowedIssuers]
+      : allowedIssuers;
+
+  const { data: types = [] } = useQuery<CertificationType[]>({
+    queryKey: ["/api/certification-types"],
+  });
+  const noExpiration = form.watch("noExpiration");
+  const selectedType = types.find((t) => t.id === form.watch("typeId"));
+  const issuerFromCatalog = !!selectedType?.issuingOrganization;
+
+  // Only new certifications are checked; the server repeats the check
+  const [name, issuingOrganization, credentialId, typeId, userId] = form.watch([
+    "name",
+    "issuingOrganization",
+    "credentialId",
+    "typeId",
+    "userId",
+  ]);
+  const duplicate =
+    !certification && name?.trim()
+      ? findDuplicate(
+          {
+            userId: (isAdmin ? userId : currentUserId) ?? "",
+            name,
+            issuingOrganization: issuingOrganization ?? "",
+            credentialId,
+            typeId: typeId === NO_TYPE ? null : typeId,
+          },
+          existing,
+        )
+      : undefined;
+
+  // With an issuer template the link follows the credential ID, until the
+  // user types a link of their own
+  const generatedUrl = generatedVerificationUrl(
+    { typeId: typeId === NO_TYPE ? null : typeId, issuingOrganization, credentialId },
+    types,
+  );
+  const generatedUrlRef = useRef<string | null>(null);
+  useEffect(() => {
+    const previous = generatedUrlRef.current;
+    generatedUrlRef.current = generatedUrl;
+    const current = form.getValues("certificateUrl");
+    if (generatedUrl !== previous && (!current || current === previous)) {
+      form.setValue("certificateUrl", generatedUrl ?? "", { shouldValidate: true });
+    }
+  }, [generatedUrl, form]);
+
+  // Choosing a type fills in what it knows and works out the expiration date
+  // from the issue date, or marks it as not expiring; all of it stays editable.
+  const proposeExpiration = (typeId: string, issueDate: Date | undefined) => {
+    const type = types.find((t) => t.id === typeId);
+    if (!type || !issueDate) return;
+    const expiration = expirationAfter(type, format(issueDate, "yyyy-MM-dd"));
+    if (expiration) form.setValue("expirationDate", parseISO(expiration), { shouldValidate: true });
+  };
+
+  const chooseType = (typeId: string) => {
+    form.setValue("typeId", typeId);
+    const type = types.find((t) => t.id === typeId);
+    if (!type) return;
+    // Catalog entries are named one way so certifications group together
+    form.setValue("name", type.name, { shouldValidate: true });
+    if (type.issuingOrganization) {
+      form.setValue("issuingOrganization", type.issuingOrganization, { shouldValidate: true });
+    }
+    form.setValue("noExpiration", isLifetimeType(type));
+    proposeExpiration(typeId, form.getValues("issueDate"));
+  };
+
+  // Values confirmed from a certificate PDF overwrite what was typed so far
+  const fillFromCertificate = (details: CertificateDetails) => {
+    const options = { shouldValidate: true, shouldDirty: true };
+    // A name the catalog knows links to that entry, which then supplies the issuer
+    const type = types.find((t) => t.name.toLowerCase() === details.name?.toLowerCase());
+    if (type) {
+      chooseType(type.id);
+    } else if (details.name) {
+      form.setValue("name", details.name, options);
+      form.setValue("typeId", NO_TYPE);
+    }
+    if (details.issuingOrganization && !type?.issuingOrganization) {
+      form.setValue("issuingOrganization", details.issuingOrganization, options);
+    }
+    if (details.credentialId) form.setValue("credentialId", details.credentialId, options);
+    if (details.issueDate) form.setValue("issueDate", parseISO(details.issueDate), options);
+    if (details.expirationDate) {
+      form.setValue("noExpiration", false);
+      form.setValue("expirationDate", parseISO(details.expirationDate), options);
+    }
+  };
+
   // Track when the dialog opens and which certification is being edited
   const prevOpenRef = useRef(false);
   const prevCertIdRef = useRef<string | undefined>(undefined);
@@ -110,23 +251,35 @@ export function CertificationForm({
       form.reset({
         name: certification?.name || "",
         issuingOrganization: certification?.issuingOrganization || "",
-        issueDate: certification?.issueDate ? new Date(certification.issueDate) : undefined,
-        expirationDate: certification?.expirationDate ? new Date(certification.expirationDate) : undefined,
+        issueDate: certification?.issueDate ? parseISO(certification.issueDate) : undefined,
+        expirationDate: certification?.expirationDate ? parseISO(certification.expirationDate) : undefined,
+        noExpiration: !!certification && certification.expirationDate === null,
         credentialId: certification?.credentialId || "",
         certificateUrl: certification?.certificateUrl || "",
         notes: certification?.notes || "",
         userId: certification?.userId || currentUserId || "",
+        typeId: certification?.typeId || NO_TYPE,
       });
     }
   }, [open, certification, currentUserId, form]);
 
   const handleSubmit = (data: CertificationFormValues) => {
-    // Convert Date objects to ISO strings (YYYY-MM-DD) before submitting
+    const formatError = credentialIdFormatError(selectedType, data.credentialId);
+    if (formatError) {
+      form.setError("credentialId", { message: formatError });
+      return;
+    }
+    // Picked dates are local midnight, so format them in local time; going
+    // through toISOString would shift them a day east of UTC
+    const { noExpiration, ...values } = data;
     const formattedData = {
-      ...data,
-      issueDate: data.issueDate.toISOString().split('T')[0],
-      expirationDate: data.expirationDate.toISOString().split('T')[0],
+      ...values,
+      issueDate: format(data.issueDate, "yyyy-MM-dd"),
+      expirationDate: noExpiration ? null : format(data.expirationDate!, "yyyy-MM-dd"),
       userId: isAdmin ? data.userId : currentUserId,
+      typeId: data.typeId === NO_TYPE ? null : data.typeId,
+      // Submitting with the warning showing means the user has seen it
+      allowDuplicate: !!duplicate,
     };
     onSubmit(formattedData as unknown as CertificationFormValues);
   };
@@ -147,7 +300,7 @@ export function CertificationForm({
 
         <Form {...form}>
           <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
-            {isAdmin && users.length > 0 && (
+            {isAdmin && assignableUsers.length > 0 && (
               <FormField
                 control={form.control}
                 name="userId"
@@ -161,7 +314,7 @@ export function CertificationForm({
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
-                        {users.map((user) => (
+                        {assignableUsers.map((user) => (
                           <SelectItem key={user.id} value={user.id} data-testid={`option-user-${user.id}`}>
                             {user.fullName} ({user.username})
                           </SelectItem>
@@ -174,19 +327,46 @@ export function CertificationForm({
               />
             )}
 
+            <CertificatePrefill issuers={issuerOptions} onApply={fillFromCertificate} />
+
             <FormField
               control={form.control}
               name="name"
               render={({ field }) => (
                 <FormItem>
                   <FormLabel>Certification Name</FormLabel>
-                  <FormControl>
-                    <Input
-                      placeholder="e.g., AWS Solutions Architect"
-                      {...field}
-                      data-testid="input-cert-name"
-                    />
-                  </FormControl>
+                  {types.length > 0 ? (
+                    <FormControl>
+                      <CatalogCombobox
+                        name={field.value ?? ""}
+                        typeId={selectedType?.id ?? null}
+                        types={types}
+                        onSelectType={chooseType}
+                        onFreeText={(name) => {
+                          field.onChange(name);
+                          form.setValue("typeId", NO_TYPE);
+                        }}
+                      />
+                    </FormControl>
+                  ) : (
+                    <FormControl>
+                      <Input
+                        placeholder="e.g., AWS Solutions Architect"
+                        {...field}
+                        data-testid="input-cert-name"
+                      />
+                    </FormControl>
+                  )}
+                  {selectedType ? (
+                    <FormDescription data-testid="text-catalog-entry">
+                      From the catalog · {describeValidity(selectedType.validityMonths)}
+                    </FormDescription>
+                  ) : (
+                    types.length > 0 &&
+                    field.value && (
+                      <FormDescription>Not in the catalog; an admin may merge it into a catalog entry later.</FormDescription>
+                    )
+                  )}
                   <FormMessage />
                 </FormItem>
               )}
@@ -198,13 +378,31 @@ export function CertificationForm({
               render={({ field }) => (
                 <FormItem>
                   <FormLabel>Issuing Organization</FormLabel>
-                  <FormControl>
-                    <Input
-                      placeholder="e.g., Amazon Web Services"
-                      {...field}
-                      data-testid="input-issuing-org"
-                    />
-                  </FormControl>
+                  {issuerOptions.length > 0 ? (
+                    <Select onValueChange={field.onChange} value={field.value} disabled={issuerFromCatalog}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-issuing-org">
+                          <SelectValue placeholder="Select an issuer" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {issuerOptions.map((issuer) => (
+                          <SelectItem key={issuer} value={issuer}>
+                            {issuer}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  ) : (
+                    <FormControl>
+                      <Input
+                        placeholder="e.g., Amazon Web Services"
+                        {...field}
+                        disabled={issuerFromCatalog}
+                        data-testid="input-issuing-org"
+                      />
+                    </FormControl>
+                  )}
                   <FormMessage />
                 </FormItem>
               )}
@@ -241,7 +439,10 @@ export function CertificationForm({
                         <Calendar
                           mode="single"
                           selected={field.value}
-                          onSelect={field.onChange}
+                          onSelect={(date) => {
+                            field.onChange(date);
+                            proposeExpiration(form.getValues("typeId"), date);
+                          }}
                           disabled={(date) =>
                             date > new Date()
                           }
@@ -254,47 +455,65 @@ export function CertificationForm({
                 )}
               />
 
-              <FormField
-                control={form.control}
-                name="expirationDate"
-                render={({ field }) => (
-                  <FormItem className="flex flex-col">
-                    <FormLabel>Expiration Date</FormLabel>
-                    <Popover>
-                      <PopoverTrigger asChild>
-                        <FormControl>
-                          <Button
-                            variant="outline"
-                            className={cn(
-                              "pl-3 text-left font-normal",
-                              !field.value && "text-muted-foreground"
-                            )}
-                            data-testid="button-expiration-date"
-                          >
-                            {field.value ? (
-                              format(field.value, "PPP")
-                            ) : (
-                              <span>Pick a date</span>
-                            )}
-                            <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
-                          </Button>
-                        </FormControl>
-                      </PopoverTrigger>
-                      <PopoverContent className="w-auto p-0" align="start">
-                        <Calendar
-                          mode="single"
-                          selected={field.value}
-                          onSelect={field.onChange}
-                          initialFocus
-                        />
-                      </PopoverContent>
-                    </Popover>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+              {!noExpiration && (
+                <FormField
+                  control={form.control}
+                  name="expirationDate"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-col">
+                      <FormLabel>Expiration Date</FormLabel>
+                      <Popover>
+                        <PopoverTrigger asChild>
+                          <FormControl>
+                            <Button
+                              variant="outline"
+                              className={cn(
+                                "pl-3 text-left font-normal",
+                                !field.value && "text-muted-foreground"
+                              )}
+                              data-testid="button-expiration-date"
+                            >
+                              {field.value ? (
+                                format(field.value, "PPP")
+                              ) : (
+                                <span>Pick a date</span>
+                              )}
+                              <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                            </Button>
+                          </FormControl>
+                        </PopoverTrigger>
+                        <PopoverContent className="w-auto p-0" align="start">
+                          <Calendar
+                            mode="single"
+                            selected={field.value}
+                            onSelect={field.onChange}
+                            initialFocus
+                          />
+                        </PopoverContent>
+                      </Popover>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
             </div>
 
+            <FormField
+              control={form.control}
+              name="noExpiration"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                  <div className="space-y-0.5">
+                    <FormLabel>Does not expire</FormLabel>
+                    <FormDescription>Lifetime certifications always count as active.</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-no-expiration" />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="credentialId"
@@ -305,11 +524,14 @@ export function CertificationForm({
                     <Input
                       placeholder="e.g., ABC123XYZ"
                       {...field}
+                      value={field.value ?? ""}
                       data-testid="input-credential-id"
                     />
                   </FormControl>
                   <FormDescription>
-                    The unique identifier for this certification
+                    {selectedType?.credentialIdFormat
+                      ? `The unique identifier for this certification, in the format ${selectedType.credentialIdFormat}`
+                      : "The unique identifier for this certification"}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
@@ -326,17 +548,30 @@ export function CertificationForm({
                     <Input
                       placeholder="https://..."
                       {...field}
+                      value={field.value ?? ""}
                       data-testid="input-certificate-url"
                     />
                   </FormControl>
                   <FormDescription>
-                    Link to the certificate or verification page
+                    {generatedUrl && field.value === generatedUrl
+                      ? "The issuer's verification page for this credential ID"
+                      : "Link to the certificate or verification page"}
                   </FormDescription>
                   <FormMessage />
                 </FormItem>
               )}
             />
 
+            {/* Documents hang off a saved certification, so they are added when editing */}
+            {!isLocalMode &&
+              (certification ? (
+                <AttachmentManager certificationId={certification.id} />
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  Certificate documents can be attached once the certification has been added.
+                </p>
+              ))}
+
             <FormField
               control={form.control}
               name="notes"
@@ -348,6 +583,7 @@ export function CertificationForm({
                       placeholder="Additional notes about this certification..."
                       className="resize-none"
                       {...field}
+                      value={field.value ?? ""}
                       data-testid="input-notes"
                     />
                   </FormControl>
@@ -356,6 +592,17 @@ export function CertificationForm({
               )}
             />
 
+            {duplicate && (
+              <Alert data-testid="alert-duplicate">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertTitle>Possible duplicate</AlertTitle>
+                <AlertDescription>
+                  {duplicateMessage(duplicate)}. Only add it if it is a separate credential; to record a new cycle,
+                  renew the existing certification instead.
+                </AlertDescription>
+              </Alert>
+            )}
+
             <DialogFooter>
               <Button
                 type="button"
@@ -367,7 +614,7 @@ export function CertificationForm({
               </Button>
               <Button type="submit" disabled={isLoading} data-testid="button-submit-cert">
                 {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                {certification ? "Update" : "Add"} Certification
+                {certification ? "Update Certification" : duplicate ? "Add Anyway" : "Add Certification"}
               </Button>
             </DialogFooter>
           </form>
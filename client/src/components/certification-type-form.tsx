@@ -0,0 +1,319 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { catalogLevels, renewalBases, type CertificationType, type InsertCertificationType } from "@shared/schema";
+import { RENEWAL_BASIS_LABELS } from "@shared/renewals";
+import {
+  CATALOG_LEVEL_LABELS,
+  CREDENTIAL_ID_PLACEHOLDER,
+  isValidCredentialIdFormat,
+  isValidVerificationUrlTemplate,
+} from "@shared/catalog";
+
+// Radix Select items cannot have an empty value
+const NO_LEVEL = "none";
+
+// Validity is edited as months plus a "does not expire" switch and sent as
+// validityMonths, null for lifetime types. Blank optional fields are sent as null.
+const certificationTypeFormSchema = z
+  .object({
+    name: z.string().trim().min(1, "Type name is required"),
+    issuingOrganization: z.string().trim(),
+    lifetime: z.boolean(),
+    validityMonths: z.coerce.number().int("Enter a whole number of months").optional(),
+    renewalBasis: z.enum(renewalBases),
+    level: z.enum([NO_LEVEL, ...catalogLevels]),
+    category: z.string().trim(),
+    credentialIdFormat: z
+      .string()
+      .trim()
+      .refine((value) => !value || isValidCredentialIdFormat(value), "Enter a valid regular expression"),
+    verificationUrlTemplate: z
+      .string()
+      .trim()
+      .refine(
+        (value) => !value || isValidVerificationUrlTemplate(value),
+        `Must be a URL containing ${CREDENTIAL_ID_PLACEHOLDER}`,
+      ),
+  })
+  .refine((data) => data.lifetime || (data.validityMonths !== undefined && data.validityMonths >= 1), {
+    message: "Validity must be at least one month",
+    path: ["validityMonths"],
+  });
+
+type CertificationTypeFormValues = z.infer<typeof certificationTypeFormSchema>;
+
+interface CertificationTypeFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (data: InsertCertificationType) => void;
+  type?: CertificationType | null;
+  // Starting values for a new entry, such as a typed-in certification being added
+  defaults?: Pick<CertificationType, "name" | "issuingOrganization">;
+  isLoading?: boolean;
+}
+
+export function CertificationTypeForm({
+  open,
+  onOpenChange,
+  onSubmit,
+  type,
+  defaults,
+  isLoading = false,
+}: CertificationTypeFormProps) {
+  const form = useForm<CertificationTypeFormValues>({
+    resolver: zodResolver(certificationTypeFormSchema),
+  });
+  const lifetime = form.watch("lifetime");
+
+  useEffect(() => {
+    if (open) {
+      form.reset({
+        name: type?.name ?? defaults?.name ?? "",
+        issuingOrganization: type?.issuingOrganization ?? defaults?.issuingOrganization ?? "",
+        lifetime: type ? type.validityMonths === null : false,
+        validityMonths: type?.validityMonths ?? 36,
+        renewalBasis: type?.renewalBasis ?? "expiration",
+        level: type?.level ?? NO_LEVEL,
+        category: type?.category ?? "",
+        credentialIdFormat: type?.credentialIdFormat ?? "",
+        verificationUrlTemplate: type?.verificationUrlTemplate ?? "",
+      });
+    }
+  }, [open, type, defaults, form]);
+
+  const handleSubmit = (data: CertificationTypeFormValues) => {
+    onSubmit({
+      name: data.name,
+      issuingOrganization: data.issuingOrganization || null,
+      validityMonths: data.lifetime ? null : data.validityMonths!,
+      renewalBasis: data.renewalBasis,
+      level: data.level === NO_LEVEL ? null : data.level,
+      category: data.category || null,
+      credentialIdFormat: data.credentialIdFormat || null,
+      verificationUrlTemplate: data.verificationUrlTemplate || null,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle data-testid="text-type-form-title">
+            {type ? "Edit Catalog Entry" : "Add Catalog Entry"}
+          </DialogTitle>
+          <DialogDescription>
+            A credential people can pick when adding a certification, with how long it lasts.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., AWS Solutions Architect – Associate" {...field} data-testid="input-type-name" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="issuingOrganization"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Issuing Organization (Optional)</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Amazon Web Services" {...field} data-testid="input-type-issuer" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="lifetime"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                  <div className="space-y-0.5">
+                    <FormLabel>Does not expire</FormLabel>
+                    <FormDescription>Lifetime certifications are never due for renewal.</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-type-lifetime" />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            {!lifetime && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="validityMonths"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Valid For (Months)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} {...field} value={field.value ?? ""} data-testid="input-type-validity" />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="renewalBasis"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Renewals Count</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-type-renewal-basis">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {renewalBases.map((basis) => (
+                            <SelectItem key={basis} value={basis}>
+                              {RENEWAL_BASIS_LABELS[basis]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>The default; it can be changed when renewing.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="level"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Level (Optional)</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-type-level">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_LEVEL}>No level</SelectItem>
+                        {catalogLevels.map((level) => (
+                          <SelectItem key={level} value={level}>
+                            {CATALOG_LEVEL_LABELS[level]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="category"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Category (Optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g., Cloud" {...field} data-testid="input-type-category" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="credentialIdFormat"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Credential ID Format (Optional)</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., [A-Z0-9]{10}" className="font-mono" {...field} data-testid="input-type-id-format" />
+                  </FormControl>
+                  <FormDescription>A regular expression the whole credential ID must match.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="verificationUrlTemplate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Verification URL (Optional)</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder={`e.g., https://example.com/verify/${CREDENTIAL_ID_PLACEHOLDER}`}
+                      {...field}
+                      data-testid="input-type-verification-url"
+                    />
+                  </FormControl>
+                  <FormDescription>Use {CREDENTIAL_ID_PLACEHOLDER} where the credential ID goes.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-type">
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isLoading} data-testid="button-submit-type">
+                {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {type ? "Save Entry" : "Add to Catalog"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,63 @@
+import { format } from "date-fns";
+import { Download, FileJson, FileSpreadsheet, FileText } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useCertificationStatus } from "@/hooks/use-certification-status";
+import { downloadFile } from "@/lib/spreadsheet";
+import type { Certification, User } from "@shared/schema";
+import { serializeExport, toExportRows, type ExportFormat } from "@shared/export";
+
+const FORMAT_OPTIONS: { format: ExportFormat; label: string; icon: typeof FileText }[] = [
+  { format: "csv", label: "CSV", icon: FileText },
+  { format: "xlsx", label: "Excel (XLSX)", icon: FileSpreadsheet },
+  { format: "json", label: "JSON", icon: FileJson },
+];
+
+interface ExportMenuProps {
+  // Already filtered the way the page shows them
+  certifications: Certification[];
+  users: Pick<User, "id" | "fullName" | "email">[];
+}
+
+export function ExportMenu({ certifications, users }: ExportMenuProps) {
+  const { statusOf } = useCertificationStatus();
+
+  const exportAs = (exportFormat: ExportFormat) => {
+    const rows = toExportRows(certifications, users, statusOf);
+    downloadFile(serializeExport(rows, exportFormat, format(new Date(), "yyyy-MM-dd")));
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={certifications.length === 0} data-testid="button-export">
+          <Download className="mr-2 h-4 w-4" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>
+          {certifications.length} {certifications.length === 1 ? "certification" : "certifications"}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {FORMAT_OPTIONS.map((option) => (
+          <DropdownMenuItem
+            key={option.format}
+            onClick={() => exportAs(option.format)}
+            data-testid={`button-export-${option.format}`}
+          >
+            <option.icon className="mr-2 h-4 w-4" />
+            {option.label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,344 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { AlertCircle, CheckCircle2, CopyX, FileSpreadsheet, Loader2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  SPREADSHEET_ACCEPT,
+  applyMapping,
+  guessMapping,
+  readSpreadsheet,
+  type ImportMapping,
+  type Spreadsheet,
+} from "@/lib/spreadsheet";
+import type { Certification, OrganizationSettings, User } from "@shared/schema";
+import {
+  IMPORT_FIELD_LABELS,
+  MAX_IMPORT_ROWS,
+  REQUIRED_IMPORT_FIELDS,
+  checkImportRows,
+  importFields,
+} from "@shared/import";
+
+// Radix Select items cannot have an empty value
+const NOT_MAPPED = "none";
+
+type Step = "upload" | "map" | "preview";
+
+interface ImportWizardProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (rows: Record<string, string>[]) => void;
+  isLoading?: boolean;
+  isAdmin?: boolean;
+  users?: User[];
+  currentUserId?: string;
+  // Certifications already recorded; rows repeating one are skipped
+  existing?: Certification[];
+}
+
+// Upload, map columns to fields, then preview every row against the same
+// checks the server applies. Nothing is imported unless every row passes, and
+// rows repeating a certification the owner already has are skipped.
+export function ImportWizard({
+  open,
+  onOpenChange,
+  onSubmit,
+  isLoading = false,
+  isAdmin = false,
+  users = [],
+  currentUserId = "",
+  existing = [],
+}: ImportWizardProps) {
+  const [step, setStep] = useState<Step>("upload");
+  const [fileName, setFileName] = useState("");
+  const [sheet, setSheet] = useState<Spreadsheet | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping>({});
+  const [readError, setReadError] = useState<string | null>(null);
+  const [isReading, setIsReading] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setStep("upload");
+      setFileName("");
+      setSheet(null);
+      setMapping({});
+      setReadError(null);
+    }
+  }, [open]);
+
+  const { data: orgSettings } = useQuery<OrganizationSettings>({
+    queryKey: ["/api/settings/organization"],
+  });
+
+  // Owners can only be chosen by administrators; everyone else imports for themselves
+  const fields = isAdmin ? importFields : importFields.filter((field) => field !== "owner");
+  const missingRequired = REQUIRED_IMPORT_FIELDS.filter((field) => !mapping[field]);
+
+  const rows = useMemo(() => (sheet ? applyMapping(sheet.records, mapping) : []), [sheet, mapping]);
+  const checked = useMemo(
+    () =>
+      checkImportRows(rows, {
+        allowedIssuers: orgSettings?.allowedIssuers ?? [],
+        users: isAdmin ? users : [],
+        currentUserId,
+        existing,
+      }),
+    [rows, orgSettings, isAdmin, users, currentUserId, existing],
+  );
+  const invalidCount = checked.filter((row) => row.errors).length;
+  const duplicateCount = checked.filter((row) => row.duplicate).length;
+  const importCount = checked.length - invalidCount - duplicateCount;
+  const getUserName = (id: string) => users.find((u) => u.id === id)?.fullName ?? "You";
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setReadError(null);
+    setIsReading(true);
+    try {
+      const read = await readSpreadsheet(file);
+      if (read.records.length === 0) {
+        setReadError("The file has no rows below the header row.");
+      } else if (read.records.length > MAX_IMPORT_ROWS) {
+        setReadError(`The file has ${read.records.length} rows; at most ${MAX_IMPORT_ROWS} can be imported at once.`);
+      } else {
+        setFileName(file.name);
+        setSheet(read);
+        setMapping(guessMapping(read.headers));
+        setStep("map");
+      }
+    } catch {
+      setReadError("That file could not be read as CSV or Excel.");
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle data-testid="text-import-title">Import Certifications</DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Upload a CSV or Excel file with one certification per row and a header row."}
+            {step === "map" && `Choose which column of ${fileName} holds each field.`}
+            {step === "preview" && "Check every row before importing. Nothing is imported until all rows are valid."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <div className="space-y-3">
+            <label
+              className="flex cursor-pointer flex-col items-center justify-center gap-2 rounded-lg border-2 border-dashed p-10 text-center hover-elevate"
+              data-testid="dropzone-import"
+            >
+              {isReading ? (
+                <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+              ) : (
+                <Upload className="h-8 w-8 text-muted-foreground" />
+              )}
+              <span className="font-medium">Choose a file</span>
+              <span className="text-sm text-muted-foreground">CSV, XLSX or XLS; the first sheet is used</span>
+              <input
+                type="file"
+                accept={SPREADSHEET_ACCEPT}
+                className="sr-only"
+                onChange={(event) => {
+                  handleFile(event.target.files?.[0]);
+                  event.target.value = "";
+                }}
+                data-testid="input-import-file"
+              />
+            </label>
+            {readError && (
+              <p className="flex items-center gap-2 text-sm text-destructive" data-testid="text-import-read-error">
+                <AlertCircle className="h-4 w-4" />
+                {readError}
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === "map" && sheet && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <FileSpreadsheet className="h-4 w-4" />
+              {fileName} · {sheet.records.length} {sheet.records.length === 1 ? "row" : "rows"}
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {fields.map((field) => (
+                <div key={field} className="space-y-2">
+                  <Label>
+                    {IMPORT_FIELD_LABELS[field]}
+                    {REQUIRED_IMPORT_FIELDS.includes(field) && <span className="text-destructive"> *</span>}
+                  </Label>
+                  <Select
+                    value={mapping[field] ?? NOT_MAPPED}
+                    onValueChange={(column) =>
+                      setMapping({ ...mapping, [field]: column === NOT_MAPPED ? undefined : column })
+                    }
+                  >
+                    <SelectTrigger data-testid={`select-map-${field}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Not in this file</SelectItem>
+                      {sheet.headers.map((header) => (
+                        <SelectItem key={header} value={header}>
+                          {header}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Dates should be YYYY-MM-DD. A blank expiration date imports the certification as not expiring
+              {isAdmin && ", and a blank owner assigns it to you"}.
+            </p>
+          </div>
+        )}
+
+        {step === "preview" && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge variant="default" data-testid="badge-import-valid">
+                {importCount} ready
+              </Badge>
+              {duplicateCount > 0 && (
+                <Badge variant="secondary" data-testid="badge-import-duplicates">
+                  {duplicateCount} {duplicateCount === 1 ? "duplicate" : "duplicates"} to skip
+                </Badge>
+              )}
+              {invalidCount > 0 && (
+                <Badge variant="destructive" data-testid="badge-import-invalid">
+                  {invalidCount} with errors
+                </Badge>
+              )}
+            </div>
+            {invalidCount > 0 && (
+              <p className="text-sm text-muted-foreground">
+                Fix the rows below in your file and upload it again, or go back and change the column mapping.
+              </p>
+            )}
+            <div className="max-h-[45vh] overflow-auto rounded-lg border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-[60px]">Row</TableHead>
+                    <TableHead>Certification</TableHead>
+                    <TableHead>Dates</TableHead>
+                    {isAdmin && <TableHead>Owner</TableHead>}
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {checked.map((result, index) => (
+                    <TableRow key={result.row} data-testid={`row-import-${result.row}`}>
+                      <TableCell className="text-muted-foreground">{result.row}</TableCell>
+                      <TableCell>
+                        <p className="font-medium">{rows[index].name || "—"}</p>
+                        <p className="text-sm text-muted-foreground">{rows[index].issuingOrganization || "—"}</p>
+                      </TableCell>
+                      <TableCell className="text-sm whitespace-nowrap">
+                        {rows[index].issueDate || "—"} → {rows[index].expirationDate || "No expiry"}
+                      </TableCell>
+                      {isAdmin && (
+                        <TableCell className="text-sm">
+                          {result.data ? getUserName(result.data.userId) : rows[index].owner || "—"}
+                        </TableCell>
+                      )}
+                      <TableCell>
+                        {result.errors ? (
+                          <ul className="space-y-0.5 text-sm text-destructive">
+                            {result.errors.map((error) => (
+                              <li key={error}>{error}</li>
+                            ))}
+                          </ul>
+                        ) : result.duplicate ? (
+                          <span className="flex items-start gap-1 text-sm text-muted-foreground">
+                            <CopyX className="mt-0.5 h-4 w-4 shrink-0" />
+                            {result.duplicate}; skipped
+                          </span>
+                        ) : (
+                          <span className="flex items-center gap-1 text-sm text-green-600 dark:text-green-500">
+                            <CheckCircle2 className="h-4 w-4" />
+                            Ready
+                          </span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === "upload" && (
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-import">
+              Cancel
+            </Button>
+          )}
+          {step === "map" && (
+            <>
+              <Button type="button" variant="outline" onClick={() => setStep("upload")} data-testid="button-import-back">
+                Choose Another File
+              </Button>
+              <Button
+                type="button"
+                onClick={() => setStep("preview")}
+                disabled={missingRequired.length > 0}
+                data-testid="button-import-preview"
+              >
+                Preview
+              </Button>
+            </>
+          )}
+          {step === "preview" && (
+            <>
+              <Button type="button" variant="outline" onClick={() => setStep("map")} data-testid="button-import-back">
+                Back to Mapping
+              </Button>
+              <Button
+                type="button"
+                onClick={() => onSubmit(rows)}
+                disabled={invalidCount > 0 || importCount === 0 || isLoading}
+                data-testid="button-submit-import"
+              >
+                {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Import {importCount} {importCount === 1 ? "Certification" : "Certifications"}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import {
+  Bell,
+  CheckCheck,
+  Clock,
+  RefreshCw,
+  UserPlus,
+  XCircle,
+  type LucideIcon,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useAuth } from "@/lib/auth-context";
+import { queryClient } from "@/lib/queryClient";
+import { markAllNotificationsRead, markNotificationRead } from "@/lib/api";
+import { certificationLink } from "@/hooks/use-linked-certification";
+import type { Notification, NotificationType } from "@shared/schema";
+
+const NOTIFICATION_ICONS: Record<NotificationType, { icon: LucideIcon; className: string }> = {
+  expiring: { icon: Clock, className: "text-yellow-600 dark:text-yellow-500" },
+  expired: { icon: XCircle, className: "text-destructive" },
+  renewed: { icon: RefreshCw, className: "text-green-600 dark:text-green-500" },
+  assigned: { icon: UserPlus, className: "text-primary" },
+};
+
+export function NotificationCenter() {
+  const { user } = useAuth();
+  const [, setLocation] = useLocation();
+  const [open, setOpen] = useState(false);
+
+  const { data: notifications = [] } = useQuery<Notification[]>({
+    queryKey: ["/api/notifications"],
+    refetchInterval: 60_000,
+  });
+  const unread = notifications.filter((n) => !n.readAt).length;
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+  const readMutation = useMutation({ mutationFn: markNotificationRead, onSuccess: refresh });
+  const readAllMutation = useMutation({ mutationFn: markAllNotificationsRead, onSuccess: refresh });
+
+  const openNotification = (notification: Notification) => {
+    if (!notification.readAt) readMutation.mutate(notification.id);
+    setOpen(false);
+    if (user) setLocation(certificationLink(user.role, notification.certificationId));
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" data-testid="button-notifications">
+          <Bell className="h-4 w-4" />
+          {unread > 0 && (
+            <span
+              className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-medium text-destructive-foreground"
+              data-testid="badge-unread-count"
+            >
+              {unread > 9 ? "9+" : unread}
+            </span>
+          )}
+          <span className="sr-only">Notifications</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-3">
+          <p className="font-medium">Notifications</p>
+          {unread > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => readAllMutation.mutate()}
+              disabled={readAllMutation.isPending}
+              data-testid="button-mark-all-read"
+            >
+              <CheckCheck className="mr-1 h-3.5 w-3.5" />
+              Mark all read
+            </Button>
+          )}
+        </div>
+        {notifications.length === 0 ? (
+          <p className="px-4 py-8 text-center text-sm text-muted-foreground" data-testid="text-no-notifications">
+            You're all caught up.
+          </p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            <ul className="divide-y">
+              {notifications.map((notification) => {
+                const { icon: Icon, className } = NOTIFICATION_ICONS[notification.type];
+                return (
+                  <li key={notification.id}>
+                    <button
+                      type="button"
+                      onClick={() => openNotification(notification)}
+                      className={`flex w-full gap-3 px-4 py-3 text-left hover-elevate ${notification.readAt ? "" : "bg-primary/5"}`}
+                      data-testid={`notification-${notification.id}`}
+                    >
+                      <Icon className={`mt-0.5 h-4 w-4 shrink-0 ${className}`} />
+                      <div className="min-w-0 flex-1">
+                        <p className={`text-sm ${notification.readAt ? "text-muted-foreground" : "font-medium"}`}>
+                          {notification.message}
+                        </p>
+                        <p className="mt-0.5 text-xs text-muted-foreground">
+                          {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                        </p>
+                      </div>
+                      {!notification.readAt && <span className="mt-1.5 h-2 w-2 shrink-0 rounded-full bg-primary" />}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
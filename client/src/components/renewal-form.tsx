@@ -0,0 +1,281 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { useQuery } from "@tanstack/react-query";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { addDays, differenceInCalendarDays, format, parseISO, startOfToday } from "date-fns";
+import { CalendarIcon, Infinity as InfinityIcon, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { cn } from "@/lib/utils";
+import {
+  renewalBases,
+  type Certification,
+  type CertificationType,
+  type RenewCertification,
+} from "@shared/schema";
+import { RENEWAL_BASIS_LABELS, describeValidity, proposeRenewalExpiration } from "@shared/renewals";
+import { formatExpiration, hasExpiration } from "@shared/status";
+
+const renewalFormSchema = z
+  .object({
+    issueDate: z.date({ required_error: "Issue date is required" }),
+    expirationDate: z.date({ required_error: "Expiration date is required" }),
+    credentialId: z.string().trim().optional(),
+    proofUrl: z.string().url("Must be a valid URL").or(z.literal("")).optional(),
+    basis: z.enum(renewalBases),
+  })
+  .refine((data) => data.expirationDate > data.issueDate, {
+    message: "Expiration date must be after the issue date",
+    path: ["expirationDate"],
+  });
+
+type RenewalFormValues = z.infer<typeof renewalFormSchema>;
+
+interface RenewalFormProps {
+  certification: Certification | null;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (data: RenewCertification) => void;
+  isLoading?: boolean;
+}
+
+type RenewableCertification = Certification & { expirationDate: string };
+
+// With a type the new expiration follows its validity period; without one the
+// new cycle lasts as long as the current one. Either way it starts today.
+function proposedExpiration(
+  certification: RenewableCertification,
+  type: CertificationType | undefined,
+  basis: RenewalFormValues["basis"],
+  completedOn: Date,
+): Date {
+  const proposal = type
+    ? proposeRenewalExpiration(type, basis, certification.expirationDate, format(completedOn, "yyyy-MM-dd"))
+    : undefined;
+  if (proposal) return parseISO(proposal);
+  const length = differenceInCalendarDays(
+    parseISO(certification.expirationDate),
+    parseISO(certification.issueDate),
+  );
+  return addDays(completedOn, Math.max(length, 1));
+}
+
+function defaultValues(certification: RenewableCertification, type: CertificationType | undefined): RenewalFormValues {
+  const today = startOfToday();
+  const basis = type?.renewalBasis ?? "expiration";
+  return {
+    issueDate: today,
+    expirationDate: proposedExpiration(certification, type, basis, today),
+    credentialId: certification.credentialId ?? "",
+    proofUrl: "",
+    basis,
+  };
+}
+
+export function RenewalForm({ certification, onOpenChange, onSubmit, isLoading = false }: RenewalFormProps) {
+  const form = useForm<RenewalFormValues>({
+    resolver: zodResolver(renewalFormSchema),
+  });
+
+  const { data: types = [] } = useQuery<CertificationType[]>({
+    queryKey: ["/api/certification-types"],
+  });
+  const type = types.find((t) => t.id === certification?.typeId);
+  const renewable = certification && hasExpiration(certification) ? certification : null;
+  const isLifetime = !renewable || type?.validityMonths === null;
+
+  useEffect(() => {
+    if (renewable) form.reset(defaultValues(renewable, type));
+  }, [renewable, type, form]);
+
+  // Re-propose the expiration whenever the completion date or basis changes
+  const repropose = (completedOn: Date | undefined, basis: RenewalFormValues["basis"]) => {
+    if (!renewable || !type || !completedOn) return;
+    form.setValue("expirationDate", proposedExpiration(renewable, type, basis, completedOn), {
+      shouldValidate: true,
+    });
+  };
+
+  const handleSubmit = (data: RenewalFormValues) => {
+    onSubmit({
+      issueDate: format(data.issueDate, "yyyy-MM-dd"),
+      expirationDate: format(data.expirationDate, "yyyy-MM-dd"),
+      credentialId: data.credentialId || null,
+      proofUrl: data.proofUrl || null,
+    });
+  };
+
+  const dateField = (name: "issueDate" | "expirationDate", label: string, onPick?: (date: Date | undefined) => void) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem className="flex flex-col">
+          <FormLabel>{label}</FormLabel>
+          <Popover>
+            <PopoverTrigger asChild>
+              <FormControl>
+                <Button
+                  variant="outline"
+                  className={cn("pl-3 text-left font-normal", !field.value && "text-muted-foreground")}
+                  data-testid={`button-renewal-${name}`}
+                >
+                  {field.value ? format(field.value, "PPP") : <span>Pick a date</span>}
+                  <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                </Button>
+              </FormControl>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <Calendar
+                mode="single"
+                selected={field.value}
+                onSelect={(date) => {
+                  field.onChange(date);
+                  onPick?.(date);
+                }}
+                defaultMonth={field.value}
+                initialFocus
+              />
+            </PopoverContent>
+          </Popover>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Dialog open={!!certification} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle data-testid="text-renewal-title">Renew {certification?.name}</DialogTitle>
+          <DialogDescription>
+            {certification &&
+              `The current cycle (${format(parseISO(certification.issueDate), "MMM d, yyyy")} – ${formatExpiration(
+                certification.expirationDate,
+              )}) is kept in the renewal history.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLifetime ? (
+          <div className="flex items-start gap-3 rounded-lg border p-4" data-testid="text-lifetime-type">
+            <InfinityIcon className="mt-0.5 h-5 w-5 text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">
+              {certification?.name} does not expire, so there is nothing to renew.
+            </p>
+          </div>
+        ) : (
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-6">
+            {type && (
+              <FormField
+                control={form.control}
+                name="basis"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>New Expiration Counts</FormLabel>
+                    <FormControl>
+                      <RadioGroup
+                        value={field.value}
+                        onValueChange={(basis) => {
+                          field.onChange(basis);
+                          repropose(form.getValues("issueDate"), basis as RenewalFormValues["basis"]);
+                        }}
+                        className="grid grid-cols-1 sm:grid-cols-2 gap-2"
+                      >
+                        {renewalBases.map((basis) => (
+                          <FormItem key={basis} className="flex items-center gap-2 space-y-0 rounded-md border p-3">
+                            <FormControl>
+                              <RadioGroupItem value={basis} data-testid={`radio-basis-${basis}`} />
+                            </FormControl>
+                            <FormLabel className="font-normal">{RENEWAL_BASIS_LABELS[basis]}</FormLabel>
+                          </FormItem>
+                        ))}
+                      </RadioGroup>
+                    </FormControl>
+                    <FormDescription>
+                      {type.name} is valid for {describeValidity(type.validityMonths)}.
+                    </FormDescription>
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {dateField("issueDate", type ? "Completed On" : "New Issue Date", (date) =>
+                repropose(date, form.getValues("basis")),
+              )}
+              {dateField("expirationDate", "New Expiration Date")}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="credentialId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Credential ID (Optional)</FormLabel>
+                  <FormControl>
+                    <Input {...field} value={field.value ?? ""} data-testid="input-renewal-credential-id" />
+                  </FormControl>
+                  <FormDescription>Change this if the renewal came with a new credential ID</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="proofUrl"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Proof of Renewal (Optional)</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="https://..."
+                      {...field}
+                      value={field.value ?? ""}
+                      data-testid="input-renewal-proof-url"
+                    />
+                  </FormControl>
+                  <FormDescription>Link to the new certificate or verification page</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-renewal">
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isLoading} data-testid="button-submit-renewal">
+                {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Record Renewal
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
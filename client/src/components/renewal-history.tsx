@@ -0,0 +1,121 @@
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO } from "date-fns";
+import { ExternalLink, History, RefreshCw } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AttachmentThumbnails } from "@/components/attachment-viewer";
+import { isLocalMode } from "@/lib/queryClient";
+import type { Certification, CertificationAttachment, RenewalWithRenewer } from "@shared/schema";
+import { formatExpiration } from "@shared/status";
+
+const formatDate = (date: string) => format(parseISO(date), "MMM d, yyyy");
+
+interface RenewalHistoryProps {
+  certification: Certification | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Timeline of a certification's cycles, newest first: the current cycle, then
+// each renewal with the cycle it replaced.
+export function RenewalHistory({ certification, onOpenChange }: RenewalHistoryProps) {
+  const { data: renewals = [], isLoading } = useQuery<RenewalWithRenewer[]>({
+    queryKey: ["/api/certifications", certification?.id, "renewals"],
+    enabled: !!certification,
+  });
+  // Each cycle's documents move with it into the history when it is renewed
+  const { data: attachments = [] } = useQuery<CertificationAttachment[]>({
+    queryKey: ["/api/certifications", certification?.id, "attachments"],
+    enabled: !!certification && !isLocalMode,
+  });
+  const documentsOf = (renewalId: string | null) => attachments.filter((a) => a.renewalId === renewalId);
+
+  return (
+    <Dialog open={!!certification} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle data-testid="text-history-title">Renewal History</DialogTitle>
+          <DialogDescription>{certification?.name}</DialogDescription>
+        </DialogHeader>
+
+        {certification && (
+          <ol className="relative ml-3 border-l pl-6 space-y-6">
+            <li>
+              <span className="absolute -left-2 flex h-4 w-4 items-center justify-center rounded-full bg-primary" />
+              <div className="flex items-center gap-2">
+                <p className="font-medium">
+                  {formatDate(certification.issueDate)} – {formatExpiration(certification.expirationDate)}
+                </p>
+                <Badge variant="secondary">Current</Badge>
+              </div>
+              {certification.credentialId && (
+                <p className="mt-1 text-sm text-muted-foreground">Credential {certification.credentialId}</p>
+              )}
+              {documentsOf(null).length > 0 && (
+                <div className="mt-2">
+                  <AttachmentThumbnails attachments={documentsOf(null)} />
+                </div>
+              )}
+            </li>
+
+            {isLoading ? (
+              <Skeleton className="h-16" />
+            ) : (
+              renewals.map((renewal) => (
+                <li key={renewal.id} data-testid={`renewal-${renewal.id}`}>
+                  <span className="absolute -left-2 flex h-4 w-4 items-center justify-center rounded-full border bg-background">
+                    <RefreshCw className="h-2.5 w-2.5 text-muted-foreground" />
+                  </span>
+                  <p className="text-sm text-muted-foreground">
+                    Renewed {format(new Date(renewal.renewedAt), "MMM d, yyyy")}
+                    {renewal.renewedByName && ` by ${renewal.renewedByName}`}
+                  </p>
+                  <p className="font-medium">
+                    {formatDate(renewal.previousIssueDate)} – {formatDate(renewal.previousExpirationDate)}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    Replaced by {formatDate(renewal.issueDate)} – {formatDate(renewal.expirationDate)}
+                  </p>
+                  {renewal.previousCredentialId && renewal.previousCredentialId !== renewal.credentialId && (
+                    <p className="text-sm text-muted-foreground">Credential {renewal.previousCredentialId}</p>
+                  )}
+                  {renewal.proofUrl && (
+                    <a
+                      href={renewal.proofUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="mt-1 inline-flex items-center gap-1 text-sm text-primary hover:underline"
+                    >
+                      <ExternalLink className="h-3.5 w-3.5" />
+                      Proof of renewal
+                    </a>
+                  )}
+                  {documentsOf(renewal.id).length > 0 && (
+                    <div className="mt-2">
+                      <AttachmentThumbnails attachments={documentsOf(renewal.id)} />
+                    </div>
+                  )}
+                </li>
+              ))
+            )}
+
+            {!isLoading && renewals.length === 0 && (
+              <li className="text-sm text-muted-foreground">
+                <span className="absolute -left-2 flex h-4 w-4 items-center justify-center rounded-full border bg-background">
+                  <History className="h-2.5 w-2.5" />
+                </span>
+                No renewals recorded yet.
+              </li>
+            )}
+          </ol>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
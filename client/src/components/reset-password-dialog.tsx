@@ -0,0 +1,134 @@
+import { useEffect, useMemo } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery } from "@tanstack/react-query";
+import { z } from "zod";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  DEFAULT_PASSWORD_POLICY,
+  describePasswordPolicy,
+  passwordSchema,
+  type PasswordPolicy,
+} from "@shared/password-policy";
+import type { User } from "@shared/schema";
+
+const buildResetSchema = (policy: PasswordPolicy) =>
+  z
+    .object({
+      password: passwordSchema(policy),
+      confirmPassword: z.string(),
+    })
+    .refine((data) => data.password === data.confirmPassword, {
+      message: "Passwords don't match",
+      path: ["confirmPassword"],
+    });
+
+type ResetPasswordValues = z.infer<ReturnType<typeof buildResetSchema>>;
+
+interface ResetPasswordDialogProps {
+  user: User | null;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (password: string) => void;
+  isLoading?: boolean;
+}
+
+export function ResetPasswordDialog({
+  user,
+  onOpenChange,
+  onSubmit,
+  isLoading = false,
+}: ResetPasswordDialogProps) {
+  const { data: passwordPolicy = DEFAULT_PASSWORD_POLICY } = useQuery<PasswordPolicy>({
+    queryKey: ["/api/auth/password-policy"],
+  });
+  const schema = useMemo(() => buildResetSchema(passwordPolicy), [passwordPolicy]);
+
+  const form = useForm<ResetPasswordValues>({
+    resolver: zodResolver(schema),
+    defaultValues: { password: "", confirmPassword: "" },
+  });
+
+  useEffect(() => {
+    if (user) form.reset({ password: "", confirmPassword: "" });
+  }, [user, form]);
+
+  return (
+    <Dialog open={!!user} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Reset Password</DialogTitle>
+          <DialogDescription>
+            Set a new password for {user?.fullName}. They will need it the next time they sign in.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => onSubmit(data.password))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="password"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>New Password</FormLabel>
+                  <FormControl>
+                    <Input type="password" {...field} data-testid="input-reset-password" />
+                  </FormControl>
+                  <FormDescription>{describePasswordPolicy(passwordPolicy)}</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="confirmPassword"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Confirm Password</FormLabel>
+                  <FormControl>
+                    <Input type="password" {...field} data-testid="input-reset-confirm-password" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                data-testid="button-cancel-reset"
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isLoading} data-testid="button-submit-reset">
+                {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Reset Password
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,219 @@
+import { useEffect, useMemo } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery } from "@tanstack/react-query";
+import { z } from "zod";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { insertUserSchema, userRoles, type User } from "@shared/schema";
+import {
+  DEFAULT_PASSWORD_POLICY,
+  describePasswordPolicy,
+  passwordSchema,
+  type PasswordPolicy,
+} from "@shared/password-policy";
+
+// A password is only asked for when creating an account; existing accounts
+// change theirs through the reset password dialog.
+const buildUserFormSchema = (policy: PasswordPolicy, editing: boolean) =>
+  insertUserSchema
+    .pick({ username: true, fullName: true, email: true })
+    .extend({
+      role: z.enum(userRoles),
+      password: editing ? z.string().optional() : passwordSchema(policy),
+    });
+
+export type UserFormValues = z.infer<ReturnType<typeof buildUserFormSchema>>;
+
+interface UserFormProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSubmit: (data: UserFormValues) => void;
+  user?: User | null;
+  isLoading?: boolean;
+}
+
+export function UserForm({
+  open,
+  onOpenChange,
+  onSubmit,
+  user,
+  isLoading = false,
+}: UserFormProps) {
+  const { data: passwordPolicy = DEFAULT_PASSWORD_POLICY } = useQuery<PasswordPolicy>({
+    queryKey: ["/api/auth/password-policy"],
+  });
+  const schema = useMemo(() => buildUserFormSchema(passwordPolicy, !!user), [passwordPolicy, user]);
+
+  const form = useForm<UserFormValues>({
+    resolver: zodResolver(schema),
+    defaultValues: {
+      username: "",
+      fullName: "",
+      email: "",
+      role: "user",
+      password: "",
+    },
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset({
+        username: user?.username || "",
+        fullName: user?.fullName || "",
+        email: user?.email || "",
+        role: user?.role || "user",
+        password: "",
+      });
+    }
+  }, [open, user, form]);
+
+  const handleSubmit = (data: UserFormValues) => {
+    const { password, ...fields } = data;
+    onSubmit(user ? fields : data);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle data-testid="text-user-form-title">
+            {user ? "Edit User" : "Add User"}
+          </DialogTitle>
+          <DialogDescription>
+            {user
+              ? "Update this account's details and role."
+              : "Create an account that can sign in to the tracker."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="fullName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Full Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Jane Smith" {...field} data-testid="input-user-fullname" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="email"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Email</FormLabel>
+                  <FormControl>
+                    <Input type="email" placeholder="jane@example.com" {...field} data-testid="input-user-email" />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="username"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Username</FormLabel>
+                    <FormControl>
+                      <Input placeholder="jsmith" {...field} data-testid="input-user-username" />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="role"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Role</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger data-testid="select-user-role">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="user">User</SelectItem>
+                        <SelectItem value="admin">Administrator</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {!user && (
+              <FormField
+                control={form.control}
+                name="password"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Password</FormLabel>
+                    <FormControl>
+                      <Input type="password" {...field} value={field.value ?? ""} data-testid="input-user-password" />
+                    </FormControl>
+                    <FormDescription>{describePasswordPolicy(passwordPolicy)}</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                data-testid="button-cancel-user"
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isLoading} data-testid="button-submit-user">
+                {isLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {user ? "Save Changes" : "Add User"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,109 @@
+import { ExternalLink, Link2, ShieldCheck, UserCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { EmptyState } from "@/components/empty-state";
+import type { Certification, CertificationType, User, VerificationStatus } from "@shared/schema";
+import { isVerified, verificationLink } from "@shared/verification";
+
+interface VerificationQueueProps {
+  certifications: Certification[];
+  types: CertificationType[];
+  users: User[];
+  onVerify: (certification: Certification, status: VerificationStatus) => void;
+  isLoading?: boolean;
+}
+
+// Unverified credentials, each with the page to check it against. "Verified
+// via link" needs that page; "Verified by admin" covers evidence seen elsewhere.
+export function VerificationQueue({ certifications, types, users, onVerify, isLoading = false }: VerificationQueueProps) {
+  const queue = certifications.filter((cert) => !isVerified(cert));
+  const getUserName = (id: string) => users.find((u) => u.id === id)?.fullName ?? "Unknown";
+
+  if (queue.length === 0) {
+    return (
+      <EmptyState
+        icon={ShieldCheck}
+        title="Nothing to verify"
+        description="Every certification has been verified by an administrator"
+      />
+    );
+  }
+
+  return (
+    <div className="rounded-lg border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Certification</TableHead>
+            <TableHead>User</TableHead>
+            <TableHead>Credential ID</TableHead>
+            <TableHead>Verification Page</TableHead>
+            <TableHead className="text-right">Mark as</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {queue.map((cert) => {
+            const link = verificationLink(cert, types);
+            return (
+              <TableRow key={cert.id} data-testid={`row-verify-${cert.id}`}>
+                <TableCell>
+                  <p className="font-medium">{cert.name}</p>
+                  <p className="text-sm text-muted-foreground">{cert.issuingOrganization}</p>
+                </TableCell>
+                <TableCell>{getUserName(cert.userId)}</TableCell>
+                <TableCell className="font-mono text-sm">{cert.credentialId || "—"}</TableCell>
+                <TableCell>
+                  {link ? (
+                    <a
+                      href={link}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="inline-flex items-center gap-1.5 text-sm text-primary hover:underline"
+                      data-testid="link-verification-page"
+                    >
+                      <ExternalLink className="h-3.5 w-3.5" />
+                      Open
+                    </a>
+                  ) : (
+                    <span className="text-sm text-muted-foreground">No link</span>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => onVerify(cert, "link")}
+                      disabled={!link || isLoading}
+                      data-testid="button-verified-link"
+                    >
+                      <Link2 className="mr-2 h-4 w-4" />
+                      Verified via Link
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => onVerify(cert, "admin")}
+                      disabled={isLoading}
+                      data-testid="button-verified-admin"
+                    >
+                      <UserCheck className="mr-2 h-4 w-4" />
+                      Verified by Admin
+                    </Button>
+                  </div>
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { isLocalMode, queryClient } from "@/lib/queryClient";
+import type { CertificationAttachment } from "@shared/schema";
+
+const CURRENT_ATTACHMENTS_KEY = ["/api/certifications", "attachments"];
+
+// A certification's current-cycle documents. Every card shares one request
+// for the whole list rather than asking for its own.
+export function useCurrentAttachments(certificationId: string): CertificationAttachment[] {
+  const { data } = useQuery<CertificationAttachment[]>({
+    queryKey: CURRENT_ATTACHMENTS_KEY,
+    enabled: !isLocalMode,
+  });
+  return useMemo(
+    () => (data ?? []).filter((attachment) => attachment.certificationId === certificationId),
+    [data, certificationId],
+  );
+}
+
+export function invalidateAttachments(certificationId: string) {
+  queryClient.invalidateQueries({ queryKey: CURRENT_ATTACHMENTS_KEY });
+  queryClient.invalidateQueries({ queryKey: ["/api/certifications", certificationId, "attachments"] });
+}
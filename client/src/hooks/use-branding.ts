@@ -0,0 +1,18 @@
+import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { Branding } from "@shared/schema";
+import { DEFAULT_ORGANIZATION_SETTINGS } from "@shared/settings";
+
+// The organisation's display name, which also becomes the document title.
+export function useBranding(): string {
+  const { data } = useQuery<Branding>({
+    queryKey: ["/api/settings/branding"],
+  });
+  const name = data?.organizationName ?? DEFAULT_ORGANIZATION_SETTINGS.organizationName;
+
+  useEffect(() => {
+    document.title = `${name} - Professional Certification Tracking`;
+  }, [name]);
+
+  return name;
+}
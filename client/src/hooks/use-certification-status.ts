@@ -0,0 +1,32 @@
+import { useCallback } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { OrganizationSettings } from "@shared/schema";
+import {
+  DEFAULT_STATUS_THRESHOLDS,
+  countByStatus,
+  getCertificationStatus,
+  type StatusThresholds,
+} from "@shared/status";
+
+// The organisation's expiry thresholds, or the defaults while they load.
+export function useStatusThresholds(): StatusThresholds {
+  const { data } = useQuery<OrganizationSettings>({
+    queryKey: ["/api/settings/organization"],
+  });
+  return data ?? DEFAULT_STATUS_THRESHOLDS;
+}
+
+export function useCertificationStatus() {
+  const thresholds = useStatusThresholds();
+
+  const statusOf = useCallback(
+    (cert: { expirationDate: string | null }) => getCertificationStatus(cert.expirationDate, thresholds),
+    [thresholds],
+  );
+  const countStatuses = useCallback(
+    (certs: { expirationDate: string | null }[]) => countByStatus(certs, thresholds),
+    [thresholds],
+  );
+
+  return { thresholds, statusOf, countStatuses };
+}
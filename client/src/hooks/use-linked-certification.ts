@@ -0,0 +1,27 @@
+import { useEffect } from "react";
+import { useLocation, useSearch } from "wouter";
+import type { Certification, UserRole } from "@shared/schema";
+
+// Links such as /dashboard/certifications?certification=<id> (used by the
+// notification centre) open that certification once the list has loaded,
+// then drop the parameter so closing the form doesn't reopen it.
+export function useLinkedCertification(
+  certifications: Certification[],
+  open: (certification: Certification) => void,
+) {
+  const search = useSearch();
+  const [location, setLocation] = useLocation();
+
+  useEffect(() => {
+    const id = new URLSearchParams(search).get("certification");
+    const certification = id && certifications.find((c) => c.id === id);
+    if (!certification) return;
+    open(certification);
+    setLocation(location, { replace: true });
+  }, [search, certifications, open, location, setLocation]);
+}
+
+export function certificationLink(role: UserRole, certificationId: string) {
+  const base = role === "admin" ? "/admin" : "/dashboard";
+  return `${base}/certifications?certification=${encodeURIComponent(certificationId)}`;
+}
@@ -0,0 +1,468 @@
+import type {
+  Certification,
+  CertificationAttachment,
+  CertificationType,
+  InsertCertification,
+  InsertCertificationType,
+  Notification,
+  OrganizationSettings,
+  Reminder,
+  RenewCertification,
+  UpdateOrganizationSettings,
+  UpdateUserSettings,
+  User,
+  UserRole,
+  UserSettings,
+} from "@shared/schema";
+import { EXPIRATION_BEFORE_ISSUE, MAX_BULK_REMINDERS, expiresAfterIssue } from "@shared/schema";
+import { isAllowedIssuer } from "@shared/settings";
+import { RENEWAL_MUST_EXTEND, RENEWAL_NOT_NEEDED } from "@shared/renewals";
+import { hasExpiration } from "@shared/status";
+import { checkImportRows, importCertificationsSchema } from "@shared/import";
+import { credentialIdFormatError, type MergeIntoCatalog } from "@shared/catalog";
+import {
+  duplicateMessage,
+  findDuplicate,
+  mergeProblem,
+  planMerge,
+  type MergeDuplicates,
+} from "@shared/duplicates";
+import {
+  UNVERIFIED,
+  invalidatesVerification,
+  verificationFields,
+  withRenewalVerificationUrl,
+  withVerificationUrl,
+  type SetVerification,
+} from "@shared/verification";
+import {
+  backupDataSchema,
+  createBackup,
+  planRestore,
+  type Backup,
+  type BackupData,
+  type RestoreMode,
+  type RestoreSummary,
+} from "@shared/backup";
+import { apiRequest, isLocalMode, throwIfResNotOk } from "@/lib/queryClient";
+import * as localData from "@/lib/localData";
+import * as localAuth from "@/lib/localAuth";
+import * as localSettings from "@/lib/localSettings";
+
+// Offline mode has no server to enforce ownership, so apply the same rule the
+// API does: admins may change anything, users only their own certifications.
+async function assertLocalAccess(userId: string | undefined) {
+  const current = localAuth.getCurrentLocalUser();
+  if (!current) throw new Error("401: Not authenticated");
+  if (current.role !== "admin" && userId !== current.id) {
+    throw new Error("403: You do not have access to this certification");
+  }
+}
+
+function assertLocalAdmin() {
+  const current = localAuth.getCurrentLocalUser();
+  if (!current) throw new Error("401: Not authenticated");
+  if (current.role !== "admin") throw new Error("403: Administrator access required");
+}
+
+async function assertLocalCertificationAccess(id: string) {
+  const cert = (await localData.getAllCertifications()).find((c) => c.id === id);
+  if (!cert) throw new Error("404: Certification not found");
+  await assertLocalAccess(cert.userId);
+  return cert;
+}
+
+async function assertLocalAllowedIssuer(issuer: string | undefined) {
+  if (issuer === undefined) return;
+  const { allowedIssuers } = await localSettings.getOrganizationSettingsLocal();
+  if (!isAllowedIssuer(allowedIssuers, issuer)) {
+    throw new Error("400: Issuing organization is not on the approved list");
+  }
+}
+
+async function assertLocalCredentialIdFormat(typeId: string | null | undefined, credentialId: string | null | undefined) {
+  if (!typeId) return;
+  const type = (await localData.getCertificationTypes()).find((t) => t.id === typeId);
+  const formatError = credentialIdFormatError(type, credentialId);
+  if (formatError) throw new Error(`400: ${formatError}`);
+}
+
+// Mutations used by the pages. Reads go through the query keys and getQueryFn;
+// writes come through here so the same call works against the server or,
+// in offline mode, against localStorage.
+
+// allowDuplicate is set once the user has been warned about a likely duplicate
+export async function createCertification(
+  data: Partial<Certification> & { allowDuplicate?: boolean },
+): Promise<Certification> {
+  if (isLocalMode) {
+    await assertLocalAccess(data.userId ?? undefined);
+    if (data.issueDate && !expiresAfterIssue({ ...data, issueDate: data.issueDate })) {
+      throw new Error(`400: ${EXPIRATION_BEFORE_ISSUE}`);
+    }
+    await assertLocalAllowedIssuer(data.issuingOrganization);
+    await assertLocalCredentialIdFormat(data.typeId, data.credentialId);
+    const userId = data.userId || localAuth.getCurrentLocalUser()!.id;
+    const duplicate = findDuplicate(
+      { ...(data as InsertCertification), userId },
+      await localData.getCertificationsByUser(userId),
+    );
+    if (duplicate && !data.allowDuplicate) throw new Error(`409: ${duplicateMessage(duplicate)}`);
+    return localData.createCertification(withVerificationUrl({ ...data, userId }, await localData.getCertificationTypes()));
+  }
+  const res = await apiRequest("POST", "/api/certifications", data);
+  return res.json();
+}
+
+export interface ImportResult {
+  imported: number;
+  // Rows repeating a certification the owner already had
+  skipped: number;
+}
+
+export async function importCertifications(rows: Record<string, string>[]): Promise<ImportResult> {
+  if (isLocalMode) {
+    const current = localAuth.getCurrentLocalUser();
+    if (!current) throw new Error("401: Not authenticated");
+    const parsed = importCertificationsSchema.safeParse({ rows });
+    if (!parsed.success) throw new Error(`400: ${parsed.error.issues[0].message}`);
+    const { allowedIssuers } = await localSettings.getOrganizationSettingsLocal();
+    const checked = checkImportRows(rows, {
+      allowedIssuers,
+      users: current.role === "admin" ? localAuth.getAllUsers() : [current],
+      currentUserId: current.id,
+      existing:
+        current.role === "admin"
+          ? await localData.getAllCertifications()
+          : await localData.getCertificationsByUser(current.id),
+    });
+    const invalid = checked.find((row) => row.errors);
+    if (invalid?.errors) throw new Error(`400: Row ${invalid.row}: ${invalid.errors.join("; ")}`);
+    const fresh = checked.filter((row) => !row.duplicate);
+    const types = await localData.getCertificationTypes();
+    const created = await localData.createCertifications(fresh.map((row) => withVerificationUrl(row.data!, types)));
+    return { imported: created.length, skipped: checked.length - fresh.length };
+  }
+  const res = await apiRequest("POST", "/api/certifications/import", { rows });
+  return res.json();
+}
+
+export async function updateCertification(id: string, data: Partial<Certification>): Promise<Certification> {
+  if (isLocalMode) {
+    const cert = await assertLocalCertificationAccess(id);
+    if (data.userId) await assertLocalAccess(data.userId);
+    if (data.issuingOrganization !== cert.issuingOrganization) {
+      await assertLocalAllowedIssuer(data.issuingOrganization);
+    }
+    const issueDate = data.issueDate ?? cert.issueDate;
+    const expirationDate = data.expirationDate === undefined ? cert.expirationDate : data.expirationDate;
+    if (!expiresAfterIssue({ issueDate, expirationDate })) throw new Error(`400: ${EXPIRATION_BEFORE_ISSUE}`);
+    const typeId = data.typeId === undefined ? cert.typeId : data.typeId;
+    const credentialId = data.credentialId === undefined ? cert.credentialId : data.credentialId;
+    if (typeId !== cert.typeId || credentialId !== cert.credentialId) {
+      await assertLocalCredentialIdFormat(typeId, credentialId);
+    }
+    // As on the server, verification only changes through setVerification
+    const { verificationStatus, verifiedById, verifiedAt, ...changes } = data;
+    return localData.updateCertification(
+      id,
+      invalidatesVerification(cert, changes) ? { ...changes, ...UNVERIFIED } : changes,
+    );
+  }
+  const res = await apiRequest("PATCH", `/api/certifications/${id}`, data);
+  return res.json();
+}
+
+// Folds duplicates into the primary certification, keeping their history
+export async function mergeCertifications(data: MergeDuplicates): Promise<Certification> {
+  if (isLocalMode) {
+    assertLocalAdmin();
+    const certs = await localData.getAllCertifications();
+    const primary = certs.find((c) => c.id === data.primaryId);
+    const duplicates = certs.filter((c) => data.duplicateIds.includes(c.id) && c.id !== data.primaryId);
+    if (!primary || duplicates.length === 0) throw new Error("404: Certification not found");
+    if (duplicates.some((c) => c.userId !== primary.userId)) {
+      throw new Error("400: Only certifications belonging to the same user can be merged");
+    }
+    // Offline mode keeps no documents, so only the dates can get in the way
+    const problem = mergeProblem(primary, duplicates, []);
+    if (problem) throw new Error(`400: ${problem}`);
+    return localData.mergeCertifications(
+      primary.id,
+      duplicates.map((c) => c.id),
+      planMerge(primary, duplicates),
+      localAuth.getCurrentLocalUser()!.id,
+    );
+  }
+  const res = await apiRequest("POST", "/api/certifications/merge", data);
+  return res.json();
+}
+
+export async function deleteCertification(id: string): Promise<void> {
+  if (isLocalMode) {
+    await assertLocalCertificationAccess(id);
+    return localData.deleteCertification(id);
+  }
+  await apiRequest("DELETE", `/api/certifications/${id}`);
+}
+
+export async function renewCertification(id: string, data: RenewCertification): Promise<Certification> {
+  if (isLocalMode) {
+    const cert = await assertLocalCertificationAccess(id);
+    if (!hasExpiration(cert)) throw new Error(`409: ${RENEWAL_NOT_NEEDED}`);
+    if (data.expirationDate <= cert.expirationDate) throw new Error(`400: ${RENEWAL_MUST_EXTEND}`);
+    const renewal = withRenewalVerificationUrl(cert, data, await localData.getCertificationTypes());
+    return localData.renewCertification(id, renewal, localAuth.getCurrentLocalUser()!.id);
+  }
+  const res = await apiRequest("POST", `/api/certifications/${id}/renewals`, data);
+  return res.json();
+}
+
+export async function setVerification(id: string, data: SetVerification): Promise<Certification> {
+  if (isLocalMode) {
+    assertLocalAdmin();
+    await assertLocalCertificationAccess(id);
+    return localData.updateCertification(id, verificationFields(data.status, localAuth.getCurrentLocalUser()!.id));
+  }
+  const res = await apiRequest("POST", `/api/certifications/${id}/verification`, data);
+  return res.json();
+}
+
+export async function createCertificationType(data: InsertCertificationType): Promise<CertificationType> {
+  if (isLocalMode) {
+    assertLocalAdmin();
+    return localData.createCertificationType(data);
+  }
+  const res = await apiRequest("POST", "/api/certification-types", data);
+  return res.json();
+}
+
+export async function updateCertificationType(
+  id: string,
+  data: Partial<InsertCertificationType>,
+): Promise<CertificationType> {
+  if (isLocalMode) {
+    assertLocalAdmin();
+    return localData.updateCertificationType(id, data);
+  }
+  const res = await apiRequest("PATCH", `/api/certification-types/${id}`, data);
+  return res.json();
+}
+
+export interface MergeResult {
+  merged: number;
+}
+
+// Links typed-in certifications to a catalog item
+export async function mergeIntoCatalog(typeId: string, data: MergeIntoCatalog): Promise<MergeResult> {
+  if (isLocalMode) {
+    assertLocalAdmin();
+    return { merged: await localData.mergeIntoCatalog(typeId, data.entries) };
+  }
+  const res = await apiRequest("POST", `/api/certification-types/${typeId}/merge`, data);
+  return res.json();
+}
+
+export async function deleteCertificationType(id: string): Promise<void> {
+  if (isLocalMode) {
+    assertLocalAdmin();
+    return localData.deleteCertificationType(id);
+  }
+  await apiRequest("DELETE", `/api/certification-types/${id}`);
+}
+
+export type UserInput = {
+  username: string;
+  fullName: string;
+  email: string;
+  role: UserRole;
+  password: string;
+};
+
+export type UserChanges = Partial<Omit<UserInput, "password">> & {
+  deactivated?: boolean;
+  password?: string;
+};
+
+export async function createUser(data: UserInput): Promise<User> {
+  if (isLocalMode) {
+    assertLocalAdmin();
+    return localAuth.createUserLocal(data);
+  }
+  const res = await apiRequest("POST", "/api/users", data);
+  return res.json();
+}
+
+export async function updateUser(id: string, data: UserChanges): Promise<User> {
+  if (isLocalMode) {
+    // Users may edit their own profile; everything else needs an admin
+    const current = localAuth.getCurrentLocalUser();
+    const profileOnly = data.role === undefined && data.username === undefined
+      && data.deactivated === undefined && data.password === undefined;
+    if (!(profileOnly && current?.id === id)) assertLocalAdmin();
+    if (data.deactivated && id === current?.id) {
+      throw new Error("409: You cannot deactivate your own account");
+    }
+    const user = await localAuth.updateUserLocal(id, data);
+    if (id === current?.id) localAuth.setCurrentLocalUser(user);
+    return user;
+  }
+  const res = await apiRequest("PATCH", `/api/users/${id}`, data);
+  return res.json();
+}
+
+export async function updateOrganizationSettings(data: UpdateOrganizationSettings): Promise<OrganizationSettings> {
+  if (isLocalMode) {
+    assertLocalAdmin();
+    return localSettings.updateOrganizationSettingsLocal(data);
+  }
+  const res = await apiRequest("PATCH", "/api/settings/organization", data);
+  return res.json();
+}
+
+export async function updateUserSettings(data: UpdateUserSettings): Promise<UserSettings> {
+  if (isLocalMode) {
+    const current = localAuth.getCurrentLocalUser();
+    if (!current) throw new Error("401: Not authenticated");
+    return localSettings.updateUserSettingsLocal(current.id, data);
+  }
+  const res = await apiRequest("PATCH", "/api/settings/user", data);
+  return res.json();
+}
+
+export async function changePassword(data: { currentPassword: string; newPassword: string }): Promise<void> {
+  if (isLocalMode) {
+    const current = localAuth.getCurrentLocalUser();
+    if (!current) throw new Error("401: Not authenticated");
+    return localAuth.changePasswordLocal(current.id, data.currentPassword, data.newPassword);
+  }
+  await apiRequest("POST", "/api/auth/password", data);
+}
+
+async function getLocalBackupData(): Promise<BackupData> {
+  const parsed = backupDataSchema.safeParse({
+    users: localAuth.getStoredUsersLocal(),
+    ...localData.getDataLocal(),
+    ...(await localSettings.getAllSettingsLocal()),
+  });
+  if (!parsed.success) throw new Error(`500: ${parsed.error.issues[0].message}`);
+  return parsed.data;
+}
+
+async function planLocalRestore(backup: Backup, mode: RestoreMode) {
+  assertLocalAdmin();
+  return planRestore(await getLocalBackupData(), backup, mode, "local", localAuth.getCurrentLocalUser()!.id);
+}
+
+export async function getBackup(): Promise<Backup> {
+  if (isLocalMode) {
+    assertLocalAdmin();
+    return createBackup(await getLocalBackupData(), "local");
+  }
+  const res = await apiRequest("GET", "/api/backup");
+  return res.json();
+}
+
+export async function previewRestore(backup: Backup, mode: RestoreMode): Promise<RestoreSummary> {
+  if (isLocalMode) return (await planLocalRestore(backup, mode)).summary;
+  const res = await apiRequest("POST", "/api/backup/preview", { mode, backup });
+  return res.json();
+}
+
+export async function restoreBackup(backup: Backup, mode: RestoreMode): Promise<RestoreSummary> {
+  if (isLocalMode) {
+    const { data, summary } = await planLocalRestore(backup, mode);
+    if (summary.errors.length > 0) throw new Error(`409: ${summary.errors[0]}`);
+    // Settings go first: they are checked, and a bad backup then changes nothing
+    localSettings.replaceSettingsLocal(data);
+    localAuth.replaceUsersLocal(data.users);
+    localData.replaceDataLocal(data);
+    return summary;
+  }
+  const res = await apiRequest("POST", "/api/backup/restore", { mode, backup });
+  return res.json();
+}
+
+const ATTACHMENTS_OFFLINE = "400: Documents cannot be attached in offline mode";
+
+// Sent as the raw file rather than JSON, with its name in the query string
+export async function uploadAttachment(certificationId: string, file: File): Promise<CertificationAttachment> {
+  if (isLocalMode) throw new Error(ATTACHMENTS_OFFLINE);
+  const url = `/api/certifications/${certificationId}/attachments?fileName=${encodeURIComponent(file.name)}`;
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": file.type },
+    body: file,
+    credentials: "include",
+  });
+  await throwIfResNotOk(res);
+  return res.json();
+}
+
+export async function deleteAttachment(certificationId: string, id: string): Promise<void> {
+  if (isLocalMode) throw new Error(ATTACHMENTS_OFFLINE);
+  await apiRequest("DELETE", `/api/certifications/${certificationId}/attachments/${id}`);
+}
+
+export type BulkReminderResult = { sent: number; failed: number };
+
+const REMINDERS_OFFLINE = "400: Email reminders are not available in offline mode";
+
+export async function sendReminder(certificationId: string): Promise<Reminder> {
+  if (isLocalMode) throw new Error(REMINDERS_OFFLINE);
+  const res = await apiRequest("POST", `/api/certifications/${certificationId}/reminders`);
+  return res.json();
+}
+
+// Sent in batches the server accepts, adding up what each one reports
+export async function sendBulkReminders(certificationIds: string[]): Promise<BulkReminderResult> {
+  if (isLocalMode) throw new Error(REMINDERS_OFFLINE);
+  const total: BulkReminderResult = { sent: 0, failed: 0 };
+  for (let start = 0; start < certificationIds.length; start += MAX_BULK_REMINDERS) {
+    const res = await apiRequest("POST", "/api/reminders/bulk", {
+      certificationIds: certificationIds.slice(start, start + MAX_BULK_REMINDERS),
+    });
+    const { sent, failed }: BulkReminderResult = await res.json();
+    total.sent += sent;
+    total.failed += failed;
+  }
+  return total;
+}
+
+const NOTIFICATIONS_OFFLINE = "400: Notifications are not available in offline mode";
+
+export async function markNotificationRead(id: string): Promise<Notification> {
+  if (isLocalMode) throw new Error(NOTIFICATIONS_OFFLINE);
+  const res = await apiRequest("POST", `/api/notifications/${id}/read`);
+  return res.json();
+}
+
+export async function markAllNotificationsRead(): Promise<void> {
+  if (isLocalMode) throw new Error(NOTIFICATIONS_OFFLINE);
+  await apiRequest("POST", "/api/notifications/read-all");
+}
+
+export async function login(data: { username: string; password: string }): Promise<User> {
+  if (isLocalMode) {
+    const user = await localAuth.loginLocal(data);
+    localAuth.setCurrentLocalUser(user);
+    return user;
+  }
+  const res = await apiRequest("POST", "/api/auth/login", data);
+  return res.json();
+}
+
+export async function register(data: { username: string; password: string; fullName: string; email: string }): Promise<User> {
+  if (isLocalMode) {
+    const user = await localAuth.registerLocal(data);
+    localAuth.setCurrentLocalUser(user);
+    return user;
+  }
+  const res = await apiRequest("POST", "/api/auth/register", data);
+  return res.json();
+}
+
+export async function logout(): Promise<void> {
+  if (isLocalMode) return localAuth.setCurrentLocalUser(null);
+  await apiRequest("POST", "/api/auth/logout");
+}
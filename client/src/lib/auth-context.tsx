@@ -1,39 +1,36 @@
-import { createContext, useContext, useState, useEffect, type ReactNode } from "react";
+import { createContext, useContext, type ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
 import type { User } from "@shared/schema";
+import { getQueryFn, queryClient } from "@/lib/queryClient";
+import { logout as logoutRequest } from "@/lib/api";
 
 interface AuthContextType {
   user: User | null;
   login: (user: User) => void;
-  logout: () => void;
+  logout: () => Promise<void>;
   isLoading: boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+const ME_QUERY_KEY = ["/api/auth/me"];
+
 export function AuthProvider({ children }: { children: ReactNode }) {
-  const [user, setUser] = useState<User | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-
-  useEffect(() => {
-    const storedUser = localStorage.getItem("certtrack_user");
-    if (storedUser) {
-      try {
-        setUser(JSON.parse(storedUser));
-      } catch {
-        localStorage.removeItem("certtrack_user");
-      }
-    }
-    setIsLoading(false);
-  }, []);
+  // The session cookie decides who is signed in; /api/auth/me reports that
+  // user along with the role the server will enforce.
+  const { data: user = null, isLoading } = useQuery<User | null>({
+    queryKey: ME_QUERY_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
 
   const login = (user: User) => {
-    setUser(user);
-    localStorage.setItem("certtrack_user", JSON.stringify(user));
+    queryClient.setQueryData(ME_QUERY_KEY, user);
   };
 
-  const logout = () => {
-    setUser(null);
-    localStorage.removeItem("certtrack_user");
+  const logout = async () => {
+    await logoutRequest();
+    queryClient.clear();
+    queryClient.setQueryData(ME_QUERY_KEY, null);
   };
 
   return (
@@ -0,0 +1,67 @@
+import type { QueryKey } from "@tanstack/react-query";
+import {
+  getAllCertifications,
+  getCertificationTypes,
+  getCertificationsByUser,
+  getRenewals,
+} from "@/lib/localData";
+import { getAllUsers, getCurrentLocalUser } from "@/lib/localAuth";
+import { getOrganizationSettingsLocal, getUserSettingsLocal } from "@/lib/localSettings";
+import { DEFAULT_PASSWORD_POLICY } from "@shared/password-policy";
+import { certifiedOn } from "@shared/renewals";
+import type { RenewalWithRenewer } from "@shared/schema";
+
+async function getRenewalsWithRenewer(certificationId: string): Promise<RenewalWithRenewer[]> {
+  const users = getAllUsers();
+  return (await getRenewals(certificationId))
+    .map((renewal) => ({
+      ...renewal,
+      renewedByName: users.find((u) => u.id === renewal.renewedById)?.fullName ?? null,
+    }))
+    .sort((a, b) => new Date(b.renewedAt).getTime() - new Date(a.renewedAt).getTime());
+}
+
+// Answers the API query keys from localStorage when the app runs in offline/demo mode.
+export async function resolveLocalQuery(queryKey: QueryKey): Promise<unknown> {
+  const [path, ...rest] = queryKey as string[];
+
+  switch (path) {
+    case "/api/certifications":
+      if (rest[0] === "user") return getCertificationsByUser(rest[1]);
+      // Documents need the server's file store, so offline mode never has any
+      if (rest[0] === "attachments" || rest[1] === "attachments") return [];
+      if (rest[1] === "renewals") return getRenewalsWithRenewer(rest[0]);
+      return getAllCertifications();
+    case "/api/certification-types":
+      return getCertificationTypes();
+    case "/api/users":
+      return getAllUsers();
+    case "/api/auth/me":
+      return getCurrentLocalUser();
+    case "/api/auth/password-policy":
+      return DEFAULT_PASSWORD_POLICY;
+    case "/api/settings/organization":
+      return getOrganizationSettingsLocal();
+    case "/api/settings/branding": {
+      const { organizationName } = await getOrganizationSettingsLocal();
+      return { organizationName };
+    }
+    case "/api/settings/user": {
+      const current = getCurrentLocalUser();
+      if (!current) throw new Error("401: Not authenticated");
+      return getUserSettingsLocal(current.id);
+    }
+    case "/api/reports/certified-on": {
+      const current = getCurrentLocalUser();
+      if (!current) throw new Error("401: Not authenticated");
+      const certs = current.role === "admin" ? await getAllCertifications() : await getCertificationsByUser(current.id);
+      return certifiedOn(certs, await getRenewals(), rest[0]);
+    }
+    case "/api/notifications":
+    case "/api/reminders/latest":
+      // Both are raised by the server, so offline mode never has any
+      return [];
+    default:
+      throw new Error(`404: ${path} is not available in offline mode`);
+  }
+}
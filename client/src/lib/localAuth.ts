@@ -1,44 +1,137 @@
-import type { User } from "@shared/schema";
+import type { User, UserRole } from "@shared/schema";
+import { DEFAULT_PASSWORD_POLICY, passwordSchema } from "@shared/password-policy";
+import { removesLastAdmin } from "@shared/users";
+import { v4 as uuidv4 } from "uuid";
+import { STORAGE_KEYS, readStored, writeStored, type StoredUser } from "@/lib/localStore";
 
-const USERS_KEY = "certtrack_users_v1";
+function loadUsers(): Record<string, StoredUser> {
+  return readStored<Record<string, StoredUser>>("users", {});
+}
+
+// A fresh offline store gets the same demo accounts the login page advertises,
+// hashed like any other password. Run on startup, before anything signs in.
+export async function seedDemoUsersLocal() {
+  if (readStored<Record<string, StoredUser> | null>("users", null)) return;
+  saveUsers({
+    admin: { id: uuidv4(), username: "admin", fullName: "Administrator", email: "admin@example.com", role: "admin", deactivated: false, password: await hashPassword("admin123") },
+    john: { id: uuidv4(), username: "john", fullName: "John Doe", email: "john@example.com", role: "user", deactivated: false, password: await hashPassword("user1234") },
+  });
+}
 
-type StoredUser = User & { password?: string };
+function saveUsers(users: Record<string, StoredUser>) {
+  writeStored("users", users);
+}
 
-function loadUsers(): Record<string, StoredUser> {
-  try {
-    const raw = localStorage.getItem(USERS_KEY);
-    if (!raw) {
-      const demo: Record<string, StoredUser> = {
-        admin: { id: "1", username: "admin", fullName: "Administrator", email: "admin@example.com", role: "admin", password: "admin123" },
-        john: { id: "2", username: "john", fullName: "John Doe", email: "john@example.com", role: "user", password: "user123" },
-      };
-      localStorage.setItem(USERS_KEY, JSON.stringify(demo));
-      return demo;
-    }
-
-    return JSON.parse(raw) as Record<string, StoredUser>;
-  } catch {
-    return {};
+// Stored as pbkdf2$iterations$salt$hash (base64). Records without the prefix
+// hold a plaintext password from before hashing and are upgraded on login.
+const HASH_PREFIX = "pbkdf2$";
+const PBKDF2_ITERATIONS = 210_000;
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...Array.from(bytes)));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+
+async function deriveKey(password: string, salt: Uint8Array, iterations: number): Promise<Uint8Array> {
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(password), "PBKDF2", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits({ name: "PBKDF2", hash: "SHA-256", salt, iterations }, material, 256);
+  return new Uint8Array(bits);
+}
+
+async function sha256(value: string): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value)));
+}
+
+function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    diff |= (a[i] ?? 0) ^ (b[i] ?? 0);
   }
+  return diff === 0;
 }
 
-function saveUsers(users: Record<string, StoredUser>) {
-  localStorage.setItem(USERS_KEY, JSON.stringify(users));
+async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(password, salt, PBKDF2_ITERATIONS);
+  return `${HASH_PREFIX}${PBKDF2_ITERATIONS}$${toBase64(salt)}$${toBase64(key)}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  if (!stored.startsWith(HASH_PREFIX)) {
+    return constantTimeEqual(await sha256(password), await sha256(stored));
+  }
+  const [, iterations, salt, hash] = stored.split("$");
+  const key = await deriveKey(password, fromBase64(salt), Number(iterations));
+  return constantTimeEqual(key, fromBase64(hash));
+}
+
+function toPublicUser(user: StoredUser): User {
+  const { password, ...publicUser } = user;
+  // Records saved before deactivation existed have no flag
+  return { ...publicUser, deactivated: !!publicUser.deactivated } as User;
+}
+
+function assertPasswordPolicy(password: string) {
+  const policyCheck = passwordSchema(DEFAULT_PASSWORD_POLICY).safeParse(password);
+  if (!policyCheck.success) {
+    throw new Error(`400: ${policyCheck.error.issues[0].message}`);
+  }
 }
 
 export async function registerLocal(data: { username: string; password: string; fullName: string; email: string; }): Promise<User> {
+  return createUserLocal({ ...data, role: "user" });
+}
+
+export async function createUserLocal(data: { username: string; password: string; fullName: string; email: string; role: UserRole; }): Promise<User> {
   const users = loadUsers();
   const username = data.username;
   if (users[username]) {
     throw new Error("409: Username already exists");
   }
+  assertPasswordPolicy(data.password);
 
-  const id = String(Object.keys(users).length + 1);
-  const user: StoredUser = { id, username, fullName: data.fullName, email: data.email, role: "user", password: data.password };
+  const id = uuidv4();
+  const passwordHash = await hashPassword(data.password);
+  const user: StoredUser = { id, username, fullName: data.fullName, email: data.email, role: data.role, deactivated: false, password: passwordHash };
   users[username] = user;
   saveUsers(users);
-  const { password, ...publicUser } = user;
-  return publicUser as User;
+  return toPublicUser(user);
+}
+
+export async function updateUserLocal(
+  id: string,
+  changes: Partial<Pick<User, "username" | "fullName" | "email" | "role" | "deactivated">> & { password?: string },
+): Promise<User> {
+  const users = loadUsers();
+  const existing = Object.values(users).find((u) => u.id === id);
+  if (!existing) throw new Error("404: User not found");
+
+  if (changes.username && changes.username !== existing.username && users[changes.username]) {
+    throw new Error("409: Username already exists");
+  }
+  if (removesLastAdmin(getAllUsers(), id, { role: changes.role, deactivated: changes.deactivated })) {
+    throw new Error("409: At least one active administrator is required");
+  }
+
+  const { password, ...fields } = changes;
+  const updated: StoredUser = { ...existing, ...fields };
+  if (password) {
+    assertPasswordPolicy(password);
+    updated.password = await hashPassword(password);
+  }
+  delete users[existing.username];
+  users[updated.username] = updated;
+  saveUsers(users);
+  return toPublicUser(updated);
+}
+
+export async function changePasswordLocal(id: string, currentPassword: string, newPassword: string): Promise<void> {
+  const users = loadUsers();
+  const user = Object.values(users).find((u) => u.id === id);
+  if (!user?.password || !(await verifyPassword(currentPassword, user.password))) {
+    throw new Error("400: Current password is incorrect");
+  }
+  assertPasswordPolicy(newPassword);
+  user.password = await hashPassword(newPassword);
+  saveUsers(users);
 }
 
 export async function loginLocal(data: { username: string; password: string; }): Promise<User> {
@@ -48,18 +141,48 @@ export async function loginLocal(data: { username: string; password: string; }):
     throw new Error("401: Invalid credentials");
   }
 
-  if (user.password !== data.password) {
+  if (!user.password || !(await verifyPassword(data.password, user.password))) {
     throw new Error("401: Invalid credentials");
   }
 
-  const { password, ...publicUser } = user;
-  return publicUser as User;
+  if (user.deactivated) {
+    throw new Error("403: This account has been deactivated");
+  }
+
+  if (!user.password.startsWith(HASH_PREFIX)) {
+    user.password = await hashPassword(data.password);
+    saveUsers(users);
+  }
+
+  return toPublicUser(user);
 }
 
 export function getAllUsers(): User[] {
   const users = loadUsers();
-  return Object.values(users).map((u) => {
-    const { password, ...publicUser } = u;
-    return publicUser as User;
-  });
+  return Object.values(users).map(toPublicUser);
+}
+
+// Password hashes included, for backups
+export function getStoredUsersLocal(): StoredUser[] {
+  return Object.values(loadUsers());
+}
+
+// Keeps the signed-in session in step with the restored account
+export function replaceUsersLocal(users: StoredUser[]) {
+  saveUsers(Object.fromEntries(users.map((user) => [user.username, user])));
+  const current = getCurrentLocalUser();
+  const restored = current && users.find((u) => u.id === current.id);
+  if (restored) setCurrentLocalUser(toPublicUser(restored));
+}
+
+export function getCurrentLocalUser(): User | null {
+  return readStored<User | null>("currentUser", null);
+}
+
+export function setCurrentLocalUser(user: User | null) {
+  if (user) {
+    writeStored("currentUser", user);
+  } else {
+    localStorage.removeItem(STORAGE_KEYS.currentUser);
+  }
 }
@@ -1,24 +1,38 @@
-import type { Certification } from "@shared/schema";
+import type {
+  Certification,
+  CertificationRenewal,
+  CertificationType,
+  InsertCertificationType,
+  RenewCertification,
+} from "@shared/schema";
+import { sameUnlistedEntry, type MergeIntoCatalog } from "@shared/catalog";
+import { UNVERIFIED } from "@shared/verification";
+import type { MergePlan } from "@shared/duplicates";
 import { v4 as uuidv4 } from "uuid";
-
-const CERTS_KEY = "certtrack_certs_v1";
+import { readStored, writeStored } from "@/lib/localStore";
 
 function loadCerts(): Certification[] {
-  try {
-    const raw = localStorage.getItem(CERTS_KEY);
-    if (!raw) {
-      const initial: Certification[] = [];
-      localStorage.setItem(CERTS_KEY, JSON.stringify(initial));
-      return initial;
-    }
-    return JSON.parse(raw) as Certification[];
-  } catch {
-    return [];
-  }
+  return readStored<Certification[]>("certifications", []);
 }
 
 function saveCerts(certs: Certification[]) {
-  localStorage.setItem(CERTS_KEY, JSON.stringify(certs));
+  writeStored("certifications", certs);
+}
+
+function loadRenewals(): CertificationRenewal[] {
+  return readStored<CertificationRenewal[]>("renewals", []);
+}
+
+function saveRenewals(renewals: CertificationRenewal[]) {
+  writeStored("renewals", renewals);
+}
+
+function loadTypes(): CertificationType[] {
+  return readStored<CertificationType[]>("certificationTypes", []);
+}
+
+function saveTypes(types: CertificationType[]) {
+  writeStored("certificationTypes", types);
 }
 
 export async function getAllCertifications(): Promise<Certification[]> {
@@ -31,23 +45,35 @@ export async function getCertificationsByUser(userId?: string | null): Promise<C
   return certs.filter((c) => c.userId === userId);
 }
 
-export async function createCertification(data: Partial<Certification>): Promise<Certification> {
-  const certs = loadCerts();
-  const id = uuidv4();
-  const cert: Certification = {
-    id,
+function newCertification(data: Partial<Certification>): Certification {
+  return {
+    id: uuidv4(),
     userId: data.userId || "",
     name: data.name || "",
     issuingOrganization: data.issuingOrganization || "",
-    credentialId: data.credentialId || "",
+    typeId: data.typeId ?? null,
+    credentialId: data.credentialId ?? null,
     issueDate: data.issueDate || new Date().toISOString().slice(0, 10),
-    expirationDate: data.expirationDate || new Date().toISOString().slice(0, 10),
-  } as Certification;
-  certs.push(cert);
-  saveCerts(certs);
+    expirationDate: data.expirationDate || null,
+    certificateUrl: data.certificateUrl || null,
+    notes: data.notes || null,
+    ...UNVERIFIED,
+  };
+}
+
+export async function createCertification(data: Partial<Certification>): Promise<Certification> {
+  const cert = newCertification(data);
+  saveCerts([...loadCerts(), cert]);
   return cert;
 }
 
+// Saved together, so an import lands completely or not at all
+export async function createCertifications(data: Partial<Certification>[]): Promise<Certification[]> {
+  const created = data.map(newCertification);
+  saveCerts([...loadCerts(), ...created]);
+  return created;
+}
+
 export async function updateCertification(id: string, data: Partial<Certification>): Promise<Certification> {
   const certs = loadCerts();
   const idx = certs.findIndex((c) => c.id === id);
@@ -57,8 +83,158 @@ export async function updateCertification(id: string, data: Partial<Certificatio
   return certs[idx];
 }
 
+// Same as the server: the primary takes the merged fields, the cycles of
+// duplicates covering other dates, and their renewal history before they are removed
+export async function mergeCertifications(
+  primaryId: string,
+  duplicateIds: string[],
+  plan: MergePlan,
+  mergedById: string,
+): Promise<Certification> {
+  const certs = loadCerts();
+  const idx = certs.findIndex((c) => c.id === primaryId);
+  if (idx === -1) throw new Error("Not found");
+  certs[idx] = { ...certs[idx], ...plan.fields };
+  const merged = certs[idx];
+  saveCerts(certs.filter((c) => !duplicateIds.includes(c.id)));
+  const archived: CertificationRenewal[] = plan.archived.map((cycle) => ({
+    id: uuidv4(),
+    certificationId: primaryId,
+    previousIssueDate: cycle.issueDate,
+    previousExpirationDate: cycle.expirationDate,
+    previousCredentialId: cycle.credentialId,
+    ...cycle.next,
+    proofUrl: null,
+    renewedById: mergedById,
+    renewedAt: cycle.renewedAt,
+  }));
+  saveRenewals([
+    ...loadRenewals().map((r) => (duplicateIds.includes(r.certificationId) ? { ...r, certificationId: primaryId } : r)),
+    ...archived,
+  ]);
+  return merged;
+}
+
 export async function deleteCertification(id: string): Promise<void> {
   const certs = loadCerts();
   const newCerts = certs.filter((c) => c.id !== id);
   saveCerts(newCerts);
+  saveRenewals(loadRenewals().filter((r) => r.certificationId !== id));
+}
+
+// Same bookkeeping as the server: archive the current cycle, then move on.
+// api.ts has already refused certifications that never expire.
+export async function renewCertification(
+  id: string,
+  data: RenewCertification,
+  renewedById: string,
+): Promise<Certification> {
+  const certs = loadCerts();
+  const idx = certs.findIndex((c) => c.id === id);
+  if (idx === -1) throw new Error("Not found");
+  const current = certs[idx];
+  const renewals = loadRenewals();
+  renewals.push({
+    id: uuidv4(),
+    certificationId: id,
+    previousIssueDate: current.issueDate,
+    previousExpirationDate: current.expirationDate!,
+    previousCredentialId: current.credentialId,
+    issueDate: data.issueDate,
+    expirationDate: data.expirationDate,
+    credentialId: data.credentialId || null,
+    proofUrl: data.proofUrl || null,
+    renewedById,
+    renewedAt: new Date(),
+  });
+  saveRenewals(renewals);
+  certs[idx] = {
+    ...current,
+    issueDate: data.issueDate,
+    expirationDate: data.expirationDate,
+    credentialId: data.credentialId || current.credentialId,
+    certificateUrl: data.proofUrl || current.certificateUrl,
+    ...UNVERIFIED,
+  };
+  saveCerts(certs);
+  return certs[idx];
+}
+
+export async function getRenewals(certificationId?: string): Promise<CertificationRenewal[]> {
+  const renewals = loadRenewals();
+  return certificationId ? renewals.filter((r) => r.certificationId === certificationId) : renewals;
+}
+
+export async function getCertificationTypes(): Promise<CertificationType[]> {
+  return loadTypes().sort((a, b) => a.name.localeCompare(b.name));
+}
+
+const sameTypeName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+export async function createCertificationType(data: InsertCertificationType): Promise<CertificationType> {
+  const types = loadTypes();
+  if (types.some((t) => sameTypeName(t.name, data.name))) {
+    throw new Error("409: A catalog entry with this name already exists");
+  }
+  const type: CertificationType = {
+    id: uuidv4(),
+    name: data.name,
+    issuingOrganization: data.issuingOrganization ?? null,
+    validityMonths: data.validityMonths ?? null,
+    renewalBasis: data.renewalBasis ?? "expiration",
+    level: data.level ?? null,
+    category: data.category ?? null,
+    credentialIdFormat: data.credentialIdFormat ?? null,
+    verificationUrlTemplate: data.verificationUrlTemplate ?? null,
+  };
+  saveTypes([...types, type]);
+  return type;
+}
+
+export async function updateCertificationType(
+  id: string,
+  data: Partial<InsertCertificationType>,
+): Promise<CertificationType> {
+  const types = loadTypes();
+  const idx = types.findIndex((t) => t.id === id);
+  if (idx === -1) throw new Error("404: Catalog entry not found");
+  if (data.name && types.some((t) => sameTypeName(t.name, data.name!) && t.id !== id)) {
+    throw new Error("409: A catalog entry with this name already exists");
+  }
+  types[idx] = { ...types[idx], ...data };
+  saveTypes(types);
+  return types[idx];
+}
+
+export async function mergeIntoCatalog(typeId: string, entries: MergeIntoCatalog["entries"]): Promise<number> {
+  const type = loadTypes().find((t) => t.id === typeId);
+  if (!type) throw new Error("404: Catalog entry not found");
+  let merged = 0;
+  const certs = loadCerts().map((c) => {
+    if (c.typeId || !entries.some((entry) => sameUnlistedEntry(entry, c))) return c;
+    merged++;
+    return { ...c, typeId, name: type.name, issuingOrganization: type.issuingOrganization ?? c.issuingOrganization };
+  });
+  saveCerts(certs);
+  return merged;
+}
+
+// Like the server's ON DELETE SET NULL, certifications just lose the link
+export async function deleteCertificationType(id: string): Promise<void> {
+  saveTypes(loadTypes().filter((t) => t.id !== id));
+  const certs = loadCerts();
+  if (certs.some((c) => c.typeId === id)) {
+    saveCerts(certs.map((c) => (c.typeId === id ? { ...c, typeId: null } : c)));
+  }
+}
+
+// Everything offline mode keeps about certifications, for backups
+export function getDataLocal() {
+  return { certificationTypes: loadTypes(), certifications: loadCerts(), renewals: loadRenewals() };
+}
+
+export function replaceDataLocal(data: ReturnType<typeof getDataLocal>) {
+  saveTypes(data.certificationTypes);
+  saveCerts(data.certifications);
+  saveRenewals(data.renewals);
 }
@@ -0,0 +1,61 @@
+import {
+  updateOrganizationSettingsSchema,
+  type OrganizationSettings,
+  type UpdateOrganizationSettings,
+  type UpdateUserSettings,
+  type UserSettings,
+} from "@shared/schema";
+import { DEFAULT_ORGANIZATION_SETTINGS, DEFAULT_USER_SETTINGS } from "@shared/settings";
+import { backupOrganizationSettingsSchema } from "@shared/backup";
+import { statusThresholdsSchema } from "@shared/status";
+import { readStored, writeStored } from "@/lib/localStore";
+
+const DEFAULT_ORG_SETTINGS: OrganizationSettings = { id: 1, ...DEFAULT_ORGANIZATION_SETTINGS };
+
+export async function getOrganizationSettingsLocal(): Promise<OrganizationSettings> {
+  return { ...DEFAULT_ORG_SETTINGS, ...readStored<Partial<OrganizationSettings>>("organizationSettings", {}) };
+}
+
+export async function updateOrganizationSettingsLocal(data: UpdateOrganizationSettings): Promise<OrganizationSettings> {
+  const parsed = updateOrganizationSettingsSchema.safeParse(data);
+  if (!parsed.success) {
+    throw new Error(`400: ${parsed.error.issues[0].message}`);
+  }
+  const settings = { ...(await getOrganizationSettingsLocal()), ...parsed.data };
+  const check = statusThresholdsSchema.safeParse(settings);
+  if (!check.success) {
+    throw new Error(`400: ${check.error.issues[0].message}`);
+  }
+  writeStored("organizationSettings", settings);
+  return settings;
+}
+
+export async function getUserSettingsLocal(userId: string): Promise<UserSettings> {
+  const all = readStored<Record<string, Partial<UserSettings>>>("userSettings", {});
+  return { userId, ...DEFAULT_USER_SETTINGS, ...all[userId] };
+}
+
+export async function updateUserSettingsLocal(userId: string, data: UpdateUserSettings): Promise<UserSettings> {
+  const all = readStored<Record<string, Partial<UserSettings>>>("userSettings", {});
+  all[userId] = { ...all[userId], ...data };
+  writeStored("userSettings", all);
+  return getUserSettingsLocal(userId);
+}
+
+export async function getAllSettingsLocal() {
+  const { id, ...organizationSettings } = await getOrganizationSettingsLocal();
+  const all = readStored<Record<string, Partial<UserSettings>>>("userSettings", {});
+  const userSettings = Object.keys(all).map((userId) => ({ userId, ...DEFAULT_USER_SETTINGS, ...all[userId] }));
+  return { organizationSettings, userSettings };
+}
+
+// Settings from a restored backup get the same checks as an edit
+export function replaceSettingsLocal(data: { organizationSettings: Omit<OrganizationSettings, "id">; userSettings: UserSettings[] }) {
+  const parsed = backupOrganizationSettingsSchema.safeParse(data.organizationSettings);
+  if (!parsed.success) {
+    throw new Error(`400: ${parsed.error.issues[0].message}`);
+  }
+  writeStored("organizationSettings", { id: 1, ...parsed.data });
+  const all = Object.fromEntries(data.userSettings.map(({ userId, ...settings }) => [userId, settings]));
+  writeStored("userSettings", all);
+}
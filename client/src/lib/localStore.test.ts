@@ -0,0 +1,158 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { validate as isUuid } from "uuid";
+import {
+  LOCAL_SCHEMA_VERSION,
+  LocalDataError,
+  STORAGE_KEYS,
+  getLocalSnapshot,
+  runLocalMigrations,
+} from "@/lib/localStore";
+
+// Just enough of localStorage for the store, kept in memory per test
+function memoryStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    key: (index) => Array.from(items.keys())[index] ?? null,
+    getItem: (key) => items.get(key) ?? null,
+    setItem: (key, value) => void items.set(key, String(value)),
+    removeItem: (key) => void items.delete(key),
+    clear: () => items.clear(),
+  };
+}
+
+const VERSION_KEY = "certtrack_schema_version";
+const USER_ID = "3f1c2a9e-8b7d-4c6e-9f0a-1b2c3d4e5f60";
+
+function save(values: Record<string, unknown>, version?: number) {
+  for (const [name, value] of Object.entries(values)) {
+    localStorage.setItem(STORAGE_KEYS[name as keyof typeof STORAGE_KEYS], JSON.stringify(value));
+  }
+  if (version !== undefined) localStorage.setItem(VERSION_KEY, String(version));
+}
+
+const load = (name: keyof typeof STORAGE_KEYS) => JSON.parse(localStorage.getItem(STORAGE_KEYS[name])!);
+
+// Each older version as it was written, with only the fields that version had
+const storeAt = (version: number) => ({
+  users: { john: { id: version === 0 ? "2" : USER_ID, username: "john", ...(version >= 2 && { deactivated: true }) } },
+  certifications: [
+    {
+      id: "c1",
+      userId: version === 0 ? "2" : USER_ID,
+      name: "CCNA",
+      issueDate: "2024-01-01",
+      ...(version >= 2 && { typeId: null, credentialId: null, expirationDate: null, certificateUrl: null, notes: "Kept" }),
+      ...(version >= 4 && { verificationStatus: "admin", verifiedById: USER_ID, verifiedAt: "2024-02-01T00:00:00.000Z" }),
+    },
+  ],
+  certificationTypes: [
+    {
+      id: "t1",
+      name: "CCNA",
+      ...(version >= 3 && { level: "associate", category: null, credentialIdFormat: null, verificationUrlTemplate: null }),
+    },
+  ],
+});
+
+describe("runLocalMigrations", () => {
+  beforeEach(() => {
+    vi.stubGlobal("localStorage", memoryStorage());
+  });
+
+  it("starts an empty store at the current version without a snapshot", () => {
+    runLocalMigrations();
+    expect(localStorage.getItem(VERSION_KEY)).toBe(String(LOCAL_SCHEMA_VERSION));
+    expect(getLocalSnapshot()).toBeNull();
+  });
+
+  it("leaves a current store as it is", () => {
+    const store = storeAt(LOCAL_SCHEMA_VERSION);
+    save(store, LOCAL_SCHEMA_VERSION);
+    runLocalMigrations();
+    expect(load("certifications")).toEqual(store.certifications);
+    expect(getLocalSnapshot()).toBeNull();
+  });
+
+  it.each([0, 1, 2, 3])("upgrades a version %i store and keeps a snapshot of it", (version) => {
+    const store = storeAt(version);
+    // Stores from before versioning have no version key at all
+    save(store, version === 0 ? undefined : version);
+    runLocalMigrations();
+
+    expect(localStorage.getItem(VERSION_KEY)).toBe(String(LOCAL_SCHEMA_VERSION));
+    expect(getLocalSnapshot()).toMatchObject({
+      version,
+      values: { [STORAGE_KEYS.certifications]: JSON.stringify(store.certifications) },
+    });
+
+    const user = load("users").john;
+    const [cert] = load("certifications");
+    expect(isUuid(user.id)).toBe(true);
+    expect(cert.userId).toBe(user.id);
+    expect(user.deactivated).toBe(version >= 2);
+    expect(cert).toMatchObject({
+      typeId: null,
+      credentialId: null,
+      expirationDate: null,
+      certificateUrl: null,
+      notes: version >= 2 ? "Kept" : null,
+      verificationStatus: "unverified",
+      verifiedById: null,
+      verifiedAt: null,
+    });
+    expect(load("certificationTypes")[0]).toEqual({
+      id: "t1",
+      name: "CCNA",
+      level: version >= 3 ? "associate" : null,
+      category: null,
+      credentialIdFormat: null,
+      verificationUrlTemplate: null,
+    });
+  });
+
+  it("gives numbered users UUIDs and carries their certifications and session along", () => {
+    save({
+      users: { ann: { id: "1", username: "ann" }, bob: { id: "2", username: "bob" } },
+      certifications: [{ id: "c1", userId: "2" }, { id: "c2", userId: "1" }],
+      currentUser: { id: "2", username: "bob" },
+    });
+    runLocalMigrations();
+
+    const { ann, bob } = load("users");
+    expect(ann.id).not.toBe(bob.id);
+    expect(load("certifications").map((c: { userId: string }) => c.userId)).toEqual([bob.id, ann.id]);
+    expect(load("currentUser").id).toBe(bob.id);
+  });
+
+  it("keeps the first owner of an id two users shared", () => {
+    save({
+      users: { ann: { id: "1", username: "ann" }, bob: { id: "1", username: "bob" } },
+      certifications: [{ id: "c1", userId: "1" }],
+    });
+    runLocalMigrations();
+    expect(load("certifications")[0].userId).toBe(load("users").ann.id);
+  });
+
+  it.each([
+    ["not JSON", "{not json"],
+    ["the wrong shape", JSON.stringify({ id: "c1" })],
+  ])("refuses a store whose data is %s, leaving it untouched", (_problem, raw) => {
+    localStorage.setItem(STORAGE_KEYS.certifications, raw);
+    localStorage.setItem(VERSION_KEY, "1");
+    expect(runLocalMigrations).toThrow(LocalDataError);
+    expect(localStorage.getItem(STORAGE_KEYS.certifications)).toBe(raw);
+    expect(localStorage.getItem(VERSION_KEY)).toBe("1");
+    expect(getLocalSnapshot()).toBeNull();
+  });
+
+  it("refuses an unreadable or newer version", () => {
+    save(storeAt(LOCAL_SCHEMA_VERSION));
+    localStorage.setItem(VERSION_KEY, "two");
+    expect(runLocalMigrations).toThrow(LocalDataError);
+    localStorage.setItem(VERSION_KEY, String(LOCAL_SCHEMA_VERSION + 1));
+    expect(runLocalMigrations).toThrow("This data was saved by a newer version of the tracker");
+  });
+});
@@ -0,0 +1,235 @@
+import { v4 as uuidv4, validate as isUuid } from "uuid";
+import type {
+  Certification,
+  CertificationRenewal,
+  CertificationType,
+  OrganizationSettings,
+  User,
+  UserSettings,
+} from "@shared/schema";
+
+// Every key offline mode keeps in localStorage. The _v1 suffixes predate the
+// schema version below and stay as they are.
+export const STORAGE_KEYS = {
+  users: "certtrack_users_v1",
+  currentUser: "certtrack_user",
+  certifications: "certtrack_certs_v1",
+  renewals: "certtrack_renewals_v1",
+  certificationTypes: "certtrack_cert_types_v1",
+  organizationSettings: "certtrack_org_settings_v1",
+  userSettings: "certtrack_user_settings_v1",
+} as const;
+
+export type StorageKey = keyof typeof STORAGE_KEYS;
+
+// Offline accounts keep their password hash alongside the public fields
+export type StoredUser = User & { password?: string };
+
+// What each key holds once the store is at LOCAL_SCHEMA_VERSION
+interface StoredValues {
+  users: Record<string, StoredUser>;
+  currentUser: User;
+  certifications: Certification[];
+  renewals: CertificationRenewal[];
+  certificationTypes: CertificationType[];
+  organizationSettings: Partial<OrganizationSettings>;
+  userSettings: Record<string, Partial<UserSettings>>;
+}
+
+const SCHEMA_VERSION_KEY = "certtrack_schema_version";
+const SNAPSHOT_KEY = "certtrack_premigration_snapshot";
+
+const ARRAY_KEYS: StorageKey[] = ["certifications", "renewals", "certificationTypes"];
+
+// Stored data that cannot be read. Nothing is written over it, so it can
+// still be downloaded or rolled back from the recovery screen.
+export class LocalDataError extends Error {
+  constructor(message: string, readonly key?: StorageKey) {
+    super(message);
+    this.name = "LocalDataError";
+  }
+}
+
+function parseStored(name: StorageKey, raw: string): unknown {
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    throw new LocalDataError(`The saved ${STORAGE_KEYS[name]} data is not valid JSON`, name);
+  }
+  const isArray = Array.isArray(value);
+  if (ARRAY_KEYS.includes(name) ? !isArray : isArray || typeof value !== "object" || value === null) {
+    throw new LocalDataError(`The saved ${STORAGE_KEYS[name]} data has an unexpected shape`, name);
+  }
+  return value;
+}
+
+// Missing keys give `fallback`; unreadable ones throw a LocalDataError
+export function readStored<T>(name: StorageKey, fallback: T): T {
+  const raw = localStorage.getItem(STORAGE_KEYS[name]);
+  return raw === null ? fallback : (parseStored(name, raw) as T);
+}
+
+export function writeStored(name: StorageKey, value: unknown) {
+  localStorage.setItem(STORAGE_KEYS[name], JSON.stringify(value));
+}
+
+type StoreData = Partial<StoredValues>;
+
+interface Migration {
+  version: number;
+  description: string;
+  up: (data: StoreData) => void;
+}
+
+// Each step upgrades the store from the version before it. Append new steps;
+// never edit one that has shipped.
+const migrations: Migration[] = [
+  {
+    // Older stores numbered users by count, so ids were reused after a removal
+    version: 1,
+    description: "Give every user a UUID, carrying their certifications and session along",
+    up: (data) => {
+      const idMap: Record<string, string> = {};
+      for (const user of Object.values<{ id: string }>(data.users ?? {})) {
+        if (!isUuid(user.id)) {
+          const newId = uuidv4();
+          // A reused id keeps pointing at its first owner
+          idMap[user.id] ??= newId;
+          user.id = newId;
+        }
+      }
+      for (const cert of data.certifications ?? []) {
+        if (idMap[cert.userId]) cert.userId = idMap[cert.userId];
+      }
+      if (data.currentUser && idMap[data.currentUser.id]) data.currentUser.id = idMap[data.currentUser.id];
+    },
+  },
+  {
+    version: 2,
+    description: "Fill in fields added after the first release",
+    up: (data) => {
+      for (const user of Object.values<Record<string, unknown>>(data.users ?? {})) {
+        user.deactivated ??= false;
+      }
+      for (const cert of data.certifications ?? []) {
+        for (const field of ["typeId", "credentialId", "expirationDate", "certificateUrl", "notes"] as const) {
+          cert[field] ??= null;
+        }
+      }
+    },
+  },
+  {
+    version: 3,
+    description: "Add the catalog fields to certification types",
+    up: (data) => {
+      for (const type of data.certificationTypes ?? []) {
+        for (const field of ["level", "category", "credentialIdFormat", "verificationUrlTemplate"] as const) {
+          type[field] ??= null;
+        }
+      }
+    },
+  },
+  {
+    version: 4,
+    description: "Add verification status to certifications",
+    up: (data) => {
+      for (const cert of data.certifications ?? []) {
+        cert.verificationStatus ??= "unverified";
+        cert.verifiedById ??= null;
+        cert.verifiedAt ??= null;
+      }
+    },
+  },
+];
+
+export const LOCAL_SCHEMA_VERSION = migrations[migrations.length - 1].version;
+
+export interface LocalSnapshot {
+  version: number;
+  takenAt: string;
+  // Raw localStorage values, exactly as they were
+  values: Record<string, string>;
+}
+
+function takeSnapshot(version: number): LocalSnapshot {
+  const values: Record<string, string> = {};
+  for (const key of Object.values(STORAGE_KEYS)) {
+    const raw = localStorage.getItem(key);
+    if (raw !== null) values[key] = raw;
+  }
+  return { version, takenAt: new Date().toISOString(), values };
+}
+
+function storedVersion(): number {
+  const raw = localStorage.getItem(SCHEMA_VERSION_KEY);
+  if (raw === null) {
+    // Stores from before versioning have data but no version; new ones have neither
+    const hasData = Object.values(STORAGE_KEYS).some((key) => localStorage.getItem(key) !== null);
+    return hasData ? 0 : LOCAL_SCHEMA_VERSION;
+  }
+  const version = Number(raw);
+  if (!Number.isInteger(version) || version < 0) {
+    throw new LocalDataError(`The saved schema version "${raw}" is not valid`);
+  }
+  return version;
+}
+
+// Brings the store up to LOCAL_SCHEMA_VERSION, one step at a time, keeping a
+// snapshot of what was there first. Run once on startup, before anything else
+// reads the store. Throws a LocalDataError instead of touching unreadable data.
+export function runLocalMigrations() {
+  const version = storedVersion();
+  if (version > LOCAL_SCHEMA_VERSION) {
+    throw new LocalDataError("This data was saved by a newer version of the tracker");
+  }
+
+  // Older versions may lack fields StoredValues has; the migrations fill them in
+  const data: StoreData = {};
+  for (const name of Object.keys(STORAGE_KEYS) as StorageKey[]) {
+    const raw = localStorage.getItem(STORAGE_KEYS[name]);
+    if (raw !== null) Object.assign(data, { [name]: parseStored(name, raw) });
+  }
+  if (version === LOCAL_SCHEMA_VERSION) {
+    localStorage.setItem(SCHEMA_VERSION_KEY, String(version));
+    return;
+  }
+
+  localStorage.setItem(SNAPSHOT_KEY, JSON.stringify(takeSnapshot(version)));
+  for (const migration of migrations.filter((m) => m.version > version)) {
+    migration.up(data);
+  }
+  for (const name of Object.keys(data) as StorageKey[]) {
+    writeStored(name, data[name]);
+  }
+  localStorage.setItem(SCHEMA_VERSION_KEY, String(LOCAL_SCHEMA_VERSION));
+}
+
+export function getLocalSnapshot(): LocalSnapshot | null {
+  const raw = localStorage.getItem(SNAPSHOT_KEY);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw) as LocalSnapshot;
+  } catch {
+    return null;
+  }
+}
+
+// Puts back the store as it was before the last migration; the next
+// runLocalMigrations upgrades it again.
+export function restoreLocalSnapshot(snapshot: LocalSnapshot) {
+  clearLocalData();
+  for (const [key, raw] of Object.entries(snapshot.values)) localStorage.setItem(key, raw);
+  localStorage.setItem(SCHEMA_VERSION_KEY, String(snapshot.version));
+}
+
+// Everything offline mode has saved, unparsed, for downloading before a reset
+export function exportRawLocalData(): string {
+  return JSON.stringify(takeSnapshot(Number(localStorage.getItem(SCHEMA_VERSION_KEY) ?? 0)), null, 2);
+}
+
+// Leaves the snapshot in place so a reset can still be undone
+export function clearLocalData() {
+  for (const key of Object.values(STORAGE_KEYS)) localStorage.removeItem(key);
+  localStorage.removeItem(SCHEMA_VERSION_KEY);
+}
@@ -0,0 +1,27 @@
+// Certificates are a page or two; anything past this is an appendix
+const MAX_PAGES = 3;
+
+// Pulls the text out of a PDF in the browser. pdf.js is only loaded the
+// first time a certificate is read, and the file never leaves the machine.
+export async function readPdfText(file: File): Promise<string> {
+  const [pdfjs, { default: workerSrc }] = await Promise.all([
+    import("pdfjs-dist"),
+    import("pdfjs-dist/build/pdf.worker.min.mjs?url"),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = workerSrc;
+
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()), isEvalSupported: false })
+    .promise;
+  try {
+    const pages: string[] = [];
+    for (let number = 1; number <= Math.min(pdf.numPages, MAX_PAGES); number++) {
+      const content = await (await pdf.getPage(number)).getTextContent();
+      pages.push(
+        content.items.map((item) => ("str" in item ? item.str + (item.hasEOL ? "\n" : " ") : "")).join(""),
+      );
+    }
+    return pages.join("\n");
+  } finally {
+    await pdf.destroy();
+  }
+}
@@ -1,12 +1,35 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { resolveLocalQuery } from "@/lib/localApi";
 
-async function throwIfResNotOk(res: Response) {
+// Build with VITE_DATA_MODE=local to keep all data in this browser's localStorage
+// (offline/demo mode). By default every query and mutation goes to the server.
+export const isLocalMode = import.meta.env.VITE_DATA_MODE === "local";
+
+// The server answers every failure with { message }; keep the
+// "<status>: <message>" shape so callers can still tell statuses apart.
+export async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    let message = text;
+    try {
+      message = JSON.parse(text).message || text;
+    } catch {
+      // Not JSON; use the raw body
+    }
+    throw new Error(`${res.status}: ${message}`);
   }
 }
 
+// Message for a toast: the server's explanation for client errors (bad input,
+// forbidden, conflicts), otherwise the caller's generic fallback.
+export function getErrorMessage(error: unknown, fallback: string): string {
+  const match = error instanceof Error ? /^(\d{3}): ([\s\S]+)$/.exec(error.message) : null;
+  if (match && Number(match[1]) >= 400 && Number(match[1]) < 500) {
+    return match[2];
+  }
+  return fallback;
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -24,11 +47,13 @@ export async function apiRequest(
 }
 
 type UnauthorizedBehavior = "returnNull" | "throw";
-export const getQueryFn: <T>(options: {
-  on401: UnauthorizedBehavior;
-}) => QueryFunction<T> =
-  ({ on401: unauthorizedBehavior }) =>
+export const getQueryFn =
+  <T>({ on401: unauthorizedBehavior }: { on401: UnauthorizedBehavior }): QueryFunction<T> =>
   async ({ queryKey }) => {
+    if (isLocalMode) {
+      return (await resolveLocalQuery(queryKey)) as T;
+    }
+
     const res = await fetch(queryKey.join("/") as string, {
       credentials: "include",
     });
@@ -0,0 +1,83 @@
+import * as XLSX from "xlsx";
+import { format } from "date-fns";
+import { importFields, type ImportField } from "@shared/import";
+import type { ExportFile } from "@shared/export";
+
+export interface Spreadsheet {
+  headers: string[];
+  records: Record<string, string>[];
+}
+
+export type ImportMapping = Partial<Record<ImportField, string>>;
+
+export const SPREADSHEET_ACCEPT = ".csv,.xlsx,.xls";
+
+function cellText(value: unknown): string {
+  if (value instanceof Date) return format(value, "yyyy-MM-dd");
+  return String(value ?? "").trim();
+}
+
+// Reads the first sheet of a CSV or Excel file into text cells keyed by the
+// header row. CSV cells are kept exactly as typed, so credential IDs keep
+// their leading zeros; Excel date cells come out as YYYY-MM-DD.
+export async function readSpreadsheet(file: File): Promise<Spreadsheet> {
+  const isCsv = file.name.toLowerCase().endsWith(".csv");
+  const workbook = isCsv
+    ? XLSX.read(await file.text(), { type: "string", raw: true })
+    : XLSX.read(await file.arrayBuffer(), { type: "array", cellDates: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return { headers: [], records: [] };
+
+  const [headerRow = []] = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, range: 0 });
+  const headers = headerRow.map((cell) => String(cell ?? "").trim()).filter(Boolean);
+  const records = XLSX.utils
+    .sheet_to_json<Record<string, unknown>>(sheet, { defval: "", raw: true })
+    .map((record) => Object.fromEntries(headers.map((header) => [header, cellText(record[header])])))
+    .filter((record) => Object.values(record).some(Boolean));
+  return { headers, records };
+}
+
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  name: ["name", "certification", "certificationname", "certname", "title"],
+  issuingOrganization: ["issuingorganization", "issuer", "organization", "organisation", "provider", "vendor"],
+  credentialId: ["credentialid", "credential", "certificationid", "certificatenumber", "licensenumber"],
+  issueDate: ["issuedate", "issued", "issuedon", "dateissued", "earned", "obtained"],
+  expirationDate: ["expirationdate", "expiration", "expires", "expiry", "expirydate", "validuntil"],
+  certificateUrl: ["certificateurl", "url", "link", "verificationurl", "certificatelink"],
+  notes: ["notes", "note", "comments", "comment"],
+  owner: ["owner", "user", "username", "email", "employee", "assignee"],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+// Pre-selects a column for each field whose header looks like it
+export function guessMapping(headers: string[]): ImportMapping {
+  const mapping: ImportMapping = {};
+  for (const field of importFields) {
+    const match = headers.find((header) => HEADER_ALIASES[field].includes(normalizeHeader(header)));
+    if (match) mapping[field] = match;
+  }
+  return mapping;
+}
+
+// Turns records into rows for checkImportRows; blank cells are left out.
+export function applyMapping(records: Record<string, string>[], mapping: ImportMapping): Record<string, string>[] {
+  return records.map((record) => {
+    const row: Record<string, string> = {};
+    for (const field of importFields) {
+      const column = mapping[field];
+      const value = column ? record[column] : "";
+      if (value) row[field] = value;
+    }
+    return row;
+  });
+}
+
+export function downloadFile({ body, contentType, fileName }: ExportFile) {
+  const url = URL.createObjectURL(new Blob([body], { type: contentType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -1,5 +1,29 @@
 import { createRoot } from "react-dom/client";
 import App from "./App";
+import DataRecovery from "@/pages/data-recovery";
+import { isLocalMode } from "@/lib/queryClient";
+import { LocalDataError, runLocalMigrations } from "@/lib/localStore";
+import { seedDemoUsersLocal } from "@/lib/localAuth";
 import "./index.css";
 
-createRoot(document.getElementById("root")!).render(<App />);
+// Offline mode upgrades and checks what this browser has saved before
+// anything reads it, and offers recovery options if that fails.
+function checkLocalData(): LocalDataError | null {
+  if (!isLocalMode) return null;
+  try {
+    runLocalMigrations();
+    return null;
+  } catch (error) {
+    if (error instanceof LocalDataError) return error;
+    throw error;
+  }
+}
+
+const localDataError = checkLocalData();
+const root = createRoot(document.getElementById("root")!);
+
+if (localDataError) {
+  root.render(<DataRecovery error={localDataError} />);
+} else {
+  (isLocalMode ? seedDemoUsersLocal() : Promise.resolve()).then(() => root.render(<App />));
+}
@@ -0,0 +1,334 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { GitMerge, Layers, MoreVertical, Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { CatalogMergeDialog } from "@/components/catalog-merge-dialog";
+import { CertificationTypeForm } from "@/components/certification-type-form";
+import { DeleteDialog } from "@/components/delete-dialog";
+import { EmptyState } from "@/components/empty-state";
+import { useToast } from "@/hooks/use-toast";
+import { getErrorMessage, queryClient } from "@/lib/queryClient";
+import {
+  createCertificationType,
+  deleteCertificationType,
+  mergeIntoCatalog,
+  updateCertificationType,
+} from "@/lib/api";
+import type { Certification, CertificationType, InsertCertificationType } from "@shared/schema";
+import { RENEWAL_BASIS_LABELS, describeValidity } from "@shared/renewals";
+import { CATALOG_LEVEL_LABELS, unlistedEntries, type UnlistedEntry } from "@shared/catalog";
+
+const countLabel = (count: number) => (count === 1 ? "1 certification" : `${count} certifications`);
+
+export default function AdminCatalog() {
+  const { toast } = useToast();
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingType, setEditingType] = useState<CertificationType | null>(null);
+  const [deletingType, setDeletingType] = useState<CertificationType | null>(null);
+  // A typed-in entry being merged into an existing item, or added as a new one
+  const [mergingEntry, setMergingEntry] = useState<UnlistedEntry | null>(null);
+  const [addingEntry, setAddingEntry] = useState<UnlistedEntry | null>(null);
+
+  const { data: types = [], isLoading } = useQuery<CertificationType[]>({
+    queryKey: ["/api/certification-types"],
+  });
+
+  const { data: certifications = [] } = useQuery<Certification[]>({
+    queryKey: ["/api/certifications"],
+  });
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: getErrorMessage(error, fallback),
+      variant: "destructive",
+    });
+  };
+
+  const onMerged = (merged: number, type: Pick<CertificationType, "name">) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/certifications"] });
+    toast({ title: "Merged into catalog", description: `${countLabel(merged)} now linked to ${type.name}.` });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: createCertificationType,
+    onSuccess: (type) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/certification-types"] });
+      setFormOpen(false);
+      toast({ title: "Added to catalog", description: `${type.name} can now be chosen for certifications.` });
+    },
+    onError: onError("Failed to add the catalog entry."),
+  });
+
+  // Adds a typed-in entry to the catalog and links its certifications in one go
+  const addEntryMutation = useMutation({
+    mutationFn: async ({ data, entry }: { data: InsertCertificationType; entry: UnlistedEntry }) => {
+      const type = await createCertificationType(data);
+      const { merged } = await mergeIntoCatalog(type.id, { entries: [entry] });
+      return { type, merged };
+    },
+    onSuccess: ({ type, merged }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/certification-types"] });
+      setAddingEntry(null);
+      onMerged(merged, type);
+    },
+    onError: onError("Failed to add the catalog entry."),
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: ({ typeId, entry }: { typeId: string; entry: UnlistedEntry }) =>
+      mergeIntoCatalog(typeId, { entries: [entry] }),
+    onSuccess: ({ merged }, { typeId }) => {
+      setMergingEntry(null);
+      onMerged(merged, types.find((t) => t.id === typeId) ?? { name: "the catalog entry" });
+    },
+    onError: onError("Failed to merge the certifications."),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: (data: InsertCertificationType) => updateCertificationType(editingType!.id, data),
+    onSuccess: (type) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/certification-types"] });
+      setEditingType(null);
+      toast({ title: "Catalog entry updated", description: `${type.name} has been saved.` });
+    },
+    onError: onError("Failed to update the catalog entry."),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: deleteCertificationType,
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/certification-types"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/certifications"] });
+      setDeletingType(null);
+      toast({ title: "Catalog entry deleted", description: "Its certifications keep their names and dates." });
+    },
+    onError: onError("Failed to delete the catalog entry."),
+  });
+
+  const usageCount = (typeId: string) => certifications.filter((c) => c.typeId === typeId).length;
+  const unlisted = unlistedEntries(certifications);
+
+  if (isLoading) {
+    return (
+      <div className="p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <Skeleton className="h-8 w-48" />
+          <Skeleton className="h-10 w-32" />
+        </div>
+        <Skeleton className="h-96" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-semibold" data-testid="text-page-title">Certification Catalog</h1>
+          <p className="text-muted-foreground mt-1">
+            The credentials people pick from when adding certifications, with how long each lasts
+          </p>
+        </div>
+        <Button onClick={() => setFormOpen(true)} data-testid="button-add-type">
+          <Plus className="mr-2 h-4 w-4" />
+          Add to Catalog
+        </Button>
+      </div>
+
+      {types.length === 0 ? (
+        <EmptyState
+          icon={Layers}
+          title="The catalog is empty"
+          description="Add the credentials your organisation tracks so everyone names them the same way"
+          action={{ label: "Add to Catalog", onClick: () => setFormOpen(true) }}
+        />
+      ) : (
+        <div className="rounded-lg border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Credential</TableHead>
+                <TableHead>Level</TableHead>
+                <TableHead>Validity</TableHead>
+                <TableHead>Renewals Count</TableHead>
+                <TableHead>Certifications</TableHead>
+                <TableHead className="w-[50px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {types.map((type) => (
+                <TableRow key={type.id} data-testid={`row-type-${type.id}`}>
+                  <TableCell>
+                    <p className="font-medium" data-testid="text-type-name">{type.name}</p>
+                    {type.issuingOrganization && (
+                      <p className="text-sm text-muted-foreground">{type.issuingOrganization}</p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {type.level && <Badge variant="outline">{CATALOG_LEVEL_LABELS[type.level]}</Badge>}
+                      {type.category && <Badge variant="secondary">{type.category}</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    {type.validityMonths === null ? (
+                      <Badge variant="secondary">Does not expire</Badge>
+                    ) : (
+                      describeValidity(type.validityMonths)
+                    )}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {type.validityMonths === null ? "—" : RENEWAL_BASIS_LABELS[type.renewalBasis]}
+                  </TableCell>
+                  <TableCell>{usageCount(type.id)}</TableCell>
+                  <TableCell>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon" data-testid="button-type-actions">
+                          <MoreVertical className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem onClick={() => setEditingType(type)} data-testid="button-edit-type">
+                          <Pencil className="mr-2 h-4 w-4" />
+                          Edit
+                        </DropdownMenuItem>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem
+                          onClick={() => setDeletingType(type)}
+                          className="text-destructive focus:text-destructive"
+                          data-testid="button-delete-type"
+                        >
+                          <Trash2 className="mr-2 h-4 w-4" />
+                          Delete
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <div>
+          <h2 className="text-xl font-semibold">Typed-in Certifications</h2>
+          <p className="text-sm text-muted-foreground">
+            Certifications entered by hand rather than picked from the catalog. Merge them into an entry so they are
+            named and grouped consistently.
+          </p>
+        </div>
+        {unlisted.length === 0 ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-unlisted">
+            Every certification is linked to the catalog.
+          </p>
+        ) : (
+          <div className="rounded-lg border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Issuer</TableHead>
+                  <TableHead>Certifications</TableHead>
+                  <TableHead className="w-[50px]"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {unlisted.map((entry) => (
+                  <TableRow key={entry.certificationIds[0]} data-testid="row-unlisted-entry">
+                    <TableCell className="font-medium">{entry.name}</TableCell>
+                    <TableCell className="text-muted-foreground">{entry.issuingOrganization}</TableCell>
+                    <TableCell>{entry.certificationIds.length}</TableCell>
+                    <TableCell>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon" data-testid="button-unlisted-actions">
+                            <MoreVertical className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem
+                            onClick={() => setMergingEntry(entry)}
+                            disabled={types.length === 0}
+                            data-testid="button-merge-entry"
+                          >
+                            <GitMerge className="mr-2 h-4 w-4" />
+                            Merge into…
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => setAddingEntry(entry)} data-testid="button-add-entry">
+                            <Plus className="mr-2 h-4 w-4" />
+                            Add to Catalog
+                          </DropdownMenuItem>
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+
+      <CertificationTypeForm
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        onSubmit={(data) => createMutation.mutate(data)}
+        isLoading={createMutation.isPending}
+      />
+
+      <CertificationTypeForm
+        open={!!editingType}
+        onOpenChange={(open) => !open && setEditingType(null)}
+        onSubmit={(data) => updateMutation.mutate(data)}
+        type={editingType}
+        isLoading={updateMutation.isPending}
+      />
+
+      <CertificationTypeForm
+        open={!!addingEntry}
+        onOpenChange={(open) => !open && setAddingEntry(null)}
+        onSubmit={(data) => addingEntry && addEntryMutation.mutate({ data, entry: addingEntry })}
+        defaults={addingEntry ?? undefined}
+        isLoading={addEntryMutation.isPending}
+      />
+
+      <CatalogMergeDialog
+        entry={mergingEntry}
+        types={types}
+        onOpenChange={(open) => !open && setMergingEntry(null)}
+        onConfirm={(typeId) => mergingEntry && mergeMutation.mutate({ typeId, entry: mergingEntry })}
+        isLoading={mergeMutation.isPending}
+      />
+
+      <DeleteDialog
+        open={!!deletingType}
+        onOpenChange={(open) => !open && setDeletingType(null)}
+        onConfirm={() => deletingType && deleteMutation.mutate(deletingType.id)}
+        title="Delete Catalog Entry"
+        description={`Delete "${deletingType?.name}"? Its certifications keep their names and dates but will show up as typed-in and no longer have expiration dates proposed.`}
+        isLoading={deleteMutation.isPending}
+      />
+    </div>
+  );
+}
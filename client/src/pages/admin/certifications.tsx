@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { format, differenceInDays, parseISO } from "date-fns";
+import { format, parseISO } from "date-fns";
 import {
   Plus,
   Search,
@@ -10,12 +10,16 @@ import {
   Pencil,
   Trash2,
   RefreshCw,
-  Download,
+  History,
+  Upload,
+  ShieldCheck,
+  ShieldOff,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
   Table,
   TableBody,
@@ -40,41 +44,66 @@ import {
 } from "@/components/ui/select";
 import { CertificationForm } from "@/components/certification-form";
 import { DeleteDialog } from "@/components/delete-dialog";
+import { RenewalForm } from "@/components/renewal-form";
+import { RenewalHistory } from "@/components/renewal-history";
+import { ImportWizard } from "@/components/import-wizard";
+import { ExportMenu } from "@/components/export-menu";
 import { EmptyState } from "@/components/empty-state";
+import { VerificationQueue } from "@/components/verification-queue";
+import { useAuth } from "@/lib/auth-context";
+import { useCertificationStatus } from "@/hooks/use-certification-status";
+import { useLinkedCertification } from "@/hooks/use-linked-certification";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
-import { getAllCertifications, createCertification, updateCertification, deleteCertification } from "@/lib/localData";
-import { getAllUsers } from "@/lib/localAuth";
-import type { Certification, User } from "@shared/schema";
-
-type StatusFilter = "all" | "active" | "expiring" | "expired";
+import { apiRequest, getErrorMessage, queryClient } from "@/lib/queryClient";
+import {
+  createCertification,
+  updateCertification,
+  deleteCertification,
+  importCertifications,
+  renewCertification,
+  setVerification,
+} from "@/lib/api";
+import type {
+  Certification,
+  CertificationType,
+  RenewCertification,
+  User,
+  VerificationStatus,
+} from "@shared/schema";
+import { formatExpiration, isExpiring } from "@shared/status";
+import { matchesFilter, type StatusFilter } from "@shared/export";
+import { VERIFICATION_STATUS_LABELS, isVerified } from "@shared/verification";
 
 export default function AdminCertifications() {
+  const { user } = useAuth();
   const { toast } = useToast();
   const [search, setSearch] = useState("");
   const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
   const [formOpen, setFormOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
   const [editingCert, setEditingCert] = useState<Certification | null>(null);
   const [deletingCert, setDeletingCert] = useState<Certification | null>(null);
+  const [renewingCert, setRenewingCert] = useState<Certification | null>(null);
+  const [historyCert, setHistoryCert] = useState<Certification | null>(null);
+  const [tab, setTab] = useState("all");
+  const { statusOf } = useCertificationStatus();
 
   const { data: certifications = [], isLoading: certsLoading } = useQuery<Certification[]>({
     queryKey: ["/api/certifications"],
-    queryFn: async () => getAllCertifications(),
   });
 
   const { data: users = [] } = useQuery<User[]>({
     queryKey: ["/api/users"],
-    queryFn: async () => getAllUsers(),
   });
 
+  const { data: types = [] } = useQuery<CertificationType[]>({
+    queryKey: ["/api/certification-types"],
+  });
+  useLinkedCertification(certifications, setEditingCert);
+
   const createMutation = useMutation({
-    mutationFn: async (data: any) => {
-      return createCertification({
-        ...data,
-        issueDate: format(data.issueDate, "yyyy-MM-dd"),
-        expirationDate: format(data.expirationDate, "yyyy-MM-dd"),
-      });
-    },
+    // The form sends dates as YYYY-MM-DD strings already
+    mutationFn: (data: any) => createCertification(data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/certifications"] });
       setFormOpen(false);
@@ -83,23 +112,17 @@ export default function AdminCertifications() {
         description: "The certification has been added successfully.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to add certification.",
+        description: getErrorMessage(error, "Failed to add certification."),
         variant: "destructive",
       });
     },
   });
 
   const updateMutation = useMutation({
-    mutationFn: async (data: any) => {
-      return updateCertification(editingCert!.id, {
-        ...data,
-        issueDate: format(data.issueDate, "yyyy-MM-dd"),
-        expirationDate: format(data.expirationDate, "yyyy-MM-dd"),
-      });
-    },
+    mutationFn: (data: any) => updateCertification(editingCert!.id, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/certifications"] });
       setEditingCert(null);
@@ -108,10 +131,71 @@ export default function AdminCertifications() {
         description: "The certification has been updated successfully.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to update certification."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: ({ cert, status }: { cert: Certification; status: VerificationStatus }) =>
+      setVerification(cert.id, { status }),
+    onSuccess: (cert) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/certifications"] });
+      toast({
+        title: isVerified(cert) ? "Certification verified" : "Verification removed",
+        description: isVerified(cert)
+          ? `${cert.name} is marked as ${VERIFICATION_STATUS_LABELS[cert.verificationStatus].toLowerCase()}.`
+          : `${cert.name} is back in the verification queue.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to update the verification."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: importCertifications,
+    onSuccess: ({ imported, skipped }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/certifications"] });
+      setImportOpen(false);
+      toast({
+        title: "Import complete",
+        description:
+          `${imported} ${imported === 1 ? "certification was" : "certifications were"} added.` +
+          (skipped > 0 ? ` ${skipped} ${skipped === 1 ? "duplicate was" : "duplicates were"} skipped.` : ""),
+      });
+    },
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to update certification.",
+        description: getErrorMessage(error, "Failed to import certifications."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const renewMutation = useMutation({
+    mutationFn: (data: RenewCertification) => renewCertification(renewingCert!.id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/certifications"] });
+      setRenewingCert(null);
+      toast({
+        title: "Certification renewed",
+        description: "The new cycle has been recorded and the previous one kept in its history.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to record the renewal."),
         variant: "destructive",
       });
     },
@@ -129,53 +213,42 @@ export default function AdminCertifications() {
         description: "The certification has been deleted successfully.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to delete certification.",
+        description: getErrorMessage(error, "Failed to delete certification."),
         variant: "destructive",
       });
     },
   });
 
   const getStatusInfo = (cert: Certification) => {
-    const days = differenceInDays(parseISO(cert.expirationDate), new Date());
-    if (days < 0) {
-      return { label: "Expired", variant: "destructive" as const };
-    } else if (days <= 30) {
-      return { label: `${days}d left`, variant: "destructive" as const };
-    } else if (days <= 90) {
-      return { label: `${days}d left`, variant: "secondary" as const };
-    }
-    return { label: "Active", variant: "default" as const };
+    const info = statusOf(cert);
+    const label = isExpiring(info.status) && info.days !== null ? `${info.days}d left` : info.label;
+    return { label, variant: info.badgeVariant };
   };
 
-  const filteredCertifications = certifications.filter((cert) => {
-    const matchesSearch =
-      cert.name.toLowerCase().includes(search.toLowerCase()) ||
-      cert.issuingOrganization.toLowerCase().includes(search.toLowerCase()) ||
-      (cert.credentialId?.toLowerCase().includes(search.toLowerCase()) ?? false);
-
-    if (!matchesSearch) return false;
-
-    const days = differenceInDays(parseISO(cert.expirationDate), new Date());
-    switch (statusFilter) {
-      case "active":
-        return days > 90;
-      case "expiring":
-        return days > 0 && days <= 90;
-      case "expired":
-        return days < 0;
-      default:
-        return true;
-    }
-  });
+  const filteredCertifications = certifications.filter((cert) =>
+    matchesFilter(cert, { search, status: statusFilter }, statusOf(cert)),
+  );
 
   const getUserName = (userId: string) => {
     const user = users.find((u) => u.id === userId);
     return user?.fullName || "Unknown";
   };
 
+  const unverifiedCount = certifications.filter((cert) => !isVerified(cert)).length;
+
+  // Shown on hover over the verified mark
+  const describeVerification = (cert: Certification) =>
+    [
+      VERIFICATION_STATUS_LABELS[cert.verificationStatus],
+      cert.verifiedById && `by ${getUserName(cert.verifiedById)}`,
+      cert.verifiedAt && `on ${format(new Date(cert.verifiedAt), "MMM d, yyyy")}`,
+    ]
+      .filter(Boolean)
+      .join(" ");
+
   if (certsLoading) {
     return (
       <div className="p-6 space-y-6">
@@ -201,129 +274,191 @@ export default function AdminCertifications() {
             Manage all user certifications
           </p>
         </div>
-        <Button onClick={() => setFormOpen(true)} data-testid="button-add-certification">
-          <Plus className="mr-2 h-4 w-4" />
-          Add Certification
-        </Button>
-      </div>
-
-      <div className="flex flex-col sm:flex-row gap-4">
-        <div className="relative flex-1 max-w-sm">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-          <Input
-            placeholder="Search certifications..."
-            value={search}
-            onChange={(e) => setSearch(e.target.value)}
-            className="pl-9"
-            data-testid="input-search"
-          />
+        <div className="flex gap-2">
+          <ExportMenu certifications={filteredCertifications} users={users} />
+          <Button variant="outline" onClick={() => setImportOpen(true)} data-testid="button-import-certifications">
+            <Upload className="mr-2 h-4 w-4" />
+            Import
+          </Button>
+          <Button onClick={() => setFormOpen(true)} data-testid="button-add-certification">
+            <Plus className="mr-2 h-4 w-4" />
+            Add Certification
+          </Button>
         </div>
-        <Select value={statusFilter} onValueChange={(v) => setStatusFilter(v as StatusFilter)}>
-          <SelectTrigger className="w-[160px]" data-testid="select-status-filter">
-            <Filter className="mr-2 h-4 w-4" />
-            <SelectValue placeholder="Filter status" />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="all">All Status</SelectItem>
-            <SelectItem value="active">Active</SelectItem>
-            <SelectItem value="expiring">Expiring Soon</SelectItem>
-            <SelectItem value="expired">Expired</SelectItem>
-          </SelectContent>
-        </Select>
       </div>
 
-      {filteredCertifications.length === 0 ? (
-        <EmptyState
-          icon={Award}
-          title={search || statusFilter !== "all" ? "No results found" : "No certifications yet"}
-          description={
-            search || statusFilter !== "all"
-              ? "Try adjusting your search or filter criteria"
-              : "Add your first certification to get started"
-          }
-          action={
-            !search && statusFilter === "all"
-              ? {
-                  label: "Add Certification",
-                  onClick: () => setFormOpen(true),
-                }
-              : undefined
-          }
-        />
-      ) : (
-        <div className="rounded-lg border">
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>Certification</TableHead>
-                <TableHead>User</TableHead>
-                <TableHead>Issue Date</TableHead>
-                <TableHead>Expiration</TableHead>
-                <TableHead>Status</TableHead>
-                <TableHead className="w-[50px]"></TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {filteredCertifications.map((cert) => {
-                const status = getStatusInfo(cert);
-                return (
-                  <TableRow key={cert.id} data-testid={`row-cert-${cert.id}`}>
-                    <TableCell>
-                      <div className="flex items-center gap-3">
-                        <div className="flex h-9 w-9 items-center justify-center rounded-md bg-primary/10">
-                          <Award className="h-4 w-4 text-primary" />
-                        </div>
-                        <div>
-                          <p className="font-medium" data-testid="text-cert-name">{cert.name}</p>
-                          <p className="text-sm text-muted-foreground">
-                            {cert.issuingOrganization}
-                          </p>
-                        </div>
-                      </div>
-                    </TableCell>
-                    <TableCell data-testid="text-cert-user">{getUserName(cert.userId)}</TableCell>
-                    <TableCell data-testid="text-cert-issue-date">
-                      {format(parseISO(cert.issueDate), "MMM d, yyyy")}
-                    </TableCell>
-                    <TableCell data-testid="text-cert-expiration">
-                      {format(parseISO(cert.expirationDate), "MMM d, yyyy")}
-                    </TableCell>
-                    <TableCell>
-                      <Badge variant={status.variant} data-testid="badge-cert-status">
-                        {status.label}
-                      </Badge>
-                    </TableCell>
-                    <TableCell>
-                      <DropdownMenu>
-                        <DropdownMenuTrigger asChild>
-                          <Button variant="ghost" size="icon" data-testid="button-cert-actions">
-                            <MoreVertical className="h-4 w-4" />
-                          </Button>
-                        </DropdownMenuTrigger>
-                        <DropdownMenuContent align="end">
-                          <DropdownMenuItem onClick={() => setEditingCert(cert)} data-testid="button-edit">
-                            <Pencil className="mr-2 h-4 w-4" />
-                            Edit
-                          </DropdownMenuItem>
-                          <DropdownMenuSeparator />
-                          <DropdownMenuItem
-                            onClick={() => setDeletingCert(cert)}
-                            className="text-destructive focus:text-destructive"
-                            data-testid="button-delete"
-                          >
-                            <Trash2 className="mr-2 h-4 w-4" />
-                            Delete
-                          </DropdownMenuItem>
-                        </DropdownMenuContent>
-                      </DropdownMenu>
-                    </TableCell>
+      <Tabs value={tab} onValueChange={setTab}>
+        <TabsList>
+          <TabsTrigger value="all" data-testid="tab-all-certifications">All</TabsTrigger>
+          <TabsTrigger value="verification" data-testid="tab-verification-queue">
+            Verification Queue
+            {unverifiedCount > 0 && (
+              <Badge variant="secondary" className="ml-2">
+                {unverifiedCount}
+              </Badge>
+            )}
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="all" className="mt-6 space-y-6">
+          <div className="flex flex-col sm:flex-row gap-4">
+            <div className="relative flex-1 max-w-sm">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Search certifications..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-9"
+                data-testid="input-search"
+              />
+            </div>
+            <Select value={statusFilter} onValueChange={(v) => setStatusFilter(v as StatusFilter)}>
+              <SelectTrigger className="w-[160px]" data-testid="select-status-filter">
+                <Filter className="mr-2 h-4 w-4" />
+                <SelectValue placeholder="Filter status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All Status</SelectItem>
+                <SelectItem value="active">Active</SelectItem>
+                <SelectItem value="expiring">Expiring Soon</SelectItem>
+                <SelectItem value="expired">Expired</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {filteredCertifications.length === 0 ? (
+            <EmptyState
+              icon={Award}
+              title={search || statusFilter !== "all" ? "No results found" : "No certifications yet"}
+              description={
+                search || statusFilter !== "all"
+                  ? "Try adjusting your search or filter criteria"
+                  : "Add your first certification to get started"
+              }
+              action={
+                !search && statusFilter === "all"
+                  ? {
+                      label: "Add Certification",
+                      onClick: () => setFormOpen(true),
+                    }
+                  : undefined
+              }
+            />
+          ) : (
+            <div className="rounded-lg border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Certification</TableHead>
+                    <TableHead>User</TableHead>
+                    <TableHead>Issue Date</TableHead>
+                    <TableHead>Expiration</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="w-[50px]"></TableHead>
                   </TableRow>
-                );
-              })}
-            </TableBody>
-          </Table>
-        </div>
-      )}
+                </TableHeader>
+                <TableBody>
+                  {filteredCertifications.map((cert) => {
+                    const status = getStatusInfo(cert);
+                    return (
+                      <TableRow key={cert.id} data-testid={`row-cert-${cert.id}`}>
+                        <TableCell>
+                          <div className="flex items-center gap-3">
+                            <div className="flex h-9 w-9 items-center justify-center rounded-md bg-primary/10">
+                              <Award className="h-4 w-4 text-primary" />
+                            </div>
+                            <div>
+                              <p className="font-medium" data-testid="text-cert-name">{cert.name}</p>
+                              <p className="text-sm text-muted-foreground">
+                                {cert.issuingOrganization}
+                              </p>
+                            </div>
+                          </div>
+                        </TableCell>
+                        <TableCell data-testid="text-cert-user">{getUserName(cert.userId)}</TableCell>
+                        <TableCell data-testid="text-cert-issue-date">
+                          {format(parseISO(cert.issueDate), "MMM d, yyyy")}
+                        </TableCell>
+                        <TableCell data-testid="text-cert-expiration">
+                          {formatExpiration(cert.expirationDate)}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <Badge variant={status.variant} data-testid="badge-cert-status">
+                              {status.label}
+                            </Badge>
+                            {isVerified(cert) && (
+                              <span title={describeVerification(cert)} data-testid="icon-cert-verified">
+                                <ShieldCheck className="h-4 w-4 text-primary" />
+                              </span>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                              <Button variant="ghost" size="icon" data-testid="button-cert-actions">
+                                <MoreVertical className="h-4 w-4" />
+                              </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end">
+                              <DropdownMenuItem onClick={() => setEditingCert(cert)} data-testid="button-edit">
+                                <Pencil className="mr-2 h-4 w-4" />
+                                Edit
+                              </DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => setRenewingCert(cert)} data-testid="button-renew">
+                                <RefreshCw className="mr-2 h-4 w-4" />
+                                Renew
+                              </DropdownMenuItem>
+                              <DropdownMenuItem onClick={() => setHistoryCert(cert)} data-testid="button-history">
+                                <History className="mr-2 h-4 w-4" />
+                                Renewal History
+                              </DropdownMenuItem>
+                              {isVerified(cert) ? (
+                                <DropdownMenuItem
+                                  onClick={() => verifyMutation.mutate({ cert, status: "unverified" })}
+                                  data-testid="button-unverify"
+                                >
+                                  <ShieldOff className="mr-2 h-4 w-4" />
+                                  Mark Unverified
+                                </DropdownMenuItem>
+                              ) : (
+                                <DropdownMenuItem onClick={() => verifyMutation.mutate({ cert, status: "admin" })} data-testid="button-verify">
+                                  <ShieldCheck className="mr-2 h-4 w-4" />
+                                  Mark Verified
+                                </DropdownMenuItem>
+                              )}
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem
+                                onClick={() => setDeletingCert(cert)}
+                                className="text-destructive focus:text-destructive"
+                                data-testid="button-delete"
+                              >
+                                <Trash2 className="mr-2 h-4 w-4" />
+                                Delete
+                              </DropdownMenuItem>
+                            </DropdownMenuContent>
+                          </DropdownMenu>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </TabsContent>
+
+        <TabsContent value="verification" className="mt-6">
+          <VerificationQueue
+            certifications={certifications}
+            types={types}
+            users={users}
+            onVerify={(cert, status) => verifyMutation.mutate({ cert, status })}
+            isLoading={verifyMutation.isPending}
+          />
+        </TabsContent>
+      </Tabs>
 
       <CertificationForm
         open={formOpen}
@@ -332,6 +467,7 @@ export default function AdminCertifications() {
         isLoading={createMutation.isPending}
         isAdmin={true}
         users={users.filter((u) => u.role === "user")}
+        existing={certifications}
       />
 
       <CertificationForm
@@ -344,6 +480,29 @@ export default function AdminCertifications() {
         users={users.filter((u) => u.role === "user")}
       />
 
+      <ImportWizard
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        onSubmit={(rows) => importMutation.mutate(rows)}
+        isLoading={importMutation.isPending}
+        isAdmin={true}
+        users={users}
+        currentUserId={user?.id}
+        existing={certifications}
+      />
+
+      <RenewalForm
+        certification={renewingCert}
+        onOpenChange={(open) => !open && setRenewingCert(null)}
+        onSubmit={(data) => renewMutation.mutate(data)}
+        isLoading={renewMutation.isPending}
+      />
+
+      <RenewalHistory
+        certification={historyCert}
+        onOpenChange={(open) => !open && setHistoryCert(null)}
+      />
+
       <DeleteDialog
         open={!!deletingCert}
         onOpenChange={(open) => !open && setDeletingCert(null)}
@@ -1,7 +1,5 @@
 import { useQuery } from "@tanstack/react-query";
-import { getAllCertifications } from "@/lib/localData";
-import { getAllUsers } from "@/lib/localAuth";
-import { format, differenceInDays, parseISO } from "date-fns";
+import { format, parseISO } from "date-fns";
 import {
   Award,
   Users,
@@ -16,45 +14,36 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { StatsCard } from "@/components/stats-card";
 import { CertificationCard } from "@/components/certification-card";
+import { useCertificationStatus } from "@/hooks/use-certification-status";
 import { Link } from "wouter";
 import type { Certification, User } from "@shared/schema";
+import { byExpiration, describeDaysLeft, isExpiring } from "@shared/status";
 
 export default function AdminDashboard() {
   const { data: certifications = [], isLoading: certsLoading } = useQuery<Certification[]>({
     queryKey: ["/api/certifications"],
-    queryFn: async () => getAllCertifications(),
   });
 
   const { data: users = [], isLoading: usersLoading } = useQuery<User[]>({
     queryKey: ["/api/users"],
-    queryFn: async () => getAllUsers(),
   });
 
+  const { thresholds, statusOf, countStatuses } = useCertificationStatus();
+
   const isLoading = certsLoading || usersLoading;
 
+  const counts = countStatuses(certifications);
   const stats = {
     total: certifications.length,
-    active: certifications.filter((c) => {
-      const days = differenceInDays(parseISO(c.expirationDate), new Date());
-      return days > 90;
-    }).length,
-    expiringSoon: certifications.filter((c) => {
-      const days = differenceInDays(parseISO(c.expirationDate), new Date());
-      return days > 0 && days <= 90;
-    }).length,
-    expired: certifications.filter((c) => {
-      const days = differenceInDays(parseISO(c.expirationDate), new Date());
-      return days < 0;
-    }).length,
+    active: counts.active,
+    expiringSoon: counts.critical + counts.warning + counts.soon,
+    expired: counts.expired,
     users: users.filter((u) => u.role === "user").length,
   };
 
   const expiringCertifications = certifications
-    .filter((c) => {
-      const days = differenceInDays(parseISO(c.expirationDate), new Date());
-      return days > 0 && days <= 30;
-    })
-    .sort((a, b) => parseISO(a.expirationDate).getTime() - parseISO(b.expirationDate).getTime())
+    .filter((c) => statusOf(c).status === "critical")
+    .sort(byExpiration)
     .slice(0, 5);
 
   const recentCertifications = [...certifications]
@@ -117,7 +106,7 @@ export default function AdminDashboard() {
         <StatsCard
           title="Expiring Soon"
           value={stats.expiringSoon}
-          description="Within 90 days"
+          description={`Within ${thresholds.soonDays} days`}
           icon={Clock}
           variant="warning"
         />
@@ -133,7 +122,7 @@ export default function AdminDashboard() {
         <Card>
           <CardHeader className="flex flex-row items-center justify-between gap-2 space-y-0 pb-4">
             <CardTitle className="text-lg font-semibold">
-              Expiring Within 30 Days
+              Expiring Within {thresholds.criticalDays} Days
             </CardTitle>
             <Badge variant="destructive" data-testid="badge-expiring-count">
               {expiringCertifications.length}
@@ -152,7 +141,7 @@ export default function AdminDashboard() {
             ) : (
               <div className="space-y-3">
                 {expiringCertifications.map((cert) => {
-                  const days = differenceInDays(parseISO(cert.expirationDate), new Date());
+                  const { days } = statusOf(cert);
                   const user = users.find((u) => u.id === cert.userId);
                   return (
                     <div
@@ -172,7 +161,7 @@ export default function AdminDashboard() {
                         </div>
                       </div>
                       <Badge variant="destructive" className="shrink-0">
-                        {days} days
+                        {describeDaysLeft(days)}
                       </Badge>
                     </div>
                   );
@@ -259,10 +248,7 @@ export default function AdminDashboard() {
                 .slice(0, 6)
                 .map((user) => {
                   const userCerts = certifications.filter((c) => c.userId === user.id);
-                  const expiringCount = userCerts.filter((c) => {
-                    const days = differenceInDays(parseISO(c.expirationDate), new Date());
-                    return days > 0 && days <= 90;
-                  }).length;
+                  const expiringCount = userCerts.filter((c) => isExpiring(statusOf(c).status)).length;
                   return (
                     <div
                       key={user.id}
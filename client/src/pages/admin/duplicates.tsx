@@ -0,0 +1,190 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { CopyCheck, GitMerge, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { EmptyState } from "@/components/empty-state";
+import { useToast } from "@/hooks/use-toast";
+import { getErrorMessage, queryClient } from "@/lib/queryClient";
+import { mergeCertifications } from "@/lib/api";
+import type { Certification, User } from "@shared/schema";
+import {
+  DUPLICATE_REASON_LABELS,
+  findDuplicateGroups,
+  suggestPrimary,
+  type DuplicateGroup,
+} from "@shared/duplicates";
+
+const groupKey = (group: DuplicateGroup) => group.certifications[0].id;
+
+export default function AdminDuplicates() {
+  const { toast } = useToast();
+  // The record each group keeps, once the admin has picked a different one
+  const [chosen, setChosen] = useState<Record<string, string>>({});
+  const [merging, setMerging] = useState<DuplicateGroup | null>(null);
+
+  const { data: certifications = [], isLoading } = useQuery<Certification[]>({
+    queryKey: ["/api/certifications"],
+  });
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const groups = findDuplicateGroups(certifications);
+  const primaryOf = (group: DuplicateGroup) =>
+    group.certifications.find((c) => c.id === chosen[groupKey(group)]) ?? suggestPrimary(group.certifications);
+  const mergingPrimary = merging && primaryOf(merging);
+  const mergingCount = (merging?.certifications.length ?? 1) - 1;
+  const getUserName = (id: string) => users.find((u) => u.id === id)?.fullName ?? "Unknown user";
+
+  const mergeMutation = useMutation({
+    mutationFn: (group: DuplicateGroup) => {
+      const primary = primaryOf(group);
+      return mergeCertifications({
+        primaryId: primary.id,
+        duplicateIds: group.certifications.filter((c) => c.id !== primary.id).map((c) => c.id),
+      });
+    },
+    onSuccess: (cert) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/certifications"] });
+      setMerging(null);
+      toast({ title: "Duplicates merged", description: `${cert.name} now holds their history and documents.` });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to merge the certifications."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="p-6 space-y-6">
+        <Skeleton className="h-8 w-48" />
+        <Skeleton className="h-64" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-semibold" data-testid="text-page-title">Duplicates</h1>
+        <p className="text-muted-foreground mt-1">
+          Certifications that look like the same credential recorded twice for one person
+        </p>
+      </div>
+
+      {groups.length === 0 ? (
+        <EmptyState
+          icon={CopyCheck}
+          title="No duplicates found"
+          description="Every certification is recorded once per person"
+        />
+      ) : (
+        groups.map((group) => {
+          const primary = primaryOf(group);
+          return (
+            <Card key={groupKey(group)} data-testid={`card-duplicates-${groupKey(group)}`}>
+              <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                <div className="space-y-1">
+                  <CardTitle className="text-lg">{getUserName(primary.userId)}</CardTitle>
+                  <Badge variant="secondary">{DUPLICATE_REASON_LABELS[group.reason]}</Badge>
+                </div>
+                <Button size="sm" onClick={() => setMerging(group)} data-testid="button-merge-duplicates">
+                  <GitMerge className="mr-2 h-4 w-4" />
+                  Merge {group.certifications.length} Records
+                </Button>
+              </CardHeader>
+              <CardContent>
+                <RadioGroup
+                  value={primary.id}
+                  onValueChange={(id) => setChosen((current) => ({ ...current, [groupKey(group)]: id }))}
+                >
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="w-[60px]">Keep</TableHead>
+                        <TableHead>Certification</TableHead>
+                        <TableHead>Credential ID</TableHead>
+                        <TableHead>Dates</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {group.certifications.map((cert) => (
+                        <TableRow key={cert.id}>
+                          <TableCell>
+                            <RadioGroupItem value={cert.id} aria-label={`Keep ${cert.name}`} data-testid={`radio-keep-${cert.id}`} />
+                          </TableCell>
+                          <TableCell>
+                            <p className="font-medium">{cert.name}</p>
+                            <p className="text-sm text-muted-foreground">{cert.issuingOrganization}</p>
+                          </TableCell>
+                          <TableCell className="font-mono text-sm">{cert.credentialId || "—"}</TableCell>
+                          <TableCell className="text-sm whitespace-nowrap">
+                            {cert.issueDate} → {cert.expirationDate ?? "No expiry"}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </RadioGroup>
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+
+      <AlertDialog open={!!merging} onOpenChange={(open) => !open && setMerging(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Merge Duplicates</AlertDialogTitle>
+            <AlertDialogDescription>
+              {mergingPrimary && (
+                <>
+                  "{mergingPrimary.name}" issued {mergingPrimary.issueDate} is kept, taking the latest dates in the
+                  group and with any blank fields filled in from the others. Earlier dates are kept as its renewal
+                  history, their own history and documents move onto it, and the other{" "}
+                  {mergingCount === 1 ? "record is" : `${mergingCount} records are`} deleted.
+                </>
+              )}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={mergeMutation.isPending}>Cancel</AlertDialogCancel>
+            <Button
+              onClick={() => merging && mergeMutation.mutate(merging)}
+              disabled={mergeMutation.isPending}
+              data-testid="button-confirm-merge-duplicates"
+            >
+              {mergeMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Merge
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
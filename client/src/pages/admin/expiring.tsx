@@ -1,5 +1,5 @@
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { format, differenceInDays, parseISO } from "date-fns";
+import { format, formatDistanceToNow, parseISO } from "date-fns";
 import { useState } from "react";
 import {
   AlertTriangle,
@@ -8,11 +8,21 @@ import {
   RefreshCw,
   Mail,
   Filter,
+  Loader2,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
 import {
   Select,
   SelectContent,
@@ -21,50 +31,93 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { EmptyState } from "@/components/empty-state";
-import { CertificationForm } from "@/components/certification-form";
+import { RenewalForm } from "@/components/renewal-form";
+import { STATUS_ICONS } from "@/components/certification-card";
+import { useCertificationStatus } from "@/hooks/use-certification-status";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
-import { getAllCertifications, updateCertification } from "@/lib/localData";
-import { getAllUsers } from "@/lib/localAuth";
-import type { Certification, User } from "@shared/schema";
+import { getErrorMessage, isLocalMode, queryClient } from "@/lib/queryClient";
+import { renewCertification, sendBulkReminders, sendReminder } from "@/lib/api";
+import type { Certification, LastReminder, RenewCertification, User } from "@shared/schema";
+import { byExpiration, describeDaysLeft, formatExpiration, isExpiring } from "@shared/status";
 
-type TimeFilter = "30" | "60" | "90" | "expired" | "all";
+// Each threshold filter includes everything that expires sooner
+type TimeFilter = "critical" | "warning" | "soon" | "expired" | "all";
 
 export default function AdminExpiring() {
   const { toast } = useToast();
   const [timeFilter, setTimeFilter] = useState<TimeFilter>("all");
-  const [editingCert, setEditingCert] = useState<Certification | null>(null);
+  const [renewingCert, setRenewingCert] = useState<Certification | null>(null);
+  const [confirmBulkOpen, setConfirmBulkOpen] = useState(false);
+  const { thresholds, statusOf, countStatuses } = useCertificationStatus();
 
   const { data: certifications = [], isLoading: certsLoading } = useQuery<Certification[]>({
     queryKey: ["/api/certifications"],
-    queryFn: async () => getAllCertifications(),
   });
 
   const { data: users = [] } = useQuery<User[]>({
     queryKey: ["/api/users"],
-    queryFn: async () => getAllUsers(),
   });
 
-  const updateMutation = useMutation({
-    mutationFn: async (data: any) => {
-      return updateCertification(editingCert!.id, {
-        ...data,
-        issueDate: format(data.issueDate, "yyyy-MM-dd"),
-        expirationDate: format(data.expirationDate, "yyyy-MM-dd"),
+  // Reminders need the server's mailer, so offline mode hides the actions
+  const { data: lastReminders = [] } = useQuery<LastReminder[]>({
+    queryKey: ["/api/reminders/latest"],
+    enabled: !isLocalMode,
+  });
+
+  const reminderMutation = useMutation({
+    mutationFn: (cert: Certification) => sendReminder(cert.id),
+    onSuccess: (_reminder, cert) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reminders/latest"] });
+      toast({
+        title: "Reminder sent",
+        description: `${getUserName(cert.userId)} has been emailed about ${cert.name}.`,
       });
     },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to send the reminder."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const bulkReminderMutation = useMutation({
+    mutationFn: (certs: Certification[]) => sendBulkReminders(certs.map((cert) => cert.id)),
+    onSuccess: ({ sent, failed }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reminders/latest"] });
+      setConfirmBulkOpen(false);
+      toast({
+        title: "Reminders sent",
+        description:
+          `Sent ${sent} reminder${sent === 1 ? "" : "s"}.` +
+          (failed > 0 ? ` ${failed} could not be sent.` : ""),
+        variant: failed > 0 && sent === 0 ? "destructive" : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to send reminders."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const renewMutation = useMutation({
+    mutationFn: (data: RenewCertification) => renewCertification(renewingCert!.id, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/certifications"] });
-      setEditingCert(null);
+      setRenewingCert(null);
       toast({
         title: "Certification renewed",
-        description: "The certification has been updated successfully.",
+        description: "The new cycle has been recorded and the previous one kept in its history.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to update certification.",
+        description: getErrorMessage(error, "Failed to record the renewal."),
         variant: "destructive",
       });
     },
@@ -72,21 +125,21 @@ export default function AdminExpiring() {
 
   const getExpiringCerts = () => {
     return certifications.filter((cert) => {
-      const days = differenceInDays(parseISO(cert.expirationDate), new Date());
+      const { status } = statusOf(cert);
 
       switch (timeFilter) {
-        case "30":
-          return days > 0 && days <= 30;
-        case "60":
-          return days > 0 && days <= 60;
-        case "90":
-          return days > 0 && days <= 90;
+        case "critical":
+          return status === "critical";
+        case "warning":
+          return status === "critical" || status === "warning";
+        case "soon":
+          return isExpiring(status);
         case "expired":
-          return days < 0;
+          return status === "expired";
         default:
-          return days <= 90;
+          return status !== "active";
       }
-    }).sort((a, b) => parseISO(a.expirationDate).getTime() - parseISO(b.expirationDate).getTime());
+    }).sort(byExpiration);
   };
 
   const expiringCerts = getExpiringCerts();
@@ -101,60 +154,11 @@ export default function AdminExpiring() {
     return user?.email || "";
   };
 
-  const getStatusInfo = (days: number) => {
-    if (days < 0) {
-      return {
-        icon: XCircle,
-        label: `Expired ${Math.abs(days)} days ago`,
-        variant: "destructive" as const,
-        color: "text-destructive",
-        bg: "bg-destructive/10",
-      };
-    } else if (days <= 30) {
-      return {
-        icon: AlertTriangle,
-        label: `${days} days remaining`,
-        variant: "destructive" as const,
-        color: "text-destructive",
-        bg: "bg-destructive/10",
-      };
-    } else if (days <= 60) {
-      return {
-        icon: Clock,
-        label: `${days} days remaining`,
-        variant: "secondary" as const,
-        color: "text-yellow-600 dark:text-yellow-500",
-        bg: "bg-yellow-500/10",
-      };
-    } else {
-      return {
-        icon: Clock,
-        label: `${days} days remaining`,
-        variant: "secondary" as const,
-        color: "text-muted-foreground",
-        bg: "bg-muted",
-      };
-    }
+  const getLastReminder = (certId: string) => {
+    return lastReminders.find((reminder) => reminder.certificationId === certId);
   };
 
-  const stats = {
-    within30: certifications.filter((c) => {
-      const days = differenceInDays(parseISO(c.expirationDate), new Date());
-      return days > 0 && days <= 30;
-    }).length,
-    within60: certifications.filter((c) => {
-      const days = differenceInDays(parseISO(c.expirationDate), new Date());
-      return days > 30 && days <= 60;
-    }).length,
-    within90: certifications.filter((c) => {
-      const days = differenceInDays(parseISO(c.expirationDate), new Date());
-      return days > 60 && days <= 90;
-    }).length,
-    expired: certifications.filter((c) => {
-      const days = differenceInDays(parseISO(c.expirationDate), new Date());
-      return days < 0;
-    }).length,
-  };
+  const stats = countStatuses(certifications);
 
   if (certsLoading) {
     return (
@@ -184,36 +188,40 @@ export default function AdminExpiring() {
       </div>
 
       <div className="grid gap-4 md:grid-cols-4">
-        <Card className={timeFilter === "30" ? "ring-2 ring-primary" : ""}>
-          <CardContent className="p-4 cursor-pointer" onClick={() => setTimeFilter("30")}>
+        <Card className={timeFilter === "critical" ? "ring-2 ring-primary" : ""}>
+          <CardContent className="p-4 cursor-pointer" onClick={() => setTimeFilter("critical")}>
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm text-muted-foreground">Within 30 Days</p>
-                <p className="text-2xl font-bold text-destructive" data-testid="text-30-days">{stats.within30}</p>
+                <p className="text-sm text-muted-foreground">Within {thresholds.criticalDays} Days</p>
+                <p className="text-2xl font-bold text-destructive" data-testid="text-30-days">{stats.critical}</p>
               </div>
               <AlertTriangle className="h-8 w-8 text-destructive/30" />
             </div>
           </CardContent>
         </Card>
-        <Card className={timeFilter === "60" ? "ring-2 ring-primary" : ""}>
-          <CardContent className="p-4 cursor-pointer" onClick={() => setTimeFilter("60")}>
+        <Card className={timeFilter === "warning" ? "ring-2 ring-primary" : ""}>
+          <CardContent className="p-4 cursor-pointer" onClick={() => setTimeFilter("warning")}>
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm text-muted-foreground">31-60 Days</p>
+                <p className="text-sm text-muted-foreground">
+                  {thresholds.criticalDays + 1}-{thresholds.warningDays} Days
+                </p>
                 <p className="text-2xl font-bold text-yellow-600 dark:text-yellow-500" data-testid="text-60-days">
-                  {stats.within60}
+                  {stats.warning}
                 </p>
               </div>
               <Clock className="h-8 w-8 text-yellow-500/30" />
             </div>
           </CardContent>
         </Card>
-        <Card className={timeFilter === "90" ? "ring-2 ring-primary" : ""}>
-          <CardContent className="p-4 cursor-pointer" onClick={() => setTimeFilter("90")}>
+        <Card className={timeFilter === "soon" ? "ring-2 ring-primary" : ""}>
+          <CardContent className="p-4 cursor-pointer" onClick={() => setTimeFilter("soon")}>
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm text-muted-foreground">61-90 Days</p>
-                <p className="text-2xl font-bold" data-testid="text-90-days">{stats.within90}</p>
+                <p className="text-sm text-muted-foreground">
+                  {thresholds.warningDays + 1}-{thresholds.soonDays} Days
+                </p>
+                <p className="text-2xl font-bold" data-testid="text-90-days">{stats.soon}</p>
               </div>
               <Clock className="h-8 w-8 text-muted-foreground/30" />
             </div>
@@ -240,12 +248,22 @@ export default function AdminExpiring() {
           </SelectTrigger>
           <SelectContent>
             <SelectItem value="all">All Expiring/Expired</SelectItem>
-            <SelectItem value="30">Within 30 Days</SelectItem>
-            <SelectItem value="60">Within 60 Days</SelectItem>
-            <SelectItem value="90">Within 90 Days</SelectItem>
+            <SelectItem value="critical">Within {thresholds.criticalDays} Days</SelectItem>
+            <SelectItem value="warning">Within {thresholds.warningDays} Days</SelectItem>
+            <SelectItem value="soon">Within {thresholds.soonDays} Days</SelectItem>
             <SelectItem value="expired">Expired Only</SelectItem>
           </SelectContent>
         </Select>
+        {!isLocalMode && expiringCerts.length > 0 && (
+          <Button
+            variant="outline"
+            onClick={() => setConfirmBulkOpen(true)}
+            data-testid="button-remind-all"
+          >
+            <Mail className="mr-2 h-4 w-4" />
+            Remind all ({expiringCerts.length})
+          </Button>
+        )}
       </div>
 
       {expiringCerts.length === 0 ? (
@@ -261,17 +279,17 @@ export default function AdminExpiring() {
       ) : (
         <div className="space-y-3">
           {expiringCerts.map((cert) => {
-            const days = differenceInDays(parseISO(cert.expirationDate), new Date());
-            const status = getStatusInfo(days);
-            const StatusIcon = status.icon;
+            const status = statusOf(cert);
+            const StatusIcon = STATUS_ICONS[status.status];
+            const lastReminder = getLastReminder(cert.id);
 
             return (
               <Card key={cert.id} data-testid={`card-expiring-${cert.id}`}>
                 <CardContent className="p-4">
                   <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
                     <div className="flex items-start gap-4">
-                      <div className={`flex h-12 w-12 items-center justify-center rounded-lg ${status.bg}`}>
-                        <StatusIcon className={`h-6 w-6 ${status.color}`} />
+                      <div className={`flex h-12 w-12 items-center justify-center rounded-lg ${status.bgClass}`}>
+                        <StatusIcon className={`h-6 w-6 ${status.textClass}`} />
                       </div>
                       <div>
                         <h3 className="font-semibold" data-testid="text-cert-name">{cert.name}</h3>
@@ -282,20 +300,39 @@ export default function AdminExpiring() {
                           <span className="text-muted-foreground" data-testid="text-cert-user">
                             {getUserName(cert.userId)}
                           </span>
-                          <span className={status.color} data-testid="text-days-remaining">
-                            {status.label}
+                          <span className={status.textClass} data-testid="text-days-remaining">
+                            {describeDaysLeft(status.days)}
                           </span>
                         </div>
+                        {lastReminder && (
+                          <p className="mt-1 text-xs text-muted-foreground" data-testid="text-last-reminded">
+                            Last reminded {formatDistanceToNow(new Date(lastReminder.sentAt), { addSuffix: true })}
+                            {" by "}
+                            {lastReminder.sentByName ?? "the reminder schedule"}
+                          </p>
+                        )}
                       </div>
                     </div>
                     <div className="flex items-center gap-2 sm:gap-3">
-                      <Badge variant={status.variant} data-testid="badge-expiration-date">
-                        {format(parseISO(cert.expirationDate), "MMM d, yyyy")}
+                      <Badge variant={status.badgeVariant} data-testid="badge-expiration-date">
+                        {formatExpiration(cert.expirationDate)}
                       </Badge>
+                      {!isLocalMode && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => reminderMutation.mutate(cert)}
+                          disabled={reminderMutation.isPending && reminderMutation.variables?.id === cert.id}
+                          data-testid="button-send-reminder"
+                        >
+                          <Mail className="mr-2 h-4 w-4" />
+                          Send reminder
+                        </Button>
+                      )}
                       <Button
                         variant="outline"
                         size="sm"
-                        onClick={() => setEditingCert(cert)}
+                        onClick={() => setRenewingCert(cert)}
                         data-testid="button-renew"
                       >
                         <RefreshCw className="mr-2 h-4 w-4" />
@@ -310,14 +347,36 @@ export default function AdminExpiring() {
         </div>
       )}
 
-      <CertificationForm
-        open={!!editingCert}
-        onOpenChange={(open) => !open && setEditingCert(null)}
-        onSubmit={(data) => updateMutation.mutate(data)}
-        certification={editingCert}
-        isLoading={updateMutation.isPending}
-        isAdmin={true}
-        users={users.filter((u) => u.role === "user")}
+      <AlertDialog open={confirmBulkOpen} onOpenChange={setConfirmBulkOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remind all owners?</AlertDialogTitle>
+            <AlertDialogDescription>
+              An email will go to the owner of each of the {expiringCerts.length} certification
+              {expiringCerts.length === 1 ? "" : "s"} in this view, including any reminded recently.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={bulkReminderMutation.isPending} data-testid="button-cancel-remind-all">
+              Cancel
+            </AlertDialogCancel>
+            <Button
+              onClick={() => bulkReminderMutation.mutate(expiringCerts)}
+              disabled={bulkReminderMutation.isPending}
+              data-testid="button-confirm-remind-all"
+            >
+              {bulkReminderMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Send {expiringCerts.length} reminder{expiringCerts.length === 1 ? "" : "s"}
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <RenewalForm
+        certification={renewingCert}
+        onOpenChange={(open) => !open && setRenewingCert(null)}
+        onSubmit={(data) => renewMutation.mutate(data)}
+        isLoading={renewMutation.isPending}
       />
     </div>
   );
@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, parseISO, startOfToday } from "date-fns";
+import { CalendarIcon, FileSearch } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { EmptyState } from "@/components/empty-state";
+import type { User } from "@shared/schema";
+import type { CertifiedOnEntry } from "@shared/renewals";
+import { formatExpiration } from "@shared/status";
+
+const ALL_USERS = "all";
+
+const formatDate = (date: string) => format(parseISO(date), "MMM d, yyyy");
+
+export default function AdminReports() {
+  const [date, setDate] = useState<Date>(startOfToday());
+  const [userId, setUserId] = useState(ALL_USERS);
+  const isoDate = format(date, "yyyy-MM-dd");
+
+  const { data: users = [] } = useQuery<User[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const { data: entries = [], isLoading } = useQuery<CertifiedOnEntry[]>({
+    queryKey: ["/api/reports/certified-on", isoDate],
+  });
+
+  const getUserName = (id: string) => users.find((u) => u.id === id)?.fullName || "Unknown";
+
+  const rows = entries
+    .filter((entry) => userId === ALL_USERS || entry.userId === userId)
+    .sort((a, b) => getUserName(a.userId).localeCompare(getUserName(b.userId)) || a.name.localeCompare(b.name));
+  const selectedUser = users.find((u) => u.id === userId);
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-semibold" data-testid="text-page-title">Reports</h1>
+        <p className="text-muted-foreground mt-1">
+          Check who held which certifications on a given day, including renewed cycles
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Certified on a date</CardTitle>
+          <CardDescription>
+            A certification counts if the date falls between the issue and expiration dates of any of its cycles.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col sm:flex-row gap-4">
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant="outline" className="w-[220px] pl-3 text-left font-normal" data-testid="button-report-date">
+                {format(date, "PPP")}
+                <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-auto p-0" align="start">
+              <Calendar
+                mode="single"
+                selected={date}
+                onSelect={(day) => day && setDate(day)}
+                defaultMonth={date}
+                initialFocus
+              />
+            </PopoverContent>
+          </Popover>
+          <Select value={userId} onValueChange={setUserId}>
+            <SelectTrigger className="w-[220px]" data-testid="select-report-user">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_USERS}>All users</SelectItem>
+              {users.map((user) => (
+                <SelectItem key={user.id} value={user.id}>
+                  {user.fullName}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <Skeleton className="h-64" />
+      ) : rows.length === 0 ? (
+        <EmptyState
+          icon={FileSearch}
+          title="No certifications held"
+          description={
+            selectedUser
+              ? `${selectedUser.fullName} held no certifications on ${format(date, "PPP")}.`
+              : `No one held a certification on ${format(date, "PPP")}.`
+          }
+        />
+      ) : (
+        <div className="rounded-lg border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>User</TableHead>
+                <TableHead>Certification</TableHead>
+                <TableHead>Valid From</TableHead>
+                <TableHead>Valid Until</TableHead>
+                <TableHead>Credential ID</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((entry) => (
+                <TableRow key={entry.certificationId} data-testid={`row-report-${entry.certificationId}`}>
+                  <TableCell>{getUserName(entry.userId)}</TableCell>
+                  <TableCell>
+                    <p className="font-medium">{entry.name}</p>
+                    <p className="text-sm text-muted-foreground">{entry.issuingOrganization}</p>
+                  </TableCell>
+                  <TableCell>{formatDate(entry.issueDate)}</TableCell>
+                  <TableCell>{formatExpiration(entry.expirationDate)}</TableCell>
+                  <TableCell className="font-mono text-xs">{entry.credentialId || "—"}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { z } from "zod";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { AccountSettings } from "@/components/account-settings";
+import { BackupRestore } from "@/components/backup-restore";
+import { useToast } from "@/hooks/use-toast";
+import { getErrorMessage, queryClient } from "@/lib/queryClient";
+import { updateOrganizationSettings } from "@/lib/api";
+import type { OrganizationSettings } from "@shared/schema";
+
+const dayCount = z.coerce
+  .number({ invalid_type_error: "Enter a number of days" })
+  .int("Enter a whole number of days")
+  .min(0, "Days cannot be negative");
+
+// Reminder days and issuers are edited as text and split on submit.
+const organizationFormSchema = z
+  .object({
+    organizationName: z.string().trim().min(1, "Organisation name is required").max(60, "Organisation name is too long"),
+    criticalDays: dayCount,
+    warningDays: dayCount,
+    soonDays: dayCount,
+    reminderOffsets: z
+      .string()
+      .regex(/^\s*(\d+\s*(,\s*\d+\s*)*)?$/, "Enter whole numbers of days separated by commas"),
+    remindAdmins: z.boolean(),
+    allowedIssuers: z.string(),
+  })
+  .refine((data) => data.criticalDays < data.warningDays && data.warningDays < data.soonDays, {
+    message: "Thresholds must increase from critical to warning to soon",
+    path: ["soonDays"],
+  });
+
+type OrganizationFormValues = z.infer<typeof organizationFormSchema>;
+
+const toFormValues = (settings: OrganizationSettings): OrganizationFormValues => ({
+  organizationName: settings.organizationName,
+  criticalDays: settings.criticalDays,
+  warningDays: settings.warningDays,
+  soonDays: settings.soonDays,
+  reminderOffsets: settings.reminderOffsets.join(", "),
+  remindAdmins: settings.remindAdmins,
+  allowedIssuers: settings.allowedIssuers.join("\n"),
+});
+
+export default function AdminSettings() {
+  const { toast } = useToast();
+
+  const { data: settings, isLoading } = useQuery<OrganizationSettings>({
+    queryKey: ["/api/settings/organization"],
+  });
+
+  const form = useForm<OrganizationFormValues>({
+    resolver: zodResolver(organizationFormSchema),
+  });
+
+  useEffect(() => {
+    if (settings) form.reset(toFormValues(settings));
+  }, [settings, form]);
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: OrganizationFormValues) => {
+      const reminderOffsets = data.reminderOffsets
+        .split(",")
+        .map((day) => day.trim())
+        .filter(Boolean)
+        .map(Number);
+      const allowedIssuers = data.allowedIssuers
+        .split("\n")
+        .map((issuer) => issuer.trim())
+        .filter(Boolean);
+      return updateOrganizationSettings({
+        ...data,
+        reminderOffsets: Array.from(new Set(reminderOffsets)).sort((a, b) => b - a),
+        allowedIssuers: Array.from(new Set(allowedIssuers)),
+      });
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/settings/organization"], updated);
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/branding"] });
+      toast({
+        title: "Settings saved",
+        description: "Organisation settings have been updated.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to save settings. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-semibold" data-testid="text-page-title">Settings</h1>
+        <p className="text-muted-foreground mt-1">
+          Configure the organisation and your own account
+        </p>
+      </div>
+
+      {isLoading || !settings ? (
+        <Skeleton className="h-96" />
+      ) : (
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((data) => updateMutation.mutate(data))} className="space-y-6">
+            <div className="grid gap-6 lg:grid-cols-2">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Branding</CardTitle>
+                  <CardDescription>Shown in the sidebar, on the sign-in page and in the browser tab.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <FormField
+                    control={form.control}
+                    name="organizationName"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Organisation Name</FormLabel>
+                        <FormControl>
+                          <Input {...field} data-testid="input-organization-name" />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Expiry Thresholds</CardTitle>
+                  <CardDescription>
+                    Days before expiry at which a certification counts as critical, warning or expiring soon.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="grid grid-cols-3 gap-4">
+                    {(["criticalDays", "warningDays", "soonDays"] as const).map((name) => (
+                      <FormField
+                        key={name}
+                        control={form.control}
+                        name={name}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>
+                              {name === "criticalDays" ? "Critical" : name === "warningDays" ? "Warning" : "Soon"}
+                            </FormLabel>
+                            <FormControl>
+                              <Input type="number" min={0} {...field} data-testid={`input-${name}`} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Reminder Schedule</CardTitle>
+                  <CardDescription>When certification owners are reminded before expiry.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <FormField
+                    control={form.control}
+                    name="reminderOffsets"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Days Before Expiry</FormLabel>
+                        <FormControl>
+                          <Input placeholder="90, 60, 30, 7, 0" {...field} data-testid="input-reminder-offsets" />
+                        </FormControl>
+                        <FormDescription>Separate days with commas; 0 sends a reminder on the expiry date.</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="remindAdmins"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between gap-4 rounded-lg border p-3 mt-4">
+                        <div className="space-y-0.5">
+                          <FormLabel>Copy administrators</FormLabel>
+                          <FormDescription>Administrators also receive every reminder.</FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch
+                            checked={field.value}
+                            onCheckedChange={field.onChange}
+                            data-testid="switch-remind-admins"
+                          />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-lg">Allowed Issuers</CardTitle>
+                  <CardDescription>Limit which issuing organisations certifications may name.</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <FormField
+                    control={form.control}
+                    name="allowedIssuers"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Issuers</FormLabel>
+                        <FormControl>
+                          <Textarea
+                            placeholder={"Amazon Web Services\nMicrosoft"}
+                            className="min-h-[120px]"
+                            {...field}
+                            data-testid="input-allowed-issuers"
+                          />
+                        </FormControl>
+                        <FormDescription>One per line. Leave empty to allow any issuer.</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </CardContent>
+              </Card>
+            </div>
+
+            <Button type="submit" disabled={updateMutation.isPending} data-testid="button-save-organization">
+              {updateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Organisation Settings
+            </Button>
+          </form>
+        </Form>
+      )}
+
+      <BackupRestore />
+
+      <div className="pt-4">
+        <h2 className="text-xl font-semibold mb-4">My Account</h2>
+        <AccountSettings />
+      </div>
+    </div>
+  );
+}
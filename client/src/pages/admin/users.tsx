@@ -1,33 +1,112 @@
 import { useState } from "react";
-import { useQuery } from "@tanstack/react-query";
-import { differenceInDays, parseISO } from "date-fns";
-import { Search, Users as UsersIcon, Award, AlertTriangle, Mail } from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import {
+  Plus,
+  Search,
+  Users as UsersIcon,
+  MoreVertical,
+  Pencil,
+  KeyRound,
+  ShieldCheck,
+  ShieldOff,
+  UserX,
+  UserCheck,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { UserForm, type UserFormValues } from "@/components/user-form";
+import { ResetPasswordDialog } from "@/components/reset-password-dialog";
 import { EmptyState } from "@/components/empty-state";
+import { useCertificationStatus } from "@/hooks/use-certification-status";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth-context";
+import { getErrorMessage, queryClient } from "@/lib/queryClient";
+import { createUser, updateUser, type UserChanges } from "@/lib/api";
 import type { Certification, User } from "@shared/schema";
 
 export default function AdminUsers() {
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
   const [search, setSearch] = useState("");
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingUser, setEditingUser] = useState<User | null>(null);
+  const [resettingUser, setResettingUser] = useState<User | null>(null);
+  const { countStatuses } = useCertificationStatus();
 
   const { data: users = [], isLoading: usersLoading } = useQuery<User[]>({
     queryKey: ["/api/users"],
-    queryFn: async () => (await import("@/lib/localAuth")).getAllUsers(),
   });
 
   const { data: certifications = [], isLoading: certsLoading } = useQuery<Certification[]>({
     queryKey: ["/api/certifications"],
-    queryFn: async () => (await import("@/lib/localData")).getAllCertifications(),
   });
 
-  const isLoading = usersLoading || certsLoading;
+  const createMutation = useMutation({
+    mutationFn: async (data: UserFormValues) => {
+      return createUser({ ...data, password: data.password ?? "" });
+    },
+    onSuccess: (user) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setFormOpen(false);
+      toast({
+        title: "User added",
+        description: `${user.fullName} can now sign in.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to add user. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Edits, role changes, password resets and deactivation are all a PATCH of
+  // the user; the toast text says which one happened.
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, changes }: { id: string; changes: UserChanges; message: string }) => {
+      return updateUser(id, changes);
+    },
+    onSuccess: (_user, { message }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setEditingUser(null);
+      setResettingUser(null);
+      toast({
+        title: "User updated",
+        description: message,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to update user. Please try again."),
+        variant: "destructive",
+      });
+    },
+  });
 
-  const regularUsers = users.filter((u) => u.role === "user");
+  const isLoading = usersLoading || certsLoading;
 
-  const filteredUsers = regularUsers.filter(
+  const filteredUsers = users.filter(
     (user) =>
       user.fullName.toLowerCase().includes(search.toLowerCase()) ||
       user.username.toLowerCase().includes(search.toLowerCase()) ||
@@ -36,19 +115,13 @@ export default function AdminUsers() {
 
   const getUserStats = (userId: string) => {
     const userCerts = certifications.filter((c) => c.userId === userId);
-    const active = userCerts.filter((c) => {
-      const days = differenceInDays(parseISO(c.expirationDate), new Date());
-      return days > 90;
-    }).length;
-    const expiring = userCerts.filter((c) => {
-      const days = differenceInDays(parseISO(c.expirationDate), new Date());
-      return days > 0 && days <= 90;
-    }).length;
-    const expired = userCerts.filter((c) => {
-      const days = differenceInDays(parseISO(c.expirationDate), new Date());
-      return days < 0;
-    }).length;
-    return { total: userCerts.length, active, expiring, expired };
+    const counts = countStatuses(userCerts);
+    return {
+      total: userCerts.length,
+      active: counts.active,
+      expiring: counts.critical + counts.warning + counts.soon,
+      expired: counts.expired,
+    };
   };
 
   const getInitials = (name: string) => {
@@ -65,24 +138,27 @@ export default function AdminUsers() {
       <div className="p-6 space-y-6">
         <div className="flex items-center justify-between">
           <Skeleton className="h-8 w-48" />
+          <Skeleton className="h-10 w-32" />
         </div>
         <Skeleton className="h-10 max-w-sm" />
-        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-          {[1, 2, 3, 4, 5, 6].map((i) => (
-            <Skeleton key={i} className="h-48" />
-          ))}
-        </div>
+        <Skeleton className="h-96" />
       </div>
     );
   }
 
   return (
     <div className="p-6 space-y-6">
-      <div>
-        <h1 className="text-3xl font-semibold" data-testid="text-page-title">Users</h1>
-        <p className="text-muted-foreground mt-1">
-          Manage registered users and their certifications
-        </p>
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-semibold" data-testid="text-page-title">Users</h1>
+          <p className="text-muted-foreground mt-1">
+            Manage registered users and their certifications
+          </p>
+        </div>
+        <Button onClick={() => setFormOpen(true)} data-testid="button-add-user">
+          <Plus className="mr-2 h-4 w-4" />
+          Add User
+        </Button>
       </div>
 
       <div className="relative max-w-sm">
@@ -107,66 +183,165 @@ export default function AdminUsers() {
           }
         />
       ) : (
-        <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-          {filteredUsers.map((user) => {
-            const stats = getUserStats(user.id);
-            return (
-              <Card key={user.id} className="hover-elevate" data-testid={`card-user-${user.id}`}>
-                <CardHeader className="pb-3">
-                  <div className="flex items-start gap-4">
-                    <Avatar className="h-12 w-12">
-                      <AvatarFallback className="bg-primary/10 text-base font-medium">
-                        {getInitials(user.fullName)}
-                      </AvatarFallback>
-                    </Avatar>
-                    <div className="flex-1 min-w-0">
-                      <CardTitle className="text-base truncate" data-testid="text-user-name">
-                        {user.fullName}
-                      </CardTitle>
-                      <p className="text-sm text-muted-foreground truncate">
-                        @{user.username}
-                      </p>
-                    </div>
-                  </div>
-                </CardHeader>
-                <CardContent className="space-y-4">
-                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                    <Mail className="h-4 w-4 shrink-0" />
-                    <span className="truncate" data-testid="text-user-email">{user.email}</span>
-                  </div>
-                  
-                  <div className="grid grid-cols-3 gap-2 pt-2">
-                    <div className="flex flex-col items-center p-2 rounded-lg bg-muted/50">
-                      <div className="flex items-center gap-1 text-xs text-muted-foreground mb-1">
-                        <Award className="h-3 w-3" />
-                        Total
-                      </div>
-                      <span className="font-semibold" data-testid="text-total-certs">{stats.total}</span>
-                    </div>
-                    <div className="flex flex-col items-center p-2 rounded-lg bg-green-500/10">
-                      <div className="flex items-center gap-1 text-xs text-green-600 dark:text-green-500 mb-1">
-                        Active
+        <div className="rounded-lg border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>User</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Certifications</TableHead>
+                <TableHead className="w-[50px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filteredUsers.map((user) => {
+                const stats = getUserStats(user.id);
+                const isSelf = user.id === currentUser?.id;
+                return (
+                  <TableRow
+                    key={user.id}
+                    className={user.deactivated ? "opacity-60" : undefined}
+                    data-testid={`row-user-${user.id}`}
+                  >
+                    <TableCell>
+                      <div className="flex items-center gap-3">
+                        <Avatar className="h-9 w-9">
+                          <AvatarFallback className="bg-primary/10 text-sm font-medium">
+                            {getInitials(user.fullName)}
+                          </AvatarFallback>
+                        </Avatar>
+                        <div>
+                          <p className="font-medium" data-testid="text-user-name">{user.fullName}</p>
+                          <p className="text-sm text-muted-foreground">@{user.username}</p>
+                        </div>
                       </div>
-                      <span className="font-semibold text-green-600 dark:text-green-500" data-testid="text-active-certs">
-                        {stats.active}
-                      </span>
-                    </div>
-                    <div className="flex flex-col items-center p-2 rounded-lg bg-destructive/10">
-                      <div className="flex items-center gap-1 text-xs text-destructive mb-1">
-                        <AlertTriangle className="h-3 w-3" />
-                        Expiring
+                    </TableCell>
+                    <TableCell data-testid="text-user-email">{user.email}</TableCell>
+                    <TableCell>
+                      <Badge variant={user.role === "admin" ? "default" : "secondary"} data-testid="badge-user-role">
+                        {user.role === "admin" ? "Admin" : "User"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={user.deactivated ? "destructive" : "outline"} data-testid="badge-user-status">
+                        {user.deactivated ? "Deactivated" : "Active"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-3 text-sm">
+                        <span data-testid="text-total-certs">{stats.total} total</span>
+                        <span className="text-green-600 dark:text-green-500" data-testid="text-active-certs">
+                          {stats.active} active
+                        </span>
+                        <span className="text-destructive" data-testid="text-expiring-certs">
+                          {stats.expiring + stats.expired} expiring
+                        </span>
                       </div>
-                      <span className="font-semibold text-destructive" data-testid="text-expiring-certs">
-                        {stats.expiring + stats.expired}
-                      </span>
-                    </div>
-                  </div>
-                </CardContent>
-              </Card>
-            );
-          })}
+                    </TableCell>
+                    <TableCell>
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="icon" data-testid="button-user-actions">
+                            <MoreVertical className="h-4 w-4" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          <DropdownMenuItem onClick={() => setEditingUser(user)} data-testid="button-edit-user">
+                            <Pencil className="mr-2 h-4 w-4" />
+                            Edit
+                          </DropdownMenuItem>
+                          <DropdownMenuItem onClick={() => setResettingUser(user)} data-testid="button-reset-password">
+                            <KeyRound className="mr-2 h-4 w-4" />
+                            Reset password
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={() =>
+                              updateMutation.mutate({
+                                id: user.id,
+                                changes: { role: user.role === "admin" ? "user" : "admin" },
+                                message: `${user.fullName} is now ${user.role === "admin" ? "a regular user" : "an administrator"}.`,
+                              })
+                            }
+                            data-testid="button-toggle-role"
+                          >
+                            {user.role === "admin" ? (
+                              <ShieldOff className="mr-2 h-4 w-4" />
+                            ) : (
+                              <ShieldCheck className="mr-2 h-4 w-4" />
+                            )}
+                            {user.role === "admin" ? "Make user" : "Make admin"}
+                          </DropdownMenuItem>
+                          {!isSelf && (
+                            <>
+                              <DropdownMenuSeparator />
+                              <DropdownMenuItem
+                                onClick={() =>
+                                  updateMutation.mutate({
+                                    id: user.id,
+                                    changes: { deactivated: !user.deactivated },
+                                    message: user.deactivated
+                                      ? `${user.fullName} can sign in again.`
+                                      : `${user.fullName} can no longer sign in.`,
+                                  })
+                                }
+                                className={user.deactivated ? undefined : "text-destructive focus:text-destructive"}
+                                data-testid="button-toggle-deactivated"
+                              >
+                                {user.deactivated ? (
+                                  <UserCheck className="mr-2 h-4 w-4" />
+                                ) : (
+                                  <UserX className="mr-2 h-4 w-4" />
+                                )}
+                                {user.deactivated ? "Reactivate" : "Deactivate"}
+                              </DropdownMenuItem>
+                            </>
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
         </div>
       )}
+
+      <UserForm
+        open={formOpen}
+        onOpenChange={setFormOpen}
+        onSubmit={(data) => createMutation.mutate(data)}
+        isLoading={createMutation.isPending}
+      />
+
+      <UserForm
+        open={!!editingUser}
+        onOpenChange={(open) => !open && setEditingUser(null)}
+        onSubmit={(data) =>
+          updateMutation.mutate({
+            id: editingUser!.id,
+            changes: data,
+            message: `${data.fullName}'s details have been saved.`,
+          })
+        }
+        user={editingUser}
+        isLoading={updateMutation.isPending}
+      />
+
+      <ResetPasswordDialog
+        user={resettingUser}
+        onOpenChange={(open) => !open && setResettingUser(null)}
+        onSubmit={(password) =>
+          updateMutation.mutate({
+            id: resettingUser!.id,
+            changes: { password },
+            message: `${resettingUser!.fullName}'s password has been reset.`,
+          })
+        }
+        isLoading={updateMutation.isPending}
+      />
     </div>
   );
 }
@@ -0,0 +1,83 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { AlertCircle, Download, RotateCcw, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { DeleteDialog } from "@/components/delete-dialog";
+import { downloadFile } from "@/lib/spreadsheet";
+import {
+  clearLocalData,
+  exportRawLocalData,
+  getLocalSnapshot,
+  restoreLocalSnapshot,
+  type LocalDataError,
+} from "@/lib/localStore";
+
+// Shown instead of the app when offline mode cannot read or upgrade what this
+// browser has saved. Nothing is changed until the user picks an option here.
+export default function DataRecovery({ error }: { error: LocalDataError }) {
+  const [isResetOpen, setIsResetOpen] = useState(false);
+  const snapshot = getLocalSnapshot();
+
+  const downloadRawData = () => {
+    downloadFile({
+      body: exportRawLocalData(),
+      contentType: "application/json",
+      fileName: `certtrack-offline-data-${format(new Date(), "yyyy-MM-dd")}.json`,
+    });
+  };
+
+  const rollBack = () => {
+    restoreLocalSnapshot(snapshot!);
+    window.location.reload();
+  };
+
+  const reset = () => {
+    clearLocalData();
+    window.location.reload();
+  };
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-muted/30 p-4">
+      <Card className="w-full max-w-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-xl">
+            <AlertCircle className="h-6 w-6 text-destructive" />
+            Saved data could not be loaded
+          </CardTitle>
+          <CardDescription data-testid="text-recovery-error">{error.message}.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            The data this browser keeps for offline mode has been left untouched. Download a copy before trying
+            anything else.
+          </p>
+          <div className="flex flex-col gap-2">
+            <Button variant="outline" onClick={downloadRawData} data-testid="button-download-raw-data">
+              <Download className="mr-2 h-4 w-4" />
+              Download Saved Data
+            </Button>
+            {snapshot && (
+              <Button variant="outline" onClick={rollBack} data-testid="button-restore-snapshot">
+                <RotateCcw className="mr-2 h-4 w-4" />
+                Restore Data From {format(new Date(snapshot.takenAt), "MMM d, yyyy HH:mm")}
+              </Button>
+            )}
+            <Button variant="destructive" onClick={() => setIsResetOpen(true)} data-testid="button-reset-local-data">
+              <Trash2 className="mr-2 h-4 w-4" />
+              Reset Offline Data
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <DeleteDialog
+        open={isResetOpen}
+        onOpenChange={setIsResetOpen}
+        onConfirm={reset}
+        title="Reset Offline Data"
+        description="All users, certifications and settings saved in this browser will be deleted and the demo accounts recreated. This cannot be undone."
+      />
+    </div>
+  );
+}
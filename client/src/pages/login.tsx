@@ -1,15 +1,16 @@
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import { useLocation } from "wouter";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { ShieldCheck, Loader2, Eye, EyeOff, UserPlus } from "lucide-react";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -17,27 +18,35 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useBranding } from "@/hooks/use-branding";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/lib/auth-context";
 import { ThemeToggle } from "@/components/theme-toggle";
-import { apiRequest } from "@/lib/queryClient";
-import { registerLocal, loginLocal } from "@/lib/localAuth";
+import { apiRequest, getErrorMessage } from "@/lib/queryClient";
+import { login as loginRequest, register as registerRequest } from "@/lib/api";
 import type { User } from "@shared/schema";
+import {
+  DEFAULT_PASSWORD_POLICY,
+  describePasswordPolicy,
+  passwordSchema,
+  type PasswordPolicy,
+} from "@shared/password-policy";
 
 const loginSchema = z.object({
   username: z.string().min(1, "Username is required"),
   password: z.string().min(1, "Password is required"),
 });
 
-const registerSchema = z.object({
-  username: z.string().min(3, "Username must be at least 3 characters"),
-  password: z.string().min(6, "Password must be at least 6 characters"),
-  fullName: z.string().min(1, "Full name is required"),
-  email: z.string().email("Invalid email address"),
-});
+const buildRegisterSchema = (policy: PasswordPolicy) =>
+  z.object({
+    username: z.string().min(3, "Username must be at least 3 characters"),
+    password: passwordSchema(policy),
+    fullName: z.string().min(1, "Full name is required"),
+    email: z.string().email("Invalid email address"),
+  });
 
 type LoginFormValues = z.infer<typeof loginSchema>;
-type RegisterFormValues = z.infer<typeof registerSchema>;
+type RegisterFormValues = z.infer<ReturnType<typeof buildRegisterSchema>>;
 
 export default function Login() {
   const [, setLocation] = useLocation();
@@ -45,6 +54,14 @@ export default function Login() {
   const { toast } = useToast();
   const [showPassword, setShowPassword] = useState(false);
   const [activeTab, setActiveTab] = useState("login");
+  const organizationName = useBranding();
+
+  // The server decides the password policy; the form mirrors it so users see
+  // the same rules before submitting.
+  const { data: passwordPolicy = DEFAULT_PASSWORD_POLICY } = useQuery<PasswordPolicy>({
+    queryKey: ["/api/auth/password-policy"],
+  });
+  const registerSchema = useMemo(() => buildRegisterSchema(passwordPolicy), [passwordPolicy]);
 
   const loginForm = useForm<LoginFormValues>({
     resolver: zodResolver(loginSchema),
@@ -66,8 +83,7 @@ export default function Login() {
 
   const loginMutation = useMutation({
     mutationFn: async (data: LoginFormValues) => {
-      // Use local storage based auth for development (no backend)
-      return loginLocal(data as { username: string; password: string });
+      return loginRequest(data);
     },
     onSuccess: (user) => {
       login(user);
@@ -84,7 +100,7 @@ export default function Login() {
     onError: (error: Error) => {
       toast({
         title: "Login failed",
-        description: error.message || "Invalid credentials",
+        description: getErrorMessage(error, "Invalid credentials"),
         variant: "destructive",
       });
     },
@@ -92,8 +108,7 @@ export default function Login() {
 
   const registerMutation = useMutation({
     mutationFn: async (data: RegisterFormValues) => {
-      // Use local storage based registration for development (no backend)
-      return registerLocal(data as { username: string; password: string; fullName: string; email: string });
+      return registerRequest(data);
     },
     onSuccess: (user) => {
       login(user);
@@ -106,7 +121,7 @@ export default function Login() {
     onError: (error: Error) => {
       toast({
         title: "Registration failed",
-        description: error.message || "Could not create account",
+        description: getErrorMessage(error, "Could not create account"),
         variant: "destructive",
       });
     },
@@ -132,7 +147,7 @@ export default function Login() {
             <div className="flex h-14 w-14 items-center justify-center rounded-xl bg-primary mb-4">
               <ShieldCheck className="h-8 w-8 text-primary-foreground" />
             </div>
-            <h1 className="text-2xl font-bold" data-testid="text-app-title">CertTrack</h1>
+            <h1 className="text-2xl font-bold" data-testid="text-app-title">{organizationName}</h1>
             <p className="text-muted-foreground text-center mt-2">
               Professional Skill Certification Tracking Platform
             </p>
@@ -226,7 +241,7 @@ export default function Login() {
                       <span className="font-medium">Admin:</span> admin / admin123
                     </p>
                     <p>
-                      <span className="font-medium">User:</span> john / user123
+                      <span className="font-medium">User:</span> john / user1234
                     </p>
                   </div>
                 </TabsContent>
@@ -315,6 +330,9 @@ export default function Login() {
                                 </Button>
                               </div>
                             </FormControl>
+                            <FormDescription>
+                              {describePasswordPolicy(passwordPolicy)}
+                            </FormDescription>
                             <FormMessage />
                           </FormItem>
                         )}
@@ -1,7 +1,6 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { format, differenceInDays, parseISO } from "date-fns";
-import { Plus, Search, Filter, Award, LayoutGrid, List } from "lucide-react";
+import { Plus, Search, Filter, Award, LayoutGrid, List, Upload } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -15,43 +14,55 @@ import {
 import { CertificationCard } from "@/components/certification-card";
 import { CertificationForm } from "@/components/certification-form";
 import { DeleteDialog } from "@/components/delete-dialog";
+import { RenewalForm } from "@/components/renewal-form";
+import { RenewalHistory } from "@/components/renewal-history";
+import { ImportWizard } from "@/components/import-wizard";
+import { ExportMenu } from "@/components/export-menu";
 import { EmptyState } from "@/components/empty-state";
 import { useAuth } from "@/lib/auth-context";
+import { useCertificationStatus } from "@/hooks/use-certification-status";
+import { useLinkedCertification } from "@/hooks/use-linked-certification";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
-import { getCertificationsByUser, createCertification, updateCertification, deleteCertification } from "@/lib/localData";
-import type { Certification } from "@shared/schema";
-
-type StatusFilter = "all" | "active" | "expiring" | "expired";
-type ViewMode = "grid" | "list";
+import { apiRequest, getErrorMessage, queryClient } from "@/lib/queryClient";
+import {
+  createCertification,
+  updateCertification,
+  deleteCertification,
+  importCertifications,
+  renewCertification,
+} from "@/lib/api";
+import type { Certification, RenewCertification, UserSettings, ViewMode } from "@shared/schema";
+import { matchesFilter, type StatusFilter } from "@shared/export";
 
 export default function UserCertifications() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [search, setSearch] = useState("");
   const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
-  const [viewMode, setViewMode] = useState<ViewMode>("grid");
+  // Starts in the user's preferred view until they toggle it here
+  const [chosenViewMode, setViewMode] = useState<ViewMode | null>(null);
   const [formOpen, setFormOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
   const [editingCert, setEditingCert] = useState<Certification | null>(null);
   const [deletingCert, setDeletingCert] = useState<Certification | null>(null);
+  const [renewingCert, setRenewingCert] = useState<Certification | null>(null);
+  const [historyCert, setHistoryCert] = useState<Certification | null>(null);
+  const { statusOf } = useCertificationStatus();
+
+  const { data: settings } = useQuery<UserSettings>({
+    queryKey: ["/api/settings/user"],
+  });
+  const viewMode = chosenViewMode ?? settings?.defaultView ?? "grid";
 
   const { data: certifications = [], isLoading } = useQuery<Certification[]>({
     queryKey: ["/api/certifications", "user", user?.id],
-    queryFn: async () => {
-      return getCertificationsByUser(user?.id);
-    },
     enabled: !!user?.id,
   });
+  useLinkedCertification(certifications, setEditingCert);
 
   const createMutation = useMutation({
-    mutationFn: async (data: any) => {
-      return createCertification({
-        ...data,
-        userId: user?.id,
-        issueDate: format(data.issueDate, "yyyy-MM-dd"),
-        expirationDate: format(data.expirationDate, "yyyy-MM-dd"),
-      });
-    },
+    // The form sends dates as YYYY-MM-DD strings already
+    mutationFn: (data: any) => createCertification({ ...data, userId: user?.id }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/certifications", "user", user?.id] });
       setFormOpen(false);
@@ -60,23 +71,17 @@ export default function UserCertifications() {
         description: "Your certification has been recorded successfully.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to add certification.",
+        description: getErrorMessage(error, "Failed to add certification."),
         variant: "destructive",
       });
     },
   });
 
   const updateMutation = useMutation({
-    mutationFn: async (data: any) => {
-      return updateCertification(editingCert!.id, {
-        ...data,
-        issueDate: format(data.issueDate, "yyyy-MM-dd"),
-        expirationDate: format(data.expirationDate, "yyyy-MM-dd"),
-      });
-    },
+    mutationFn: (data: any) => updateCertification(editingCert!.id, data),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/certifications", "user", user?.id] });
       setEditingCert(null);
@@ -85,10 +90,50 @@ export default function UserCertifications() {
         description: "Your certification has been updated successfully.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to update certification."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: importCertifications,
+    onSuccess: ({ imported, skipped }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/certifications", "user", user?.id] });
+      setImportOpen(false);
+      toast({
+        title: "Import complete",
+        description:
+          `${imported} ${imported === 1 ? "certification was" : "certifications were"} added to your profile.` +
+          (skipped > 0 ? ` ${skipped} ${skipped === 1 ? "duplicate was" : "duplicates were"} skipped.` : ""),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: getErrorMessage(error, "Failed to import certifications."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const renewMutation = useMutation({
+    mutationFn: (data: RenewCertification) => renewCertification(renewingCert!.id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/certifications"] });
+      setRenewingCert(null);
+      toast({
+        title: "Certification renewed",
+        description: "The new cycle has been recorded and the previous one kept in its history.",
+      });
+    },
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to update certification.",
+        description: getErrorMessage(error, "Failed to record the renewal."),
         variant: "destructive",
       });
     },
@@ -106,35 +151,18 @@ export default function UserCertifications() {
         description: "Your certification has been removed.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to delete certification.",
+        description: getErrorMessage(error, "Failed to delete certification."),
         variant: "destructive",
       });
     },
   });
 
-  const filteredCertifications = certifications.filter((cert) => {
-    const matchesSearch =
-      cert.name.toLowerCase().includes(search.toLowerCase()) ||
-      cert.issuingOrganization.toLowerCase().includes(search.toLowerCase()) ||
-      (cert.credentialId?.toLowerCase().includes(search.toLowerCase()) ?? false);
-
-    if (!matchesSearch) return false;
-
-    const days = differenceInDays(parseISO(cert.expirationDate), new Date());
-    switch (statusFilter) {
-      case "active":
-        return days > 90;
-      case "expiring":
-        return days > 0 && days <= 90;
-      case "expired":
-        return days < 0;
-      default:
-        return true;
-    }
-  });
+  const filteredCertifications = certifications.filter((cert) =>
+    matchesFilter(cert, { search, status: statusFilter }, statusOf(cert)),
+  );
 
   if (isLoading) {
     return (
@@ -165,10 +193,17 @@ export default function UserCertifications() {
             View and manage your professional certifications
           </p>
         </div>
-        <Button onClick={() => setFormOpen(true)} data-testid="button-add-certification">
-          <Plus className="mr-2 h-4 w-4" />
-          Add Certification
-        </Button>
+        <div className="flex gap-2">
+          <ExportMenu certifications={filteredCertifications} users={user ? [user] : []} />
+          <Button variant="outline" onClick={() => setImportOpen(true)} data-testid="button-import-certifications">
+            <Upload className="mr-2 h-4 w-4" />
+            Import
+          </Button>
+          <Button onClick={() => setFormOpen(true)} data-testid="button-add-certification">
+            <Plus className="mr-2 h-4 w-4" />
+            Add Certification
+          </Button>
+        </div>
       </div>
 
       <div className="flex flex-col sm:flex-row gap-4">
@@ -250,6 +285,8 @@ export default function UserCertifications() {
               certification={cert}
               onEdit={setEditingCert}
               onDelete={setDeletingCert}
+              onRenew={setRenewingCert}
+              onHistory={setHistoryCert}
             />
           ))}
         </div>
@@ -261,6 +298,7 @@ export default function UserCertifications() {
         onSubmit={(data) => createMutation.mutate(data)}
         isLoading={createMutation.isPending}
         currentUserId={user?.id}
+        existing={certifications}
       />
 
       <CertificationForm
@@ -272,6 +310,27 @@ export default function UserCertifications() {
         currentUserId={user?.id}
       />
 
+      <ImportWizard
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        onSubmit={(rows) => importMutation.mutate(rows)}
+        isLoading={importMutation.isPending}
+        currentUserId={user?.id}
+        existing={certifications}
+      />
+
+      <RenewalForm
+        certification={renewingCert}
+        onOpenChange={(open) => !open && setRenewingCert(null)}
+        onSubmit={(data) => renewMutation.mutate(data)}
+        isLoading={renewMutation.isPending}
+      />
+
+      <RenewalHistory
+        certification={historyCert}
+        onOpenChange={(open) => !open && setHistoryCert(null)}
+      />
+
       <DeleteDialog
         open={!!deletingCert}
         onOpenChange={(open) => !open && setDeletingCert(null)}
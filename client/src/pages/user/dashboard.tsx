@@ -1,5 +1,5 @@
 import { useQuery } from "@tanstack/react-query";
-import { differenceInDays, parseISO, format } from "date-fns";
+import { parseISO } from "date-fns";
 import { useState } from "react";
 import { Link } from "wouter";
 import {
@@ -16,35 +16,31 @@ import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Progress } from "@/components/ui/progress";
 import { StatsCard } from "@/components/stats-card";
-import { CertificationCard } from "@/components/certification-card";
+import { CertificationCard, STATUS_ICONS } from "@/components/certification-card";
 import { CertificationForm } from "@/components/certification-form";
 import { useAuth } from "@/lib/auth-context";
+import { useCertificationStatus } from "@/hooks/use-certification-status";
 import { useToast } from "@/hooks/use-toast";
 import { useMutation } from "@tanstack/react-query";
-import { apiRequest, queryClient } from "@/lib/queryClient";
-import { getCertificationsByUser, createCertification } from "@/lib/localData";
+import { apiRequest, getErrorMessage, queryClient } from "@/lib/queryClient";
+import { createCertification } from "@/lib/api";
 import type { Certification } from "@shared/schema";
+import { byExpiration, describeDaysLeft, formatExpiration, isExpiring } from "@shared/status";
 
 export default function UserDashboard() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [formOpen, setFormOpen] = useState(false);
+  const { thresholds, statusOf, countStatuses } = useCertificationStatus();
 
   const { data: certifications = [], isLoading } = useQuery<Certification[]>({
     queryKey: ["/api/certifications", "user", user?.id],
-    queryFn: async () => getCertificationsByUser(user?.id),
     enabled: !!user?.id,
   });
 
   const createMutation = useMutation({
-    mutationFn: async (data: any) => {
-      return createCertification({
-        ...data,
-        userId: user?.id,
-        issueDate: format(data.issueDate, "yyyy-MM-dd"),
-        expirationDate: format(data.expirationDate, "yyyy-MM-dd"),
-      });
-    },
+    // The form sends dates as YYYY-MM-DD strings already
+    mutationFn: (data: any) => createCertification({ ...data, userId: user?.id }),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/certifications", "user", user?.id] });
       setFormOpen(false);
@@ -53,29 +49,21 @@ export default function UserDashboard() {
         description: "Your certification has been recorded successfully.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to add certification.",
+        description: getErrorMessage(error, "Failed to add certification."),
         variant: "destructive",
       });
     },
   });
 
+  const counts = countStatuses(certifications);
   const stats = {
     total: certifications.length,
-    active: certifications.filter((c) => {
-      const days = differenceInDays(parseISO(c.expirationDate), new Date());
-      return days > 90;
-    }).length,
-    expiringSoon: certifications.filter((c) => {
-      const days = differenceInDays(parseISO(c.expirationDate), new Date());
-      return days > 0 && days <= 90;
-    }).length,
-    expired: certifications.filter((c) => {
-      const days = differenceInDays(parseISO(c.expirationDate), new Date());
-      return days < 0;
-    }).length,
+    active: counts.active,
+    expiringSoon: counts.critical + counts.warning + counts.soon,
+    expired: counts.expired,
   };
 
   const complianceRate = stats.total > 0
@@ -83,11 +71,8 @@ export default function UserDashboard() {
     : 100;
 
   const upcomingRenewals = certifications
-    .filter((c) => {
-      const days = differenceInDays(parseISO(c.expirationDate), new Date());
-      return days > 0 && days <= 90;
-    })
-    .sort((a, b) => parseISO(a.expirationDate).getTime() - parseISO(b.expirationDate).getTime())
+    .filter((c) => isExpiring(statusOf(c).status))
+    .sort(byExpiration)
     .slice(0, 3);
 
   const recentCerts = [...certifications]
@@ -150,7 +135,7 @@ export default function UserDashboard() {
         <StatsCard
           title="Expiring Soon"
           value={stats.expiringSoon}
-          description="Within 90 days"
+          description={`Within ${thresholds.soonDays} days`}
           icon={Clock}
           variant="warning"
         />
@@ -228,14 +213,14 @@ export default function UserDashboard() {
                   <CheckCircle className="h-6 w-6 text-green-600 dark:text-green-500" />
                 </div>
                 <p className="text-sm text-muted-foreground">
-                  No certifications expiring in the next 90 days
+                  No certifications expiring in the next {thresholds.soonDays} days
                 </p>
               </div>
             ) : (
               <div className="space-y-4">
                 {upcomingRenewals.map((cert) => {
-                  const days = differenceInDays(parseISO(cert.expirationDate), new Date());
-                  const urgency = days <= 30 ? "destructive" : days <= 60 ? "secondary" : "secondary";
+                  const status = statusOf(cert);
+                  const StatusIcon = STATUS_ICONS[status.status];
                   return (
                     <div
                       key={cert.id}
@@ -243,24 +228,18 @@ export default function UserDashboard() {
                       data-testid={`item-renewal-${cert.id}`}
                     >
                       <div className="flex items-center gap-3">
-                        <div className={`flex h-10 w-10 items-center justify-center rounded-md ${
-                          days <= 30 ? "bg-destructive/10" : "bg-yellow-500/10"
-                        }`}>
-                          {days <= 30 ? (
-                            <AlertTriangle className="h-5 w-5 text-destructive" />
-                          ) : (
-                            <Clock className="h-5 w-5 text-yellow-600 dark:text-yellow-500" />
-                          )}
+                        <div className={`flex h-10 w-10 items-center justify-center rounded-md ${status.bgClass}`}>
+                          <StatusIcon className={`h-5 w-5 ${status.textClass}`} />
                         </div>
                         <div>
                           <p className="font-medium">{cert.name}</p>
                           <p className="text-sm text-muted-foreground">
-                            Expires {format(parseISO(cert.expirationDate), "MMM d, yyyy")}
+                            Expires {formatExpiration(cert.expirationDate)}
                           </p>
                         </div>
                       </div>
-                      <Badge variant={urgency as any}>
-                        {days} days
+                      <Badge variant={status.badgeVariant}>
+                        {describeDaysLeft(status.days)}
                       </Badge>
                     </div>
                   );
@@ -313,6 +292,7 @@ export default function UserDashboard() {
         onSubmit={(data) => createMutation.mutate(data)}
         isLoading={createMutation.isPending}
         currentUserId={user?.id}
+        existing={certifications}
       />
     </div>
   );
@@ -15,66 +15,60 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { EmptyState } from "@/components/empty-state";
-import { CertificationForm } from "@/components/certification-form";
+import { RenewalForm } from "@/components/renewal-form";
+import { STATUS_ICONS } from "@/components/certification-card";
 import { useAuth } from "@/lib/auth-context";
+import { useCertificationStatus } from "@/hooks/use-certification-status";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest, queryClient } from "@/lib/queryClient";
-import { getCertificationsByUser, updateCertification } from "@/lib/localData";
-import type { Certification } from "@shared/schema";
+import { apiRequest, getErrorMessage, queryClient } from "@/lib/queryClient";
+import { renewCertification } from "@/lib/api";
+import type { Certification, RenewCertification } from "@shared/schema";
+import {
+  STATUS_STYLES,
+  describeDaysLeft,
+  formatExpiration,
+  hasExpiration,
+  type CertificationStatus,
+} from "@shared/status";
 
 export default function UserRenewals() {
   const { user } = useAuth();
   const { toast } = useToast();
-  const [editingCert, setEditingCert] = useState<Certification | null>(null);
+  const [renewingCert, setRenewingCert] = useState<Certification | null>(null);
+  const { thresholds, statusOf } = useCertificationStatus();
 
   const { data: certifications = [], isLoading } = useQuery<Certification[]>({
     queryKey: ["/api/certifications", "user", user?.id],
-    queryFn: async () => getCertificationsByUser(user?.id),
     enabled: !!user?.id,
   });
 
-  const updateMutation = useMutation({
-    mutationFn: async (data: any) => {
-      return updateCertification(editingCert!.id, {
-        ...data,
-        issueDate: format(data.issueDate, "yyyy-MM-dd"),
-        expirationDate: format(data.expirationDate, "yyyy-MM-dd"),
-      });
-    },
+  const renewMutation = useMutation({
+    mutationFn: (data: RenewCertification) => renewCertification(renewingCert!.id, data),
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/certifications", "user", user?.id] });
-      setEditingCert(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/certifications"] });
+      setRenewingCert(null);
       toast({
-        title: "Certification updated",
+        title: "Certification renewed",
         description: "Your certification has been renewed successfully.",
       });
     },
-    onError: () => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to update certification.",
+        description: getErrorMessage(error, "Failed to record the renewal."),
         variant: "destructive",
       });
     },
   });
 
+  const inStatus = (status: CertificationStatus) =>
+    certifications.filter((c) => statusOf(c).status === status);
+
   const categorizedCerts = {
-    expired: certifications.filter((c) => {
-      const days = differenceInDays(parseISO(c.expirationDate), new Date());
-      return days < 0;
-    }),
-    critical: certifications.filter((c) => {
-      const days = differenceInDays(parseISO(c.expirationDate), new Date());
-      return days >= 0 && days <= 30;
-    }),
-    warning: certifications.filter((c) => {
-      const days = differenceInDays(parseISO(c.expirationDate), new Date());
-      return days > 30 && days <= 60;
-    }),
-    upcoming: certifications.filter((c) => {
-      const days = differenceInDays(parseISO(c.expirationDate), new Date());
-      return days > 60 && days <= 90;
-    }),
+    expired: inStatus("expired"),
+    critical: inStatus("critical"),
+    warning: inStatus("warning"),
+    upcoming: inStatus("soon"),
   };
 
   const totalNeedingAttention =
@@ -84,6 +78,7 @@ export default function UserRenewals() {
     categorizedCerts.upcoming.length;
 
   const getTimeProgress = (cert: Certification) => {
+    if (!hasExpiration(cert)) return 0;
     const issueDate = parseISO(cert.issueDate);
     const expDate = parseISO(cert.expirationDate);
     const now = new Date();
@@ -110,16 +105,11 @@ export default function UserRenewals() {
     );
   }
 
-  const renderSection = (
-    title: string,
-    certs: Certification[],
-    icon: React.ElementType,
-    color: string,
-    bgColor: string
-  ) => {
+  const renderSection = (title: string, certs: Certification[], status: CertificationStatus) => {
     if (certs.length === 0) return null;
 
-    const Icon = icon;
+    const Icon = STATUS_ICONS[status];
+    const { textClass: color, bgClass: bgColor } = STATUS_STYLES[status];
     return (
       <div className="space-y-3">
         <div className="flex items-center gap-2">
@@ -129,7 +119,7 @@ export default function UserRenewals() {
         </div>
         <div className="space-y-3">
           {certs.map((cert) => {
-            const days = differenceInDays(parseISO(cert.expirationDate), new Date());
+            const { days } = statusOf(cert);
             const progress = getTimeProgress(cert);
 
             return (
@@ -148,14 +138,18 @@ export default function UserRenewals() {
                         <div className="flex items-center gap-4 mt-2 text-sm">
                           <span className="flex items-center gap-1 text-muted-foreground">
                             <Calendar className="h-4 w-4" />
-                            Expires {format(parseISO(cert.expirationDate), "MMM d, yyyy")}
+                            Expires {formatExpiration(cert.expirationDate)}
                           </span>
                         </div>
                         <div className="mt-3 max-w-xs">
                           <div className="flex items-center justify-between text-xs mb-1">
                             <span className="text-muted-foreground">Validity period</span>
                             <span className={color}>
-                              {days < 0 ? `${Math.abs(days)} days overdue` : `${days} days left`}
+                              {days === null
+                                ? describeDaysLeft(days)
+                                : days < 0
+                                  ? `${Math.abs(days)} days overdue`
+                                  : `${days} days left`}
                             </span>
                           </div>
                           <Progress
@@ -176,10 +170,10 @@ export default function UserRenewals() {
                       )}
                       <Button
                         size="sm"
-                        onClick={() => setEditingCert(cert)}
+                        onClick={() => setRenewingCert(cert)}
                         data-testid="button-update-renewal"
                       >
-                        Update Renewal
+                        Record Renewal
                       </Button>
                     </div>
                   </div>
@@ -219,7 +213,7 @@ export default function UserRenewals() {
           <CardContent className="p-4">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm text-muted-foreground">Within 30 Days</p>
+                <p className="text-sm text-muted-foreground">Within {thresholds.criticalDays} Days</p>
                 <p className="text-2xl font-bold text-destructive" data-testid="text-30-days-count">
                   {categorizedCerts.critical.length}
                 </p>
@@ -232,7 +226,9 @@ export default function UserRenewals() {
           <CardContent className="p-4">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm text-muted-foreground">31-60 Days</p>
+                <p className="text-sm text-muted-foreground">
+                  {thresholds.criticalDays + 1}-{thresholds.warningDays} Days
+                </p>
                 <p className="text-2xl font-bold text-yellow-600 dark:text-yellow-500" data-testid="text-60-days-count">
                   {categorizedCerts.warning.length}
                 </p>
@@ -245,7 +241,9 @@ export default function UserRenewals() {
           <CardContent className="p-4">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm text-muted-foreground">61-90 Days</p>
+                <p className="text-sm text-muted-foreground">
+                  {thresholds.warningDays + 1}-{thresholds.soonDays} Days
+                </p>
                 <p className="text-2xl font-bold" data-testid="text-90-days-count">
                   {categorizedCerts.upcoming.length}
                 </p>
@@ -260,48 +258,38 @@ export default function UserRenewals() {
         <EmptyState
           icon={CheckCircle}
           title="All certifications are up to date!"
-          description="None of your certifications are expiring in the next 90 days. Great job keeping your credentials current!"
+          description={`None of your certifications are expiring in the next ${thresholds.soonDays} days. Great job keeping your credentials current!`}
         />
       ) : (
         <div className="space-y-8">
           {renderSection(
             "Expired - Immediate Action Required",
             categorizedCerts.expired,
-            XCircle,
-            "text-destructive",
-            "bg-destructive/10"
+            "expired"
           )}
           {renderSection(
-            "Critical - Expiring Within 30 Days",
+            `Critical - Expiring Within ${thresholds.criticalDays} Days`,
             categorizedCerts.critical,
-            AlertTriangle,
-            "text-destructive",
-            "bg-destructive/10"
+            "critical"
           )}
           {renderSection(
-            "Warning - Expiring Within 60 Days",
+            `Warning - Expiring Within ${thresholds.warningDays} Days`,
             categorizedCerts.warning,
-            Clock,
-            "text-yellow-600 dark:text-yellow-500",
-            "bg-yellow-500/10"
+            "warning"
           )}
           {renderSection(
-            "Upcoming - Expiring Within 90 Days",
+            `Upcoming - Expiring Within ${thresholds.soonDays} Days`,
             categorizedCerts.upcoming,
-            Clock,
-            "text-muted-foreground",
-            "bg-muted"
+            "soon"
           )}
         </div>
       )}
 
-      <CertificationForm
-        open={!!editingCert}
-        onOpenChange={(open) => !open && setEditingCert(null)}
-        onSubmit={(data) => updateMutation.mutate(data)}
-        certification={editingCert}
-        isLoading={updateMutation.isPending}
-        currentUserId={user?.id}
+      <RenewalForm
+        certification={renewingCert}
+        onOpenChange={(open) => !open && setRenewingCert(null)}
+        onSubmit={(data) => renewMutation.mutate(data)}
+        isLoading={renewMutation.isPending}
       />
     </div>
   );
@@ -0,0 +1,16 @@
+import { AccountSettings } from "@/components/account-settings";
+
+export default function UserSettingsPage() {
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-semibold" data-testid="text-page-title">Settings</h1>
+        <p className="text-muted-foreground mt-1">
+          Manage your profile, password and preferences
+        </p>
+      </div>
+
+      <AccountSettings />
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+import { defineConfig } from "drizzle-kit";
+
+// `npm run db:push` targets DATABASE_URL directly. The SQL files in
+// ./migrations are what the server applies on startup, to Postgres and to
+// the embedded PGlite database alike; regenerate them with
+// `npx drizzle-kit generate` after changing shared/schema.ts.
+export default defineConfig({
+  out: "./migrations",
+  schema: "./shared/schema.ts",
+  dialect: "postgresql",
+  dbCredentials: {
+    url: process.env.DATABASE_URL ?? "",
+  },
+});
@@ -0,0 +1,6 @@
+CREATE TABLE "organization_settings" (
+	"id" integer PRIMARY KEY DEFAULT 1 NOT NULL,
+	"critical_days" integer DEFAULT 30 NOT NULL,
+	"warning_days" integer DEFAULT 60 NOT NULL,
+	"soon_days" integer DEFAULT 90 NOT NULL
+);
@@ -0,0 +1,10 @@
+CREATE TABLE "user_settings" (
+	"user_id" varchar PRIMARY KEY NOT NULL,
+	"email_reminders" boolean DEFAULT true NOT NULL,
+	"default_view" text DEFAULT 'grid' NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "organization_settings" ADD COLUMN "organization_name" text DEFAULT 'CertTrack' NOT NULL;--> statement-breakpoint
+ALTER TABLE "organization_settings" ADD COLUMN "reminder_offsets" integer[] DEFAULT '{90,60,30,7,0}' NOT NULL;--> statement-breakpoint
+ALTER TABLE "organization_settings" ADD COLUMN "allowed_issuers" text[] DEFAULT '{}' NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_settings" ADD CONSTRAINT "user_settings_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
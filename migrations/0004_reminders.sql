@@ -0,0 +1,13 @@
+CREATE TABLE "reminders" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"certification_id" varchar NOT NULL,
+	"recipient_id" varchar NOT NULL,
+	"offset_days" integer NOT NULL,
+	"expiration_date" date NOT NULL,
+	"sent_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "organization_settings" ADD COLUMN "remind_admins" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "reminders" ADD CONSTRAINT "reminders_certification_id_certifications_id_fk" FOREIGN KEY ("certification_id") REFERENCES "public"."certifications"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "reminders" ADD CONSTRAINT "reminders_recipient_id_users_id_fk" FOREIGN KEY ("recipient_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "reminders_milestone_idx" ON "reminders" USING btree ("certification_id","recipient_id","expiration_date","offset_days");
\ No newline at end of file
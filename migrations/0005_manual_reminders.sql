@@ -0,0 +1,3 @@
+ALTER TABLE "reminders" ALTER COLUMN "offset_days" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "reminders" ADD COLUMN "sent_by_id" varchar;--> statement-breakpoint
+ALTER TABLE "reminders" ADD CONSTRAINT "reminders_sent_by_id_users_id_fk" FOREIGN KEY ("sent_by_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
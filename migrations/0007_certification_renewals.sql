@@ -0,0 +1,17 @@
+CREATE TABLE "certification_renewals" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"certification_id" varchar NOT NULL,
+	"previous_issue_date" date NOT NULL,
+	"previous_expiration_date" date NOT NULL,
+	"previous_credential_id" text,
+	"issue_date" date NOT NULL,
+	"expiration_date" date NOT NULL,
+	"credential_id" text,
+	"proof_url" text,
+	"renewed_by_id" varchar,
+	"renewed_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "certification_renewals" ADD CONSTRAINT "certification_renewals_certification_id_certifications_id_fk" FOREIGN KEY ("certification_id") REFERENCES "public"."certifications"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "certification_renewals" ADD CONSTRAINT "certification_renewals_renewed_by_id_users_id_fk" FOREIGN KEY ("renewed_by_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "certification_renewals_certification_idx" ON "certification_renewals" USING btree ("certification_id","renewed_at");
\ No newline at end of file
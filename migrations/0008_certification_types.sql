@@ -0,0 +1,11 @@
+CREATE TABLE "certification_types" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"issuing_organization" text,
+	"validity_months" integer,
+	"renewal_basis" text DEFAULT 'expiration' NOT NULL,
+	CONSTRAINT "certification_types_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+ALTER TABLE "certifications" ADD COLUMN "type_id" varchar;--> statement-breakpoint
+ALTER TABLE "certifications" ADD CONSTRAINT "certifications_type_id_certification_types_id_fk" FOREIGN KEY ("type_id") REFERENCES "public"."certification_types"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
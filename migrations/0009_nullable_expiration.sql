@@ -0,0 +1 @@
+ALTER TABLE "certifications" ALTER COLUMN "expiration_date" DROP NOT NULL;
\ No newline at end of file
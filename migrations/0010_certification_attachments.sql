@@ -0,0 +1,17 @@
+CREATE TABLE "certification_attachments" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"certification_id" varchar NOT NULL,
+	"renewal_id" varchar,
+	"file_name" text NOT NULL,
+	"content_type" text NOT NULL,
+	"size" integer NOT NULL,
+	"storage_key" text NOT NULL,
+	"uploaded_by_id" varchar,
+	"uploaded_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "certification_attachments_storage_key_unique" UNIQUE("storage_key")
+);
+--> statement-breakpoint
+ALTER TABLE "certification_attachments" ADD CONSTRAINT "certification_attachments_certification_id_certifications_id_fk" FOREIGN KEY ("certification_id") REFERENCES "public"."certifications"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "certification_attachments" ADD CONSTRAINT "certification_attachments_renewal_id_certification_renewals_id_fk" FOREIGN KEY ("renewal_id") REFERENCES "public"."certification_renewals"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "certification_attachments" ADD CONSTRAINT "certification_attachments_uploaded_by_id_users_id_fk" FOREIGN KEY ("uploaded_by_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "certification_attachments_certification_idx" ON "certification_attachments" USING btree ("certification_id","uploaded_at");
\ No newline at end of file
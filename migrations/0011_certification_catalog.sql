@@ -0,0 +1,4 @@
+ALTER TABLE "certification_types" ADD COLUMN "level" text;--> statement-breakpoint
+ALTER TABLE "certification_types" ADD COLUMN "category" text;--> statement-breakpoint
+ALTER TABLE "certification_types" ADD COLUMN "credential_id_format" text;--> statement-breakpoint
+ALTER TABLE "certification_types" ADD COLUMN "verification_url_template" text;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "certifications" ADD COLUMN "verification_status" text DEFAULT 'unverified' NOT NULL;--> statement-breakpoint
+ALTER TABLE "certifications" ADD COLUMN "verified_by_id" varchar;--> statement-breakpoint
+ALTER TABLE "certifications" ADD COLUMN "verified_at" timestamp;--> statement-breakpoint
+ALTER TABLE "certifications" ADD CONSTRAINT "certifications_verified_by_id_users_id_fk" FOREIGN KEY ("verified_by_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
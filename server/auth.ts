@@ -0,0 +1,211 @@
+import type { Express, RequestHandler } from "express"
+import session, { type SessionData } from "express-session"
+import passport from "passport"
+import { Strategy as LocalStrategy } from "passport-local"
+import { z } from "zod"
+import { insertUserSchema, type User as PublicUser } from "@shared/schema"
+import { passwordSchema } from "@shared/password-policy"
+import { storage } from "./storage"
+import { HttpError, asyncHandler, parseBody } from "./http"
+import { hashPassword, isPasswordHash, passwordPolicy, verifyPassword } from "./passwords"
+
+declare global {
+  namespace Express {
+    interface User extends PublicUser {}
+  }
+}
+
+const SESSION_MAX_AGE = 7 * 24 * 60 * 60 * 1000
+
+const loginSchema = z.object({
+  username: z.string().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+})
+
+const registerSchema = insertUserSchema
+  .pick({ username: true, password: true, fullName: true, email: true })
+  .extend({ password: passwordSchema(passwordPolicy) })
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: passwordSchema(passwordPolicy),
+})
+
+// Keeps express-session records in the tracker's own database, so sessions
+// survive restarts with either the Postgres or the embedded PGlite backend.
+class StorageSessionStore extends session.Store {
+  constructor() {
+    super()
+    setInterval(() => {
+      storage.deleteExpiredSessions().catch((err) => console.error("Failed to prune sessions", err))
+    }, 15 * 60 * 1000).unref()
+  }
+
+  private expiresAt(sess: SessionData) {
+    return sess.cookie?.expires ? new Date(sess.cookie.expires) : new Date(Date.now() + SESSION_MAX_AGE)
+  }
+
+  get(sid: string, callback: (err: unknown, session?: SessionData | null) => void) {
+    storage.getSession(sid).then((sess) => callback(null, (sess as SessionData | undefined) ?? null), callback)
+  }
+
+  set(sid: string, sess: SessionData, callback?: (err?: unknown) => void) {
+    storage.setSession(sid, sess, this.expiresAt(sess)).then(() => callback?.(), (err) => callback?.(err))
+  }
+
+  touch(sid: string, sess: SessionData, callback?: (err?: unknown) => void) {
+    storage.touchSession(sid, this.expiresAt(sess)).then(() => callback?.(), (err) => callback?.(err))
+  }
+
+  destroy(sid: string, callback?: (err?: unknown) => void) {
+    storage.destroySession(sid).then(() => callback?.(), (err) => callback?.(err))
+  }
+}
+
+export const requireAuth: RequestHandler = (req, _res, next) => {
+  if (!req.isAuthenticated()) {
+    return next(new HttpError(401, "Not authenticated"))
+  }
+  next()
+}
+
+export const requireAdmin: RequestHandler = (req, _res, next) => {
+  if (!req.isAuthenticated()) {
+    return next(new HttpError(401, "Not authenticated"))
+  }
+  if (req.user.role !== "admin") {
+    return next(new HttpError(403, "Administrator access required"))
+  }
+  next()
+}
+
+export function isAdmin(user: Express.User) {
+  return user.role === "admin"
+}
+
+// Admins may act on every record; everyone else only on records they own.
+export function assertOwnerOrAdmin(user: Express.User, ownerId: string, message: string) {
+  if (!isAdmin(user) && user.id !== ownerId) {
+    throw new HttpError(403, message)
+  }
+}
+
+export function setupAuth(app: Express) {
+  const secret = process.env.SESSION_SECRET
+  if (!secret && process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production")
+  }
+
+  app.set("trust proxy", 1)
+  app.use(
+    session({
+      secret: secret || "certtrack-dev-secret",
+      store: new StorageSessionStore(),
+      resave: false,
+      saveUninitialized: false,
+      cookie: {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        maxAge: SESSION_MAX_AGE,
+      },
+    }),
+  )
+  app.use(passport.initialize())
+  app.use(passport.session())
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const record = await storage.getUserCredentials(username)
+        if (!record) {
+          // Spend the same effort as a real check so unknown usernames are not revealed by timing
+          await hashPassword(password)
+          return done(null, false)
+        }
+        if (!(await verifyPassword(password, record.password))) {
+          return done(null, false)
+        }
+        if (record.deactivated) {
+          return done(new HttpError(403, "This account has been deactivated"))
+        }
+        if (!isPasswordHash(record.password)) {
+          // Accounts from before hashing still hold plaintext; replace it now that we know it
+          await storage.updateUser(record.id, { password })
+        }
+        const { password: _password, ...user } = record
+        return done(null, user)
+      } catch (err) {
+        return done(err)
+      }
+    }),
+  )
+
+  // Only the id goes into the session; the user is re-read from the database
+  // on every request so a demotion or deactivation takes effect immediately.
+  passport.serializeUser((user, done) => done(null, user.id))
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id)
+      done(null, user && !user.deactivated ? user : false)
+    } catch (err) {
+      done(err)
+    }
+  })
+
+  app.post("/api/auth/register", asyncHandler(async (req, res, next) => {
+    const data = parseBody(registerSchema, req.body)
+    if (await storage.getUserByUsername(data.username)) {
+      throw new HttpError(409, "Username already exists")
+    }
+    const user = await storage.createUser({ ...data, role: "user" })
+    req.login(user, (err) => {
+      if (err) return next(err)
+      res.status(201).json(user)
+    })
+  }))
+
+  app.post("/api/auth/login", (req, res, next) => {
+    const result = loginSchema.safeParse(req.body)
+    if (!result.success) {
+      return next(new HttpError(400, "Username and password are required"))
+    }
+    passport.authenticate("local", (err: unknown, user: Express.User | false) => {
+      if (err) return next(err)
+      if (!user) return next(new HttpError(401, "Invalid credentials"))
+      req.login(user, (loginErr) => {
+        if (loginErr) return next(loginErr)
+        res.json(user)
+      })
+    })(req, res, next)
+  })
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err)
+      req.session.destroy((destroyErr) => {
+        if (destroyErr) return next(destroyErr)
+        res.clearCookie("connect.sid")
+        res.status(204).end()
+      })
+    })
+  })
+
+  app.post("/api/auth/password", requireAuth, asyncHandler(async (req, res) => {
+    const { currentPassword, newPassword } = parseBody(changePasswordSchema, req.body)
+    const record = await storage.getUserCredentials(req.user!.username)
+    if (!record || !(await verifyPassword(currentPassword, record.password))) {
+      throw new HttpError(400, "Current password is incorrect")
+    }
+    await storage.updateUser(record.id, { password: newPassword })
+    res.status(204).end()
+  }))
+
+  app.get("/api/auth/password-policy", (_req, res) => {
+    res.json(passwordPolicy)
+  })
+
+  app.get("/api/auth/me", requireAuth, (req, res) => {
+    res.json(req.user)
+  })
+}
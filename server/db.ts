@@ -0,0 +1,46 @@
+import path from "path"
+import pg from "pg"
+import { PGlite } from "@electric-sql/pglite"
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core"
+import { drizzle as drizzlePostgres } from "drizzle-orm/node-postgres"
+import { migrate as migratePostgres } from "drizzle-orm/node-postgres/migrator"
+import { drizzle as drizzlePglite } from "drizzle-orm/pglite"
+import { migrate as migratePglite } from "drizzle-orm/pglite/migrator"
+import * as schema from "@shared/schema"
+
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>
+
+const migrationsFolder = path.resolve(process.cwd(), "migrations")
+
+// DATABASE_URL selects a Postgres server. Without it the tracker runs on an
+// embedded PGlite database stored under PGLITE_DATA_DIR (default ./data/pglite);
+// set PGLITE_DATA_DIR=memory:// for a throwaway in-memory database.
+function openDatabase() {
+  if (process.env.DATABASE_URL) {
+    const pool = new pg.Pool({ connectionString: process.env.DATABASE_URL })
+    const db = drizzlePostgres(pool, { schema })
+    return {
+      db,
+      description: "Postgres (DATABASE_URL)",
+      migrate: () => migratePostgres(db, { migrationsFolder }),
+    }
+  }
+
+  const dataDir = process.env.PGLITE_DATA_DIR || path.resolve(process.cwd(), "data", "pglite")
+  const client = new PGlite(dataDir)
+  const db = drizzlePglite(client, { schema })
+  return {
+    db,
+    description: `embedded PGlite (${dataDir})`,
+    migrate: () => migratePglite(db, { migrationsFolder }),
+  }
+}
+
+const database = openDatabase()
+
+export const db: Database = database.db
+
+export async function migrateDatabase() {
+  await database.migrate()
+  console.log(`Using ${database.description}`)
+}
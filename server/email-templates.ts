@@ -0,0 +1,65 @@
+import { format, parseISO } from "date-fns"
+import { describeDaysLeft } from "@shared/status"
+import type { MailMessage } from "./mailer"
+
+export interface ReminderEmail {
+  organizationName: string
+  recipientName: string
+  // Set when the recipient is an administrator copied on someone else's reminder
+  ownerName?: string
+  certificationName: string
+  issuingOrganization: string
+  expirationDate: string
+  daysLeft: number
+  link: string
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]!)
+
+function headline(data: ReminderEmail) {
+  const whose = data.ownerName ? `${data.ownerName}'s` : "Your"
+  if (data.daysLeft < 0) return `${whose} ${data.certificationName} certification has expired`
+  if (data.daysLeft === 0) return `${whose} ${data.certificationName} certification expires today`
+  return `${whose} ${data.certificationName} certification expires in ${data.daysLeft} ${data.daysLeft === 1 ? "day" : "days"}`
+}
+
+export function renderReminderEmail(data: ReminderEmail): Omit<MailMessage, "to"> {
+  const title = headline(data)
+  const expires = format(parseISO(data.expirationDate), "MMMM d, yyyy")
+  const action = data.ownerName
+    ? "You are receiving this copy as an administrator."
+    : "Renew it and update the record so your profile stays current."
+
+  const text = [
+    `Hi ${data.recipientName},`,
+    "",
+    `${title}.`,
+    "",
+    `Certification: ${data.certificationName}`,
+    `Issuer: ${data.issuingOrganization}`,
+    `Expiration date: ${expires} (${describeDaysLeft(data.daysLeft)})`,
+    "",
+    action,
+    data.link,
+    "",
+    `- ${data.organizationName}`,
+  ].join("\n")
+
+  const html = `<!doctype html>
+<html>
+  <body style="font-family: Arial, sans-serif; color: #111827; line-height: 1.5;">
+    <p>Hi ${escapeHtml(data.recipientName)},</p>
+    <p><strong>${escapeHtml(title)}.</strong></p>
+    <table cellpadding="4" style="border-collapse: collapse;">
+      <tr><td style="color: #6b7280;">Certification</td><td>${escapeHtml(data.certificationName)}</td></tr>
+      <tr><td style="color: #6b7280;">Issuer</td><td>${escapeHtml(data.issuingOrganization)}</td></tr>
+      <tr><td style="color: #6b7280;">Expiration date</td><td>${escapeHtml(expires)} (${escapeHtml(describeDaysLeft(data.daysLeft))})</td></tr>
+    </table>
+    <p>${escapeHtml(action)}</p>
+    <p><a href="${escapeHtml(data.link)}">Open ${escapeHtml(data.organizationName)}</a></p>
+  </body>
+</html>`
+
+  return { subject: `[${data.organizationName}] ${title}`, text, html }
+}
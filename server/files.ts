@@ -0,0 +1,92 @@
+import { mkdir, readFile, rm, writeFile } from "fs/promises"
+import path from "path"
+import { DeleteObjectCommand, GetObjectCommand, NoSuchKey, PutObjectCommand, S3Client } from "@aws-sdk/client-s3"
+
+export interface FileStore {
+  description: string
+  put(key: string, body: Buffer, contentType: string): Promise<void>
+  // Resolves to undefined when there is no such file
+  get(key: string): Promise<Buffer | undefined>
+  delete(key: string): Promise<void>
+}
+
+// Keys are generated by the server, but keep them inside the directory regardless
+function diskPath(root: string, key: string) {
+  const file = path.resolve(root, key)
+  if (!file.startsWith(root + path.sep)) throw new Error(`Invalid file key ${key}`)
+  return file
+}
+
+function createDiskStore(root: string): FileStore {
+  return {
+    description: `local disk (${root})`,
+    async put(key, body) {
+      const file = diskPath(root, key)
+      await mkdir(path.dirname(file), { recursive: true })
+      await writeFile(file, body)
+    },
+    async get(key) {
+      try {
+        return await readFile(diskPath(root, key))
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") return undefined
+        throw err
+      }
+    },
+    async delete(key) {
+      await rm(diskPath(root, key), { force: true })
+    },
+  }
+}
+
+function createS3Store(bucket: string): FileStore {
+  const endpoint = process.env.S3_ENDPOINT
+  const client = new S3Client({
+    region: process.env.S3_REGION || "us-east-1",
+    endpoint,
+    // Local stand-ins such as MinIO serve buckets by path rather than subdomain
+    forcePathStyle: !!endpoint,
+    credentials: process.env.S3_ACCESS_KEY_ID
+      ? { accessKeyId: process.env.S3_ACCESS_KEY_ID, secretAccessKey: process.env.S3_SECRET_ACCESS_KEY ?? "" }
+      : undefined,
+  })
+  return {
+    description: `S3 bucket ${bucket}${endpoint ? ` at ${endpoint}` : ""}`,
+    async put(key, body, contentType) {
+      await client.send(new PutObjectCommand({ Bucket: bucket, Key: key, Body: body, ContentType: contentType }))
+    },
+    async get(key) {
+      try {
+        const object = await client.send(new GetObjectCommand({ Bucket: bucket, Key: key }))
+        return object.Body ? Buffer.from(await object.Body.transformToByteArray()) : undefined
+      } catch (err) {
+        if (err instanceof NoSuchKey) return undefined
+        throw err
+      }
+    },
+    async delete(key) {
+      await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: key }))
+    },
+  }
+}
+
+// S3_BUCKET selects an S3-compatible store (S3_ENDPOINT points at a local
+// stand-in such as MinIO). Without it, uploaded documents are kept on disk
+// under FILES_DIR (default ./data/files).
+function createFileStore(): FileStore {
+  if (process.env.S3_BUCKET) return createS3Store(process.env.S3_BUCKET)
+  return createDiskStore(path.resolve(process.env.FILES_DIR || path.join(process.cwd(), "data", "files")))
+}
+
+export const fileStore = createFileStore()
+
+// For files whose records are already gone; a failure only leaves an orphan behind
+export async function removeFiles(keys: string[]) {
+  for (const key of keys) {
+    try {
+      await fileStore.delete(key)
+    } catch (err) {
+      console.error(`[files] could not delete ${key}`, err)
+    }
+  }
+}
@@ -0,0 +1,38 @@
+import type { NextFunction, Request, RequestHandler, Response } from "express"
+import { z } from "zod"
+import { fromZodError } from "zod-validation-error"
+
+export class HttpError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+  ) {
+    super(message)
+  }
+}
+
+export function parseBody<T extends z.ZodTypeAny>(schema: T, body: unknown): z.infer<T> {
+  const result = schema.safeParse(body)
+  if (!result.success) {
+    throw new HttpError(400, fromZodError(result.error).message)
+  }
+  return result.data
+}
+
+// Express 4 does not forward rejected promises to the error middleware.
+export function asyncHandler(
+  handler: (req: Request, res: Response, next: NextFunction) => Promise<unknown>,
+): RequestHandler {
+  return (req, res, next) => {
+    handler(req, res, next).catch(next)
+  }
+}
+
+export function errorHandler(err: unknown, _req: Request, res: Response, _next: NextFunction) {
+  const status = err instanceof HttpError ? err.status : 500
+  const message = err instanceof Error && status < 500 ? err.message : "Internal Server Error"
+  if (status >= 500) {
+    console.error(err)
+  }
+  res.status(status).json({ message })
+}
@@ -1,19 +1,45 @@
 import express from "express"
+import { registerRoutes } from "./routes"
+import { setupAuth } from "./auth"
+import { errorHandler } from "./http"
+import { migrateDatabase } from "./db"
+import { seedDemoUsers } from "./storage"
+import { startReminderScheduler } from "./reminders"
 
 const app = express()
 const port = process.env.PORT ? Number(process.env.PORT) : 3000
 
-app.use(express.json())
+// Backups hold the whole tracker, so restores get a larger allowance
+app.use("/api/backup", express.json({ limit: "25mb" }))
+// Room for a full certification import in one request
+app.use(express.json({ limit: "1mb" }))
 
 // Home
 app.get("/", (_req, res) => {
-  res.send("Server running - all data stored in browser localStorage")
+  res.send("Server running - API available under /api")
 })
 
-// Note: All auth and certification data is stored in browser localStorage only.
-// No backend persistence. See client/src/lib/localAuth.ts and client/src/lib/localData.ts
+setupAuth(app)
+registerRoutes(app)
 
-app.listen(port, () => {
-  console.log(`Server listening on http://localhost:${port}`)
-  console.log(`All data is stored in browser localStorage - no backend persistence`)
+// Unknown API routes answer with JSON so the client can surface the message
+app.use("/api", (_req, res) => {
+  res.status(404).json({ message: "Not found" })
+})
+
+app.use(errorHandler)
+
+async function start() {
+  await migrateDatabase()
+  await seedDemoUsers()
+  startReminderScheduler()
+
+  app.listen(port, () => {
+    console.log(`Server listening on http://localhost:${port}`)
+  })
+}
+
+start().catch((err) => {
+  console.error("Failed to start server", err)
+  process.exit(1)
 })
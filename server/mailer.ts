@@ -0,0 +1,36 @@
+import nodemailer, { type Transporter } from "nodemailer"
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+  html: string
+}
+
+// SMTP_HOST points at a real relay in production, or at a local catch-all such
+// as Mailpit (SMTP_HOST=localhost SMTP_PORT=1025) while testing. Without it,
+// messages are only logged.
+function createTransport(): Transporter {
+  const host = process.env.SMTP_HOST
+  if (!host) return nodemailer.createTransport({ jsonTransport: true })
+
+  return nodemailer.createTransport({
+    host,
+    port: process.env.SMTP_PORT ? Number(process.env.SMTP_PORT) : 587,
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.SMTP_USER ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS } : undefined,
+  })
+}
+
+const transport = createTransport()
+const from = process.env.MAIL_FROM || "CertTrack <no-reply@localhost>"
+
+// Resolves to false when the message was only logged, not delivered
+export async function sendMail(message: MailMessage): Promise<boolean> {
+  await transport.sendMail({ from, ...message })
+  if (!process.env.SMTP_HOST) {
+    console.log(`[mail] not sent (SMTP_HOST unset) to ${message.to}: ${message.subject}`)
+    return false
+  }
+  return true
+}
@@ -0,0 +1,74 @@
+import { format, parseISO } from "date-fns"
+import type { Certification, InsertNotification, User } from "@shared/schema"
+import { dueOffset } from "@shared/settings"
+import { daysUntilExpiration, hasExpiration } from "@shared/status"
+import { storage } from "./storage"
+import { isAdmin } from "./auth"
+
+const formatDate = (date: string) => format(parseISO(date), "MMM d, yyyy")
+
+function expiryNotification(
+  cert: Certification & { expirationDate: string },
+  reminderOffsets: number[],
+  today: Date,
+): InsertNotification | undefined {
+  const daysLeft = daysUntilExpiration(cert.expirationDate, today)
+  const base = { userId: cert.userId, certificationId: cert.id }
+  if (daysLeft < 0) {
+    return {
+      ...base,
+      type: "expired",
+      message: `${cert.name} expired on ${formatDate(cert.expirationDate)}`,
+      dedupeKey: `expired:${cert.expirationDate}`,
+    }
+  }
+  const offset = dueOffset(reminderOffsets, daysLeft)
+  if (offset === undefined) return undefined
+  return {
+    ...base,
+    type: "expiring",
+    message:
+      daysLeft === 0
+        ? `${cert.name} expires today`
+        : `${cert.name} expires in ${daysLeft} day${daysLeft === 1 ? "" : "s"}`,
+    dedupeKey: `expiring:${cert.expirationDate}:${offset}`,
+  }
+}
+
+// Tells owners about the same milestones the reminder emails use, plus once
+// when a certification lapses. Keys include the expiration date, so renewing
+// starts afresh. Unlike the emails these ignore the emailReminders preference.
+export async function raiseExpiryNotifications(today: Date = new Date()): Promise<number> {
+  const { reminderOffsets } = await storage.getOrganizationSettings()
+  const activeUserIds = new Set((await storage.getUsers()).filter((u) => !u.deactivated).map((u) => u.id))
+  let raised = 0
+
+  for (const cert of (await storage.getCertifications()).filter(hasExpiration)) {
+    if (!activeUserIds.has(cert.userId)) continue
+    const notification = expiryNotification(cert, reminderOffsets, today)
+    if (notification && (await storage.createNotification(notification))) raised++
+  }
+
+  return raised
+}
+
+// Tells the owner when an administrator assigns them a certification or
+// renews one of theirs. Changes people make to their own records are silent.
+export async function notifyCertificationChange(actor: User, before: Certification | undefined, after: Certification) {
+  if (!isAdmin(actor) || after.userId === actor.id) return
+
+  const base = { userId: after.userId, certificationId: after.id }
+  if (!before || before.userId !== after.userId) {
+    await storage.createNotification({
+      ...base,
+      type: "assigned",
+      message: `${actor.fullName} assigned ${after.name} to you`,
+    })
+  } else if (hasExpiration(after) && hasExpiration(before) && after.expirationDate > before.expirationDate) {
+    await storage.createNotification({
+      ...base,
+      type: "renewed",
+      message: `${actor.fullName} renewed ${after.name} until ${formatDate(after.expirationDate)}`,
+    })
+  }
+}
@@ -0,0 +1,54 @@
+import { randomBytes, scrypt, timingSafeEqual, createHash, type ScryptOptions } from "crypto"
+import { DEFAULT_PASSWORD_POLICY, type PasswordPolicy } from "@shared/password-policy"
+
+// Stored as scrypt$N$r$p$salt$hash with base64 salt and hash. Anything without
+// the prefix is a plaintext password from before hashing was introduced.
+const SCRYPT_PREFIX = "scrypt$"
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 }
+const KEY_LENGTH = 64
+
+function deriveKey(password: string, salt: Buffer, params: typeof SCRYPT_PARAMS): Promise<Buffer> {
+  const options: ScryptOptions = { ...params, maxmem: 64 * 1024 * 1024 }
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, options, (err, key) => (err ? reject(err) : resolve(key)))
+  })
+}
+
+export function isPasswordHash(stored: string) {
+  return stored.startsWith(SCRYPT_PREFIX)
+}
+
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16)
+  const key = await deriveKey(password, salt, SCRYPT_PARAMS)
+  const { N, r, p } = SCRYPT_PARAMS
+  return `${SCRYPT_PREFIX}${N}$${r}$${p}$${salt.toString("base64")}$${key.toString("base64")}`
+}
+
+export async function verifyPassword(password: string, stored: string) {
+  if (!isPasswordHash(stored)) {
+    // Hash both sides first so the comparison takes the same time regardless of length
+    const a = createHash("sha256").update(password).digest()
+    const b = createHash("sha256").update(stored).digest()
+    return timingSafeEqual(a, b)
+  }
+
+  const [, N, r, p, salt, hash] = stored.split("$")
+  const expected = Buffer.from(hash, "base64")
+  const actual = await deriveKey(password, Buffer.from(salt, "base64"), { N: Number(N), r: Number(r), p: Number(p) })
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+function envFlag(name: string, fallback: boolean) {
+  const value = process.env[name]
+  if (value === undefined) return fallback
+  return value === "true" || value === "1"
+}
+
+export const passwordPolicy: PasswordPolicy = {
+  minLength: Number(process.env.PASSWORD_MIN_LENGTH) || DEFAULT_PASSWORD_POLICY.minLength,
+  requireLowercase: envFlag("PASSWORD_REQUIRE_LOWERCASE", DEFAULT_PASSWORD_POLICY.requireLowercase),
+  requireUppercase: envFlag("PASSWORD_REQUIRE_UPPERCASE", DEFAULT_PASSWORD_POLICY.requireUppercase),
+  requireNumber: envFlag("PASSWORD_REQUIRE_NUMBER", DEFAULT_PASSWORD_POLICY.requireNumber),
+  requireSymbol: envFlag("PASSWORD_REQUIRE_SYMBOL", DEFAULT_PASSWORD_POLICY.requireSymbol),
+}
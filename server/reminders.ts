@@ -0,0 +1,142 @@
+import type { Certification, Reminder, User } from "@shared/schema"
+import { dueOffset } from "@shared/settings"
+import { daysUntilExpiration, hasExpiration } from "@shared/status"
+import { storage } from "./storage"
+import { HttpError } from "./http"
+import { sendMail } from "./mailer"
+import { renderReminderEmail } from "./email-templates"
+import { raiseExpiryNotifications } from "./notifications"
+
+const appUrl = (process.env.APP_URL || "http://localhost:5173").replace(/\/$/, "")
+
+async function wantsReminders(user: User) {
+  if (user.deactivated) return false
+  return (await storage.getUserSettings(user.id)).emailReminders
+}
+
+async function recipientsFor(cert: Certification, users: User[], remindAdmins: boolean) {
+  const recipients: User[] = []
+  const owner = users.find((u) => u.id === cert.userId)
+  if (owner && (await wantsReminders(owner))) recipients.push(owner)
+  if (remindAdmins) {
+    for (const admin of users.filter((u) => u.role === "admin" && u.id !== cert.userId)) {
+      if (await wantsReminders(admin)) recipients.push(admin)
+    }
+  }
+  return { owner, recipients }
+}
+
+function reminderEmail(
+  cert: Certification & { expirationDate: string },
+  recipient: User,
+  owner: User | undefined,
+  organizationName: string,
+  today: Date,
+) {
+  const isOwner = recipient.id === cert.userId
+  return renderReminderEmail({
+    organizationName,
+    recipientName: recipient.fullName,
+    ownerName: isOwner ? undefined : owner?.fullName ?? "A user",
+    certificationName: cert.name,
+    issuingOrganization: cert.issuingOrganization,
+    expirationDate: cert.expirationDate,
+    daysLeft: daysUntilExpiration(cert.expirationDate, today),
+    link: `${appUrl}${isOwner ? "/dashboard/renewals" : "/admin/expiring"}`,
+  })
+}
+
+// Sends every reminder that is due and not yet sent. Each milestone is claimed
+// in the reminders table before the email goes out, so overlapping runs cannot
+// send it twice; a failed send releases the claim to retry on the next run, as
+// does one only logged because SMTP is not configured yet.
+export async function sendDueReminders(today: Date = new Date()): Promise<number> {
+  const settings = await storage.getOrganizationSettings()
+  if (settings.reminderOffsets.length === 0) return 0
+
+  const users = await storage.getUsers()
+  let sent = 0
+
+  for (const cert of (await storage.getCertifications()).filter(hasExpiration)) {
+    const daysLeft = daysUntilExpiration(cert.expirationDate, today)
+    const offset = dueOffset(settings.reminderOffsets, daysLeft)
+    if (offset === undefined) continue
+
+    const { owner, recipients } = await recipientsFor(cert, users, settings.remindAdmins)
+    for (const recipient of recipients) {
+      const claim = await storage.recordReminder({
+        certificationId: cert.id,
+        recipientId: recipient.id,
+        offsetDays: offset,
+        expirationDate: cert.expirationDate,
+      })
+      if (!claim) continue
+
+      try {
+        const email = reminderEmail(cert, recipient, owner, settings.organizationName, today)
+        if (await sendMail({ to: recipient.email, ...email })) {
+          sent++
+        } else {
+          await storage.deleteReminder(claim.id)
+        }
+      } catch (err) {
+        await storage.deleteReminder(claim.id)
+        console.error(`Failed to send reminder for certification ${cert.id} to ${recipient.email}`, err)
+      }
+    }
+  }
+
+  return sent
+}
+
+// Emails the owner straight away on an admin's request. The owner's
+// emailReminders preference only silences the schedule, not a direct nudge.
+export async function sendManualReminder(cert: Certification, sentBy: User): Promise<Reminder> {
+  if (!hasExpiration(cert)) {
+    throw new HttpError(409, "This certification does not expire")
+  }
+  const owner = await storage.getUser(cert.userId)
+  if (!owner || owner.deactivated) {
+    throw new HttpError(409, "The owner of this certification is deactivated")
+  }
+
+  const settings = await storage.getOrganizationSettings()
+  const reminder = await storage.recordReminder({
+    certificationId: cert.id,
+    recipientId: owner.id,
+    offsetDays: null,
+    expirationDate: cert.expirationDate,
+    sentById: sentBy.id,
+  })
+  if (!reminder) throw new Error("Manual reminder was not recorded")
+
+  try {
+    const email = reminderEmail(cert, owner, owner, settings.organizationName, new Date())
+    await sendMail({ to: owner.email, ...email })
+  } catch (err) {
+    await storage.deleteReminder(reminder.id)
+    console.error(`Failed to send reminder for certification ${cert.id} to ${owner.email}`, err)
+    throw new HttpError(502, "The reminder email could not be sent")
+  }
+  return reminder
+}
+
+// Checks hourly by default; REMINDER_INTERVAL_MINUTES changes the cadence and
+// REMINDERS_ENABLED=false turns the scheduler off. Each run also raises the
+// in-app expiry notifications.
+export function startReminderScheduler() {
+  if (process.env.REMINDERS_ENABLED === "false") return
+
+  const minutes = Number(process.env.REMINDER_INTERVAL_MINUTES) || 60
+  const run = () => {
+    sendDueReminders()
+      .then((sent) => {
+        if (sent > 0) console.log(`Sent ${sent} certification reminder${sent === 1 ? "" : "s"}`)
+      })
+      .catch((err) => console.error("Reminder run failed", err))
+    raiseExpiryNotifications().catch((err) => console.error("Notification run failed", err))
+  }
+
+  run()
+  setInterval(run, minutes * 60 * 1000).unref()
+}
@@ -0,0 +1,556 @@
+import express, { type Express, type Request, type RequestHandler } from "express"
+import { randomUUID } from "crypto"
+import { z } from "zod"
+import { format, isValid, parseISO } from "date-fns"
+import {
+  EXPIRATION_BEFORE_ISSUE,
+  MAX_BULK_REMINDERS,
+  expiresAfterIssue,
+  insertCertificationSchema,
+  insertCertificationTypeSchema,
+  insertUserSchema,
+  renewCertificationSchema,
+  updateCertificationSchema,
+  updateCertificationTypeSchema,
+  updateOrganizationSettingsSchema,
+  updateUserSchema,
+  updateUserSettingsSchema,
+  type Certification,
+} from "@shared/schema"
+import { isAllowedIssuer } from "@shared/settings"
+import { checkImportRows, importCertificationsSchema } from "@shared/import"
+import { exportFormats, matchesFilter, serializeExport, statusFilters, toExportRows } from "@shared/export"
+import { RENEWAL_MUST_EXTEND, RENEWAL_NOT_NEEDED, certifiedOn } from "@shared/renewals"
+import { getCertificationStatus, hasExpiration, statusThresholdsSchema } from "@shared/status"
+import { passwordSchema } from "@shared/password-policy"
+import { createBackup, planRestore, restoreRequestSchema } from "@shared/backup"
+import {
+  ATTACHMENT_SIZE_ERROR,
+  ATTACHMENT_TYPE_ERROR,
+  MAX_ATTACHMENT_BYTES,
+  attachmentContentTypes,
+  checkAttachmentFile,
+  cleanFileName,
+  isAttachmentContentType,
+  matchesSignature,
+} from "@shared/attachments"
+import { credentialIdFormatError, mergeIntoCatalogSchema } from "@shared/catalog"
+import {
+  duplicateMessage,
+  duplicateOverrideSchema,
+  findDuplicate,
+  mergeDuplicatesSchema,
+  mergeProblem,
+  planMerge,
+} from "@shared/duplicates"
+import {
+  UNVERIFIED,
+  invalidatesVerification,
+  setVerificationSchema,
+  verificationFields,
+  withRenewalVerificationUrl,
+  withVerificationUrl,
+} from "@shared/verification"
+import { removesLastAdmin, type UserChange } from "@shared/users"
+import { storage } from "./storage"
+import { sendManualReminder } from "./reminders"
+import { fileStore, removeFiles } from "./files"
+import { notifyCertificationChange } from "./notifications"
+import { passwordPolicy } from "./passwords"
+import { HttpError, asyncHandler, parseBody } from "./http"
+import { assertOwnerOrAdmin, isAdmin, requireAdmin, requireAuth } from "./auth"
+
+const createUserSchema = insertUserSchema.extend({ password: passwordSchema(passwordPolicy) })
+const editUserSchema = updateUserSchema.extend({ password: passwordSchema(passwordPolicy).optional() })
+
+// The pattern alone lets through days like 2025-13-45
+const reportDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be a YYYY-MM-DD date")
+  .refine((value) => isValid(parseISO(value)) && format(parseISO(value), "yyyy-MM-dd") === value, "Date does not exist")
+
+const exportQuerySchema = z.object({
+  format: z.enum(exportFormats).default("csv"),
+  search: z.string().default(""),
+  status: z.enum(statusFilters).default("all"),
+})
+
+const bulkReminderSchema = z.object({
+  certificationIds: z.array(z.string()).min(1, "Choose at least one certification").max(MAX_BULK_REMINDERS),
+})
+
+// Uploads arrive as the raw file, with its name in the query string
+const parseAttachment = express.raw({ type: [...attachmentContentTypes], limit: MAX_ATTACHMENT_BYTES })
+const attachmentBody: RequestHandler = (req, res, next) => {
+  parseAttachment(req, res, (err?: { type?: string }) => {
+    if (err?.type === "entity.too.large") next(new HttpError(413, ATTACHMENT_SIZE_ERROR))
+    else next(err)
+  })
+}
+
+const CERTIFICATION_FORBIDDEN = "You do not have access to this certification"
+const USER_FORBIDDEN = "You do not have access to this user"
+
+async function assertKeepsAnAdmin(id: string, change: UserChange) {
+  if (removesLastAdmin(await storage.getUsers(), id, change)) {
+    throw new HttpError(409, "At least one active administrator is required")
+  }
+}
+
+async function assertAllowedIssuer(issuer: string | undefined) {
+  if (issuer === undefined) return
+  const { allowedIssuers } = await storage.getOrganizationSettings()
+  if (!isAllowedIssuer(allowedIssuers, issuer)) {
+    throw new HttpError(400, "Issuing organization is not on the approved list")
+  }
+}
+
+// Also checks the credential ID against the catalog item's format
+async function assertKnownType(typeId: string | null | undefined, credentialId?: string | null) {
+  if (!typeId) return
+  const type = await storage.getCertificationType(typeId)
+  if (!type) throw new HttpError(400, "Unknown catalog entry")
+  const formatError = credentialIdFormatError(type, credentialId)
+  if (formatError) throw new HttpError(400, formatError)
+}
+
+async function assertUniqueTypeName(name: string | undefined, id?: string) {
+  if (name === undefined) return
+  const existing = await storage.getCertificationTypeByName(name)
+  if (existing && existing.id !== id) {
+    throw new HttpError(409, "A catalog entry with this name already exists")
+  }
+}
+
+async function planBackupRestore(req: Request) {
+  const { mode, backup } = parseBody(restoreRequestSchema, req.body)
+  return planRestore(await storage.getBackupData(), backup, mode, "server", req.user!.id)
+}
+
+async function loadAttachment(req: Request) {
+  const cert = await loadOwnCertification(req)
+  const attachment = await storage.getAttachment(cert.id, req.params.attachmentId)
+  if (!attachment) throw new HttpError(404, "Document not found")
+  return attachment
+}
+
+async function loadOwnCertification(req: Request) {
+  const cert = await storage.getCertification(req.params.id)
+  if (!cert) throw new HttpError(404, "Certification not found")
+  assertOwnerOrAdmin(req.user!, cert.userId, CERTIFICATION_FORBIDDEN)
+  return cert
+}
+
+export function registerRoutes(app: Express) {
+  // Public so the login page can show the organisation's name
+  app.get("/api/settings/branding", asyncHandler(async (_req, res) => {
+    const { organizationName } = await storage.getOrganizationSettings()
+    res.json({ organizationName })
+  }))
+
+  app.use(["/api/certifications", "/api/users", "/api/settings", "/api/notifications", "/api/reports", "/api/certification-types"], requireAuth)
+
+  // Certifications
+  app.get("/api/certifications", asyncHandler(async (req, res) => {
+    const user = req.user!
+    res.json(isAdmin(user) ? await storage.getCertifications() : await storage.getCertificationsByUser(user.id))
+  }))
+
+  // Same rows and filters as the Export menu, for scripted audits
+  app.get("/api/certifications/export", asyncHandler(async (req, res) => {
+    const { format: exportFormat, ...filter } = parseBody(exportQuerySchema, req.query)
+    const user = req.user!
+    const certs = isAdmin(user) ? await storage.getCertifications() : await storage.getCertificationsByUser(user.id)
+    const thresholds = await storage.getOrganizationSettings()
+    const statusOf = (cert: { expirationDate: string | null }) => getCertificationStatus(cert.expirationDate, thresholds)
+    const rows = toExportRows(
+      certs.filter((cert) => matchesFilter(cert, filter, statusOf(cert))),
+      isAdmin(user) ? await storage.getUsers() : [user],
+      statusOf,
+    )
+    const file = serializeExport(rows, exportFormat, format(new Date(), "yyyy-MM-dd"))
+    res.attachment(file.fileName)
+    res.type(file.contentType)
+    res.send(typeof file.body === "string" ? file.body : Buffer.from(file.body))
+  }))
+
+  // Current-cycle documents of every certification the user can see, for the cards
+  app.get("/api/certifications/attachments", asyncHandler(async (req, res) => {
+    const user = req.user!
+    res.json(await storage.getCurrentAttachments(isAdmin(user) ? undefined : user.id))
+  }))
+
+  app.get("/api/certifications/user/:userId", asyncHandler(async (req, res) => {
+    assertOwnerOrAdmin(req.user!, req.params.userId, CERTIFICATION_FORBIDDEN)
+    res.json(await storage.getCertificationsByUser(req.params.userId))
+  }))
+
+  app.get("/api/certifications/:id", asyncHandler(async (req, res) => {
+    res.json(await loadOwnCertification(req))
+  }))
+
+  app.post("/api/certifications", asyncHandler(async (req, res) => {
+    const data = parseBody(insertCertificationSchema, { userId: req.user!.id, ...req.body })
+    assertOwnerOrAdmin(req.user!, data.userId, CERTIFICATION_FORBIDDEN)
+    await assertAllowedIssuer(data.issuingOrganization)
+    await assertKnownType(data.typeId, data.credentialId)
+    // The form shows the same warning first and sends allowDuplicate once it has been seen
+    const { allowDuplicate } = parseBody(duplicateOverrideSchema, req.body)
+    const duplicate = findDuplicate(data, await storage.getCertificationsByUser(data.userId))
+    if (duplicate && !allowDuplicate) throw new HttpError(409, duplicateMessage(duplicate))
+    const created = await storage.createCertification(withVerificationUrl(data, await storage.getCertificationTypes()))
+    await notifyCertificationChange(req.user!, undefined, created)
+    res.status(201).json(created)
+  }))
+
+  // Every row must pass before anything is created. Admins can name owners by
+  // username or email; everyone else imports for themselves. Rows repeating a
+  // certification the owner already has are skipped.
+  app.post("/api/certifications/import", asyncHandler(async (req, res) => {
+    const { rows } = parseBody(importCertificationsSchema, req.body)
+    const user = req.user!
+    const { allowedIssuers } = await storage.getOrganizationSettings()
+    const checked = checkImportRows(rows, {
+      allowedIssuers,
+      users: isAdmin(user) ? await storage.getUsers() : [user],
+      currentUserId: user.id,
+      existing: isAdmin(user) ? await storage.getCertifications() : await storage.getCertificationsByUser(user.id),
+    })
+    const invalid = checked.find((row) => row.errors)
+    if (invalid?.errors) {
+      throw new HttpError(400, `Row ${invalid.row}: ${invalid.errors.join("; ")}`)
+    }
+    const fresh = checked.filter((row) => !row.duplicate)
+    const types = await storage.getCertificationTypes()
+    const created = await storage.createCertifications(fresh.map((row) => withVerificationUrl(row.data!, types)))
+    for (const cert of created) await notifyCertificationChange(user, undefined, cert)
+    res.status(201).json({ imported: created.length, skipped: checked.length - fresh.length })
+  }))
+
+  // Folds duplicates into one record; see storage.mergeCertifications
+  app.post("/api/certifications/merge", requireAdmin, asyncHandler(async (req, res) => {
+    const { primaryId, duplicateIds } = parseBody(mergeDuplicatesSchema, req.body)
+    const primary = await storage.getCertification(primaryId)
+    if (!primary) throw new HttpError(404, "Certification not found")
+    const ids = Array.from(new Set(duplicateIds)).filter((id) => id !== primaryId)
+    const duplicates = await Promise.all(ids.map((id) => storage.getCertification(id)))
+    if (ids.length === 0 || duplicates.some((cert) => !cert)) {
+      throw new HttpError(404, "Certification not found")
+    }
+    if (duplicates.some((cert) => cert!.userId !== primary.userId)) {
+      throw new HttpError(400, "Only certifications belonging to the same user can be merged")
+    }
+    const others = duplicates as Certification[]
+    const attachments = (await Promise.all([primaryId, ...ids].map((id) => storage.getAttachments(id)))).flat()
+    const problem = mergeProblem(primary, others, attachments)
+    if (problem) throw new HttpError(400, problem)
+    res.json(await storage.mergeCertifications(primaryId, ids, planMerge(primary, others), req.user!.id))
+  }))
+
+  app.patch("/api/certifications/:id", asyncHandler(async (req, res) => {
+    const cert = await loadOwnCertification(req)
+    const data = parseBody(updateCertificationSchema, req.body)
+    if (data.userId) {
+      assertOwnerOrAdmin(req.user!, data.userId, CERTIFICATION_FORBIDDEN)
+    }
+    // Certifications from issuers removed from the list can still be edited
+    if (data.issuingOrganization !== cert.issuingOrganization) {
+      await assertAllowedIssuer(data.issuingOrganization)
+    }
+    const issueDate = data.issueDate ?? cert.issueDate
+    const expirationDate = data.expirationDate === undefined ? cert.expirationDate : data.expirationDate
+    if (!expiresAfterIssue({ issueDate, expirationDate })) {
+      throw new HttpError(400, EXPIRATION_BEFORE_ISSUE)
+    }
+    // As with issuers, an ID saved before its catalog format was set can be kept
+    const typeId = data.typeId === undefined ? cert.typeId : data.typeId
+    const credentialId = data.credentialId === undefined ? cert.credentialId : data.credentialId
+    if (typeId !== cert.typeId || credentialId !== cert.credentialId) {
+      await assertKnownType(typeId, credentialId)
+    }
+    const changes = invalidatesVerification(cert, data) ? { ...data, ...UNVERIFIED } : data
+    const updated = await storage.updateCertification(req.params.id, changes)
+    if (updated) await notifyCertificationChange(req.user!, cert, updated)
+    res.json(updated)
+  }))
+
+  // Records who vouched for the credential and how; "unverified" sends it back to the queue
+  app.post("/api/certifications/:id/verification", requireAdmin, asyncHandler(async (req, res) => {
+    const { status } = parseBody(setVerificationSchema, req.body)
+    const cert = await storage.getCertification(req.params.id)
+    if (!cert) throw new HttpError(404, "Certification not found")
+    res.json(await storage.updateCertification(cert.id, verificationFields(status, req.user!.id)))
+  }))
+
+  app.delete("/api/certifications/:id", asyncHandler(async (req, res) => {
+    await loadOwnCertification(req)
+    const fileKeys = await storage.getAttachmentStorageKeys([req.params.id])
+    await storage.deleteCertification(req.params.id)
+    await removeFiles(fileKeys)
+    res.status(204).end()
+  }))
+
+  // Attachments
+  app.get("/api/certifications/:id/attachments", asyncHandler(async (req, res) => {
+    await loadOwnCertification(req)
+    res.json(await storage.getAttachments(req.params.id))
+  }))
+
+  app.post("/api/certifications/:id/attachments", attachmentBody, asyncHandler(async (req, res) => {
+    const cert = await loadOwnCertification(req)
+    const contentType = req.get("content-type")?.split(";")[0].trim() ?? ""
+    const body: unknown = req.body
+    if (!Buffer.isBuffer(body) || !isAttachmentContentType(contentType)) {
+      throw new HttpError(415, ATTACHMENT_TYPE_ERROR)
+    }
+    const current = (await storage.getAttachments(cert.id)).filter((a) => !a.renewalId)
+    const problem = checkAttachmentFile({ type: contentType, size: body.length }, current.length)
+    if (problem) throw new HttpError(problem === ATTACHMENT_TYPE_ERROR ? 415 : 400, problem)
+    if (!matchesSignature(body, contentType)) {
+      throw new HttpError(415, "The file's contents do not match its type")
+    }
+
+    const storageKey = `${cert.id}/${randomUUID()}`
+    await fileStore.put(storageKey, body, contentType)
+    try {
+      const attachment = await storage.createAttachment({
+        certificationId: cert.id,
+        fileName: cleanFileName(typeof req.query.fileName === "string" ? req.query.fileName : ""),
+        contentType,
+        size: body.length,
+        storageKey,
+        uploadedById: req.user!.id,
+      })
+      res.status(201).json(attachment)
+    } catch (err) {
+      await removeFiles([storageKey])
+      throw err
+    }
+  }))
+
+  app.get("/api/certifications/:id/attachments/:attachmentId/content", asyncHandler(async (req, res) => {
+    const attachment = await loadAttachment(req)
+    const file = await fileStore.get(attachment.storageKey)
+    if (!file) throw new HttpError(404, "Document not found")
+    res.type(attachment.contentType)
+    // Shown in the viewer rather than downloaded
+    res.set("Content-Disposition", `inline; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`)
+    res.set("X-Content-Type-Options", "nosniff")
+    res.set("Cache-Control", "private, max-age=3600")
+    res.send(file)
+  }))
+
+  // Documents in the renewal history are part of the record and stay
+  app.delete("/api/certifications/:id/attachments/:attachmentId", asyncHandler(async (req, res) => {
+    const attachment = await loadAttachment(req)
+    if (attachment.renewalId) {
+      throw new HttpError(409, "Documents in the renewal history cannot be removed")
+    }
+    await storage.deleteAttachment(attachment.id)
+    await removeFiles([attachment.storageKey])
+    res.status(204).end()
+  }))
+
+  // Certification types
+  app.get("/api/certification-types", asyncHandler(async (_req, res) => {
+    res.json(await storage.getCertificationTypes())
+  }))
+
+  app.post("/api/certification-types", requireAdmin, asyncHandler(async (req, res) => {
+    const data = parseBody(insertCertificationTypeSchema, req.body)
+    await assertUniqueTypeName(data.name)
+    res.status(201).json(await storage.createCertificationType(data))
+  }))
+
+  app.patch("/api/certification-types/:id", requireAdmin, asyncHandler(async (req, res) => {
+    const data = parseBody(updateCertificationTypeSchema, req.body)
+    await assertUniqueTypeName(data.name, req.params.id)
+    const type = await storage.updateCertificationType(req.params.id, data)
+    if (!type) throw new HttpError(404, "Catalog entry not found")
+    res.json(type)
+  }))
+
+  // Typed-in certifications matching the entries take the catalog item's name and issuer
+  app.post("/api/certification-types/:id/merge", requireAdmin, asyncHandler(async (req, res) => {
+    const { entries } = parseBody(mergeIntoCatalogSchema, req.body)
+    if (!(await storage.getCertificationType(req.params.id))) {
+      throw new HttpError(404, "Catalog entry not found")
+    }
+    res.json({ merged: await storage.mergeIntoCatalog(req.params.id, entries) })
+  }))
+
+  // Certifications of a deleted type keep their dates and simply lose the link
+  app.delete("/api/certification-types/:id", requireAdmin, asyncHandler(async (req, res) => {
+    const deleted = await storage.deleteCertificationType(req.params.id)
+    if (!deleted) throw new HttpError(404, "Catalog entry not found")
+    res.status(204).end()
+  }))
+
+  // Renewals
+  app.get("/api/certifications/:id/renewals", asyncHandler(async (req, res) => {
+    await loadOwnCertification(req)
+    res.json(await storage.getRenewals(req.params.id))
+  }))
+
+  app.post("/api/certifications/:id/renewals", asyncHandler(async (req, res) => {
+    const cert = await loadOwnCertification(req)
+    if (!hasExpiration(cert)) throw new HttpError(409, RENEWAL_NOT_NEEDED)
+    const data = parseBody(renewCertificationSchema, req.body)
+    if (data.expirationDate <= cert.expirationDate) {
+      throw new HttpError(400, RENEWAL_MUST_EXTEND)
+    }
+    const renewal = withRenewalVerificationUrl(cert, data, await storage.getCertificationTypes())
+    const renewed = await storage.renewCertification(cert.id, renewal, req.user!.id)
+    if (!renewed) throw new HttpError(404, "Certification not found")
+    await notifyCertificationChange(req.user!, cert, renewed)
+    res.status(201).json(renewed)
+  }))
+
+  // Reports; users only ever see their own certifications
+  app.get("/api/reports/certified-on/:date", asyncHandler(async (req, res) => {
+    const date = parseBody(reportDateSchema, req.params.date)
+    const user = req.user!
+    const certs = isAdmin(user) ? await storage.getCertifications() : await storage.getCertificationsByUser(user.id)
+    const renewals = await storage.getRenewalsByCertifications(certs.map((c) => c.id))
+    res.json(certifiedOn(certs, renewals, date))
+  }))
+
+  // Reminders
+  app.post("/api/certifications/:id/reminders", requireAdmin, asyncHandler(async (req, res) => {
+    const cert = await storage.getCertification(req.params.id)
+    if (!cert) throw new HttpError(404, "Certification not found")
+    res.status(201).json(await sendManualReminder(cert, req.user!))
+  }))
+
+  // Sends what it can and reports the rest rather than failing the batch
+  app.post("/api/reminders/bulk", requireAdmin, asyncHandler(async (req, res) => {
+    const { certificationIds } = parseBody(bulkReminderSchema, req.body)
+    let sent = 0
+    let failed = 0
+    for (const id of Array.from(new Set(certificationIds))) {
+      const cert = await storage.getCertification(id)
+      try {
+        if (!cert) throw new HttpError(404, "Certification not found")
+        await sendManualReminder(cert, req.user!)
+        sent++
+      } catch {
+        failed++
+      }
+    }
+    res.json({ sent, failed })
+  }))
+
+  app.get("/api/reminders/latest", requireAdmin, asyncHandler(async (_req, res) => {
+    res.json(await storage.getLastReminders())
+  }))
+
+  // Notifications, always the signed-in user's own
+  app.get("/api/notifications", asyncHandler(async (req, res) => {
+    res.json(await storage.getNotifications(req.user!.id))
+  }))
+
+  app.post("/api/notifications/read-all", asyncHandler(async (req, res) => {
+    await storage.markAllNotificationsRead(req.user!.id)
+    res.status(204).end()
+  }))
+
+  app.post("/api/notifications/:id/read", asyncHandler(async (req, res) => {
+    const notification = await storage.markNotificationRead(req.user!.id, req.params.id)
+    if (!notification) throw new HttpError(404, "Notification not found")
+    res.json(notification)
+  }))
+
+  // Users
+  app.get("/api/users", requireAdmin, asyncHandler(async (_req, res) => {
+    res.json(await storage.getUsers())
+  }))
+
+  app.get("/api/users/:id", asyncHandler(async (req, res) => {
+    assertOwnerOrAdmin(req.user!, req.params.id, USER_FORBIDDEN)
+    const user = await storage.getUser(req.params.id)
+    if (!user) throw new HttpError(404, "User not found")
+    res.json(user)
+  }))
+
+  app.post("/api/users", requireAdmin, asyncHandler(async (req, res) => {
+    const data = parseBody(createUserSchema, req.body)
+    if (await storage.getUserByUsername(data.username)) {
+      throw new HttpError(409, "Username already exists")
+    }
+    res.status(201).json(await storage.createUser(data))
+  }))
+
+  app.patch("/api/users/:id", asyncHandler(async (req, res) => {
+    assertOwnerOrAdmin(req.user!, req.params.id, USER_FORBIDDEN)
+    const data = parseBody(editUserSchema, req.body)
+    const adminOnly = data.role !== undefined || data.username !== undefined || data.deactivated !== undefined
+    if (adminOnly && !isAdmin(req.user!)) {
+      throw new HttpError(403, "Only administrators can change usernames, roles or account status")
+    }
+    if (data.password && !isAdmin(req.user!)) {
+      throw new HttpError(403, "Change your own password with your current password")
+    }
+    if (data.deactivated && req.params.id === req.user!.id) {
+      throw new HttpError(409, "You cannot deactivate your own account")
+    }
+    if (data.username) {
+      const existing = await storage.getUserByUsername(data.username)
+      if (existing && existing.id !== req.params.id) {
+        throw new HttpError(409, "Username already exists")
+      }
+    }
+    await assertKeepsAnAdmin(req.params.id, { role: data.role, deactivated: data.deactivated })
+    const user = await storage.updateUser(req.params.id, data)
+    if (!user) throw new HttpError(404, "User not found")
+    res.json(user)
+  }))
+
+  app.delete("/api/users/:id", requireAdmin, asyncHandler(async (req, res) => {
+    await assertKeepsAnAdmin(req.params.id, { deleted: true })
+    const certs = await storage.getCertificationsByUser(req.params.id)
+    const fileKeys = await storage.getAttachmentStorageKeys(certs.map((c) => c.id))
+    const deleted = await storage.deleteUser(req.params.id)
+    if (!deleted) throw new HttpError(404, "User not found")
+    await removeFiles(fileKeys)
+    res.status(204).end()
+  }))
+
+  // Settings
+  app.get("/api/settings/organization", asyncHandler(async (_req, res) => {
+    res.json(await storage.getOrganizationSettings())
+  }))
+
+  app.patch("/api/settings/organization", requireAdmin, asyncHandler(async (req, res) => {
+    const data = parseBody(updateOrganizationSettingsSchema, req.body)
+    const { id: _id, ...current } = await storage.getOrganizationSettings()
+    parseBody(statusThresholdsSchema, { ...current, ...data })
+    res.json(await storage.updateOrganizationSettings(data))
+  }))
+
+  app.get("/api/settings/user", asyncHandler(async (req, res) => {
+    res.json(await storage.getUserSettings(req.user!.id))
+  }))
+
+  app.patch("/api/settings/user", asyncHandler(async (req, res) => {
+    const data = parseBody(updateUserSettingsSchema, req.body)
+    res.json(await storage.updateUserSettings(req.user!.id, data))
+  }))
+  // Backup and restore
+  app.get("/api/backup", requireAdmin, asyncHandler(async (_req, res) => {
+    res.attachment(`certtrack-backup-${format(new Date(), "yyyy-MM-dd")}.json`)
+    res.json(createBackup(await storage.getBackupData(), "server"))
+  }))
+
+  // Reports what a restore would change without applying it
+  app.post("/api/backup/preview", requireAdmin, asyncHandler(async (req, res) => {
+    const { summary } = await planBackupRestore(req)
+    res.json(summary)
+  }))
+
+  app.post("/api/backup/restore", requireAdmin, asyncHandler(async (req, res) => {
+    const { data, summary } = await planBackupRestore(req)
+    if (summary.errors.length > 0) throw new HttpError(409, summary.errors[0])
+    await removeFiles(await storage.restoreBackupData(data))
+    res.json(summary)
+  }))
+}
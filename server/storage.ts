@@ -0,0 +1,635 @@
+import { and, desc, eq, getTableColumns, gt, inArray, isNull, lte, notInArray, or, sql } from "drizzle-orm"
+import type { PgTable } from "drizzle-orm/pg-core"
+import {
+  certificationAttachments,
+  certificationRenewals,
+  certificationTypes,
+  certifications,
+  notifications,
+  organizationSettings,
+  reminders,
+  sessions,
+  userSettings,
+  users,
+  type Certification,
+  type CertificationAttachment,
+  type CertificationRenewal,
+  type CertificationType,
+  type InsertCertificationType,
+  type InsertCertification,
+  type InsertCertificationAttachment,
+  type InsertNotification,
+  type InsertReminder,
+  type InsertUser,
+  type LastReminder,
+  type Notification,
+  type OrganizationSettings,
+  type Reminder,
+  type RenewCertification,
+  type RenewalWithRenewer,
+  type UpdateOrganizationSettings,
+  type UpdateUserSettings,
+  type User,
+  type UserRecord,
+  type UserSettings,
+} from "@shared/schema"
+import type { BackupData } from "@shared/backup"
+import { sameUnlistedEntry, type MergeIntoCatalog } from "@shared/catalog"
+import { UNVERIFIED, type CertificationVerification } from "@shared/verification"
+import type { MergePlan } from "@shared/duplicates"
+import { DEFAULT_USER_SETTINGS } from "@shared/settings"
+import { db } from "./db"
+import { hashPassword } from "./passwords"
+
+export interface IStorage {
+  getUsers(): Promise<User[]>
+  getUser(id: string): Promise<User | undefined>
+  getUserByUsername(username: string): Promise<User | undefined>
+  getUserCredentials(username: string): Promise<UserRecord | undefined>
+  // Passwords are given in plaintext and stored hashed
+  createUser(data: InsertUser): Promise<User>
+  updateUser(id: string, data: Partial<InsertUser>): Promise<User | undefined>
+  deleteUser(id: string): Promise<boolean>
+
+  getCertifications(): Promise<Certification[]>
+  getCertificationsByUser(userId: string): Promise<Certification[]>
+  getCertification(id: string): Promise<Certification | undefined>
+  createCertification(data: InsertCertification): Promise<Certification>
+  // One INSERT, so either every row is created or none is
+  createCertifications(data: InsertCertification[]): Promise<Certification[]>
+  updateCertification(
+    id: string,
+    data: Partial<InsertCertification & CertificationVerification>,
+  ): Promise<Certification | undefined>
+  deleteCertification(id: string): Promise<boolean>
+  // Saves the merged fields on the kept certification, records the cycles of
+  // duplicates covering other dates as its renewals, moves the duplicates'
+  // renewal history and documents onto it, then deletes the duplicates
+  mergeCertifications(
+    primaryId: string,
+    duplicateIds: string[],
+    plan: MergePlan,
+    mergedById: string,
+  ): Promise<Certification | undefined>
+  getCertificationTypes(): Promise<CertificationType[]>
+  getCertificationType(id: string): Promise<CertificationType | undefined>
+  getCertificationTypeByName(name: string): Promise<CertificationType | undefined>
+  createCertificationType(data: InsertCertificationType): Promise<CertificationType>
+  updateCertificationType(id: string, data: Partial<InsertCertificationType>): Promise<CertificationType | undefined>
+  deleteCertificationType(id: string): Promise<boolean>
+  // Links typed-in certifications matching the entries to the catalog item,
+  // taking its name and issuer; resolves to the number of certifications changed
+  mergeIntoCatalog(typeId: string, entries: MergeIntoCatalog["entries"]): Promise<number>
+
+  // Archives the current cycle as a renewal and moves the certification onto
+  // the new one, which starts unverified
+  renewCertification(id: string, data: RenewCertification, renewedById: string): Promise<Certification | undefined>
+  getRenewals(certificationId: string): Promise<RenewalWithRenewer[]>
+  getRenewalsByCertifications(certificationIds: string[]): Promise<CertificationRenewal[]>
+
+  // Files of the current cycle, optionally only for one user's certifications
+  getCurrentAttachments(userId?: string): Promise<CertificationAttachment[]>
+  // Every file of a certification, renewal history included, newest first
+  getAttachments(certificationId: string): Promise<CertificationAttachment[]>
+  getAttachment(certificationId: string, id: string): Promise<CertificationAttachment | undefined>
+  createAttachment(data: InsertCertificationAttachment): Promise<CertificationAttachment>
+  deleteAttachment(id: string): Promise<CertificationAttachment | undefined>
+  // Read before deleting certifications, whose attachment rows go with them
+  getAttachmentStorageKeys(certificationIds: string[]): Promise<string[]>
+
+  // Falls back to the column defaults until an admin saves something
+  getOrganizationSettings(): Promise<OrganizationSettings>
+  updateOrganizationSettings(data: UpdateOrganizationSettings): Promise<OrganizationSettings>
+  getUserSettings(userId: string): Promise<UserSettings>
+  updateUserSettings(userId: string, data: UpdateUserSettings): Promise<UserSettings>
+
+  // Resolves to undefined when that milestone was already recorded
+  recordReminder(data: InsertReminder): Promise<Reminder | undefined>
+  deleteReminder(id: string): Promise<void>
+  getLastReminders(): Promise<LastReminder[]>
+
+  // Resolves to undefined when a notification with the same dedupe key exists
+  createNotification(data: InsertNotification): Promise<Notification | undefined>
+  // Newest first, capped at NOTIFICATION_LIMIT
+  getNotifications(userId: string): Promise<Notification[]>
+  markNotificationRead(userId: string, id: string): Promise<Notification | undefined>
+  markAllNotificationsRead(userId: string): Promise<void>
+
+  // Everything a backup holds, password hashes included
+  getBackupData(): Promise<BackupData>
+  // Makes the database hold exactly `data`, in one transaction. Resolves to the
+  // storage keys of the documents it dropped, whose files the caller removes.
+  restoreBackupData(data: BackupData): Promise<string[]>
+
+  getSession(sid: string): Promise<unknown | undefined>
+  setSession(sid: string, sess: unknown, expire: Date): Promise<void>
+  touchSession(sid: string, expire: Date): Promise<void>
+  destroySession(sid: string): Promise<void>
+  deleteExpiredSessions(): Promise<void>
+}
+
+const NOTIFICATION_LIMIT = 50
+// Keeps multi-row inserts well under Postgres' bind parameter limit
+const RESTORE_BATCH_SIZE = 500
+
+// Upsert SET clause taking every column except `skip` from the incoming row
+function fromExcluded(table: PgTable, skip: string[]) {
+  return Object.fromEntries(
+    Object.entries(getTableColumns(table))
+      .filter(([key]) => !skip.includes(key))
+      .map(([key, column]) => [key, sql.raw(`excluded."${column.name}"`)]),
+  )
+}
+
+function batches<T>(rows: T[]): T[][] {
+  const result: T[][] = []
+  for (let i = 0; i < rows.length; i += RESTORE_BATCH_SIZE) result.push(rows.slice(i, i + RESTORE_BATCH_SIZE))
+  return result
+}
+
+function toPublicUser(user: UserRecord): User {
+  const { password, ...publicUser } = user
+  return publicUser
+}
+
+export class DatabaseStorage implements IStorage {
+  async getUsers() {
+    const rows = await db.select().from(users).orderBy(users.fullName)
+    return rows.map(toPublicUser)
+  }
+
+  async getUser(id: string) {
+    const [user] = await db.select().from(users).where(eq(users.id, id))
+    return user ? toPublicUser(user) : undefined
+  }
+
+  async getUserByUsername(username: string) {
+    const [user] = await db.select().from(users).where(eq(users.username, username))
+    return user ? toPublicUser(user) : undefined
+  }
+
+  async getUserCredentials(username: string) {
+    const [user] = await db.select().from(users).where(eq(users.username, username))
+    return user
+  }
+
+  async createUser(data: InsertUser) {
+    const password = await hashPassword(data.password)
+    const [user] = await db.insert(users).values({ ...data, password }).returning()
+    return toPublicUser(user)
+  }
+
+  async updateUser(id: string, data: Partial<InsertUser>) {
+    if (Object.keys(data).length === 0) return this.getUser(id)
+    const values = data.password ? { ...data, password: await hashPassword(data.password) } : data
+    const [user] = await db.update(users).set(values).where(eq(users.id, id)).returning()
+    return user ? toPublicUser(user) : undefined
+  }
+
+  async deleteUser(id: string) {
+    const deleted = await db.delete(users).where(eq(users.id, id)).returning({ id: users.id })
+    return deleted.length > 0
+  }
+
+  async getCertifications() {
+    return db.select().from(certifications).orderBy(certifications.expirationDate)
+  }
+
+  async getCertificationsByUser(userId: string) {
+    return db
+      .select()
+      .from(certifications)
+      .where(eq(certifications.userId, userId))
+      .orderBy(certifications.expirationDate)
+  }
+
+  async getCertification(id: string) {
+    const [cert] = await db.select().from(certifications).where(eq(certifications.id, id))
+    return cert
+  }
+
+  async createCertification(data: InsertCertification) {
+    const [cert] = await db.insert(certifications).values(data).returning()
+    return cert
+  }
+
+  async createCertifications(data: InsertCertification[]) {
+    if (data.length === 0) return []
+    return db.insert(certifications).values(data).returning()
+  }
+
+  async updateCertification(id: string, data: Partial<InsertCertification & CertificationVerification>) {
+    if (Object.keys(data).length === 0) return this.getCertification(id)
+    const [cert] = await db.update(certifications).set(data).where(eq(certifications.id, id)).returning()
+    return cert
+  }
+
+  async deleteCertification(id: string) {
+    const deleted = await db
+      .delete(certifications)
+      .where(eq(certifications.id, id))
+      .returning({ id: certifications.id })
+    return deleted.length > 0
+  }
+
+  async mergeCertifications(primaryId: string, duplicateIds: string[], plan: MergePlan, mergedById: string) {
+    return db.transaction(async (tx) => {
+      const [cert] = await tx
+        .update(certifications)
+        .set(plan.fields)
+        .where(eq(certifications.id, primaryId))
+        .returning()
+      if (!cert) return undefined
+      for (const cycle of plan.archived) {
+        const [renewal] = await tx
+          .insert(certificationRenewals)
+          .values({
+            certificationId: primaryId,
+            previousIssueDate: cycle.issueDate,
+            previousExpirationDate: cycle.expirationDate,
+            previousCredentialId: cycle.credentialId,
+            ...cycle.next,
+            renewedById: mergedById,
+            renewedAt: cycle.renewedAt,
+          })
+          .returning({ id: certificationRenewals.id })
+        await tx
+          .update(certificationAttachments)
+          .set({ renewalId: renewal.id })
+          .where(
+            and(
+              eq(certificationAttachments.certificationId, cycle.certificationId),
+              isNull(certificationAttachments.renewalId),
+            ),
+          )
+      }
+      await tx
+        .update(certificationRenewals)
+        .set({ certificationId: primaryId })
+        .where(inArray(certificationRenewals.certificationId, duplicateIds))
+      await tx
+        .update(certificationAttachments)
+        .set({ certificationId: primaryId })
+        .where(inArray(certificationAttachments.certificationId, duplicateIds))
+      await tx.delete(certifications).where(inArray(certifications.id, duplicateIds))
+      return cert
+    })
+  }
+
+  async getCertificationTypes() {
+    return db.select().from(certificationTypes).orderBy(certificationTypes.name)
+  }
+
+  async getCertificationType(id: string) {
+    const [type] = await db.select().from(certificationTypes).where(eq(certificationTypes.id, id))
+    return type
+  }
+
+  async getCertificationTypeByName(name: string) {
+    const [type] = await db
+      .select()
+      .from(certificationTypes)
+      .where(sql`lower(${certificationTypes.name}) = lower(${name})`)
+    return type
+  }
+
+  async createCertificationType(data: InsertCertificationType) {
+    const [type] = await db.insert(certificationTypes).values(data).returning()
+    return type
+  }
+
+  async updateCertificationType(id: string, data: Partial<InsertCertificationType>) {
+    if (Object.keys(data).length === 0) return this.getCertificationType(id)
+    const [type] = await db.update(certificationTypes).set(data).where(eq(certificationTypes.id, id)).returning()
+    return type
+  }
+
+  async deleteCertificationType(id: string) {
+    const deleted = await db
+      .delete(certificationTypes)
+      .where(eq(certificationTypes.id, id))
+      .returning({ id: certificationTypes.id })
+    return deleted.length > 0
+  }
+
+  async mergeIntoCatalog(typeId: string, entries: MergeIntoCatalog["entries"]) {
+    return db.transaction(async (tx) => {
+      const [type] = await tx.select().from(certificationTypes).where(eq(certificationTypes.id, typeId))
+      if (!type) return 0
+      const unlisted = await tx.select().from(certifications).where(isNull(certifications.typeId))
+      const ids = unlisted.filter((cert) => entries.some((entry) => sameUnlistedEntry(entry, cert))).map((c) => c.id)
+      if (ids.length === 0) return 0
+      const set = type.issuingOrganization
+        ? { typeId, name: type.name, issuingOrganization: type.issuingOrganization }
+        : { typeId, name: type.name }
+      await tx.update(certifications).set(set).where(inArray(certifications.id, ids))
+      return ids.length
+    })
+  }
+
+  async renewCertification(id: string, data: RenewCertification, renewedById: string) {
+    return db.transaction(async (tx) => {
+      const [current] = await tx.select().from(certifications).where(eq(certifications.id, id)).for("update")
+      // The route refuses certifications that never expire before getting here
+      if (!current?.expirationDate) return undefined
+      const [renewal] = await tx
+        .insert(certificationRenewals)
+        .values({
+          certificationId: id,
+          previousIssueDate: current.issueDate,
+          previousExpirationDate: current.expirationDate,
+          previousCredentialId: current.credentialId,
+          issueDate: data.issueDate,
+          expirationDate: data.expirationDate,
+          credentialId: data.credentialId || null,
+          proofUrl: data.proofUrl || null,
+          renewedById,
+        })
+        .returning({ id: certificationRenewals.id })
+      // The documents so far belong to the cycle being archived
+      await tx
+        .update(certificationAttachments)
+        .set({ renewalId: renewal.id })
+        .where(and(eq(certificationAttachments.certificationId, id), isNull(certificationAttachments.renewalId)))
+      const [cert] = await tx
+        .update(certifications)
+        .set({
+          issueDate: data.issueDate,
+          expirationDate: data.expirationDate,
+          credentialId: data.credentialId || current.credentialId,
+          certificateUrl: data.proofUrl || current.certificateUrl,
+          // The new cycle has not been checked yet
+          ...UNVERIFIED,
+        })
+        .where(eq(certifications.id, id))
+        .returning()
+      return cert
+    })
+  }
+
+  async getRenewals(certificationId: string) {
+    const rows = await db
+      .select({ renewal: certificationRenewals, renewedByName: users.fullName })
+      .from(certificationRenewals)
+      .leftJoin(users, eq(certificationRenewals.renewedById, users.id))
+      .where(eq(certificationRenewals.certificationId, certificationId))
+      .orderBy(desc(certificationRenewals.renewedAt))
+    return rows.map(({ renewal, renewedByName }) => ({ ...renewal, renewedByName }))
+  }
+
+  async getRenewalsByCertifications(certificationIds: string[]) {
+    if (certificationIds.length === 0) return []
+    return db
+      .select()
+      .from(certificationRenewals)
+      .where(inArray(certificationRenewals.certificationId, certificationIds))
+  }
+
+  async getCurrentAttachments(userId?: string) {
+    const rows = await db
+      .select({ attachment: certificationAttachments })
+      .from(certificationAttachments)
+      .innerJoin(certifications, eq(certificationAttachments.certificationId, certifications.id))
+      .where(
+        and(
+          isNull(certificationAttachments.renewalId),
+          userId ? eq(certifications.userId, userId) : undefined,
+        ),
+      )
+      .orderBy(certificationAttachments.uploadedAt)
+    return rows.map(({ attachment }) => attachment)
+  }
+
+  async getAttachments(certificationId: string) {
+    return db
+      .select()
+      .from(certificationAttachments)
+      .where(eq(certificationAttachments.certificationId, certificationId))
+      .orderBy(desc(certificationAttachments.uploadedAt))
+  }
+
+  async getAttachment(certificationId: string, id: string) {
+    const [attachment] = await db
+      .select()
+      .from(certificationAttachments)
+      .where(and(eq(certificationAttachments.id, id), eq(certificationAttachments.certificationId, certificationId)))
+    return attachment
+  }
+
+  async createAttachment(data: InsertCertificationAttachment) {
+    const [attachment] = await db.insert(certificationAttachments).values(data).returning()
+    return attachment
+  }
+
+  async deleteAttachment(id: string) {
+    const [deleted] = await db.delete(certificationAttachments).where(eq(certificationAttachments.id, id)).returning()
+    return deleted
+  }
+
+  async getAttachmentStorageKeys(certificationIds: string[]) {
+    if (certificationIds.length === 0) return []
+    const rows = await db
+      .select({ storageKey: certificationAttachments.storageKey })
+      .from(certificationAttachments)
+      .where(inArray(certificationAttachments.certificationId, certificationIds))
+    return rows.map((row) => row.storageKey)
+  }
+
+  async getOrganizationSettings(): Promise<OrganizationSettings> {
+    const [settings] = await db.select().from(organizationSettings).where(eq(organizationSettings.id, 1))
+    if (settings) return settings
+    const [created] = await db.insert(organizationSettings).values({ id: 1 }).onConflictDoNothing().returning()
+    return created ?? this.getOrganizationSettings()
+  }
+
+  async updateOrganizationSettings(data: UpdateOrganizationSettings) {
+    if (Object.keys(data).length === 0) return this.getOrganizationSettings()
+    const [settings] = await db
+      .insert(organizationSettings)
+      .values({ ...data, id: 1 })
+      .onConflictDoUpdate({ target: organizationSettings.id, set: data })
+      .returning()
+    return settings
+  }
+
+  async getUserSettings(userId: string) {
+    const [settings] = await db.select().from(userSettings).where(eq(userSettings.userId, userId))
+    return settings ?? { userId, ...DEFAULT_USER_SETTINGS }
+  }
+
+  async updateUserSettings(userId: string, data: UpdateUserSettings) {
+    if (Object.keys(data).length === 0) return this.getUserSettings(userId)
+    const [settings] = await db
+      .insert(userSettings)
+      .values({ ...data, userId })
+      .onConflictDoUpdate({ target: userSettings.userId, set: data })
+      .returning()
+    return settings
+  }
+
+  async recordReminder(data: InsertReminder) {
+    const [reminder] = await db.insert(reminders).values(data).onConflictDoNothing().returning()
+    return reminder
+  }
+
+  async deleteReminder(id: string) {
+    await db.delete(reminders).where(eq(reminders.id, id))
+  }
+
+  async getLastReminders() {
+    return db
+      .selectDistinctOn([reminders.certificationId], {
+        certificationId: reminders.certificationId,
+        sentAt: reminders.sentAt,
+        offsetDays: reminders.offsetDays,
+        sentByName: users.fullName,
+      })
+      .from(reminders)
+      .leftJoin(users, eq(reminders.sentById, users.id))
+      .orderBy(reminders.certificationId, desc(reminders.sentAt))
+  }
+
+  async createNotification(data: InsertNotification) {
+    const [notification] = await db.insert(notifications).values(data).onConflictDoNothing().returning()
+    return notification
+  }
+
+  async getNotifications(userId: string) {
+    return db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt))
+      .limit(NOTIFICATION_LIMIT)
+  }
+
+  async markNotificationRead(userId: string, id: string) {
+    const [existing] = await db
+      .select()
+      .from(notifications)
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+    if (!existing || existing.readAt) return existing
+    const [notification] = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(eq(notifications.id, id))
+      .returning()
+    return notification
+  }
+
+  async markAllNotificationsRead(userId: string) {
+    await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)))
+  }
+
+  async getBackupData(): Promise<BackupData> {
+    const { id, ...organization } = await this.getOrganizationSettings()
+    return {
+      users: await db.select().from(users).orderBy(users.username),
+      certificationTypes: await db.select().from(certificationTypes).orderBy(certificationTypes.name),
+      certifications: await db.select().from(certifications).orderBy(certifications.name),
+      renewals: await db.select().from(certificationRenewals).orderBy(certificationRenewals.renewedAt),
+      organizationSettings: organization,
+      userSettings: await db.select().from(userSettings),
+    }
+  }
+
+  async restoreBackupData(data: BackupData) {
+    return db.transaction(async (tx) => {
+      // Removals go first so a restored record can take over a username or type name
+      const ids = <T extends { id: string }>(rows: T[]) => (rows.length > 0 ? rows.map((row) => row.id) : [""])
+      // Backups do not hold documents, so those of removed certifications and
+      // renewals go with them
+      const dropped = await tx
+        .select({ storageKey: certificationAttachments.storageKey })
+        .from(certificationAttachments)
+        .where(
+          or(
+            notInArray(certificationAttachments.certificationId, ids(data.certifications)),
+            notInArray(certificationAttachments.renewalId, ids(data.renewals)),
+          ),
+        )
+      await tx.delete(certificationRenewals).where(notInArray(certificationRenewals.id, ids(data.renewals)))
+      await tx.delete(certifications).where(notInArray(certifications.id, ids(data.certifications)))
+      await tx.delete(certificationTypes).where(notInArray(certificationTypes.id, ids(data.certificationTypes)))
+      await tx.delete(users).where(notInArray(users.id, ids(data.users)))
+      const settingsUserIds = data.userSettings.map((s) => s.userId)
+      await tx
+        .delete(userSettings)
+        .where(notInArray(userSettings.userId, settingsUserIds.length > 0 ? settingsUserIds : [""]))
+
+      for (const batch of batches(data.users)) {
+        await tx.insert(users).values(batch).onConflictDoUpdate({ target: users.id, set: fromExcluded(users, ["id"]) })
+      }
+      for (const batch of batches(data.certificationTypes)) {
+        await tx
+          .insert(certificationTypes)
+          .values(batch)
+          .onConflictDoUpdate({ target: certificationTypes.id, set: fromExcluded(certificationTypes, ["id"]) })
+      }
+      for (const batch of batches(data.certifications)) {
+        await tx
+          .insert(certifications)
+          .values(batch)
+          .onConflictDoUpdate({ target: certifications.id, set: fromExcluded(certifications, ["id"]) })
+      }
+      for (const batch of batches(data.renewals)) {
+        await tx
+          .insert(certificationRenewals)
+          .values(batch)
+          .onConflictDoUpdate({ target: certificationRenewals.id, set: fromExcluded(certificationRenewals, ["id"]) })
+      }
+      for (const batch of batches(data.userSettings)) {
+        await tx
+          .insert(userSettings)
+          .values(batch)
+          .onConflictDoUpdate({ target: userSettings.userId, set: fromExcluded(userSettings, ["userId"]) })
+      }
+      await tx
+        .insert(organizationSettings)
+        .values({ ...data.organizationSettings, id: 1 })
+        .onConflictDoUpdate({ target: organizationSettings.id, set: data.organizationSettings })
+      return dropped.map((row) => row.storageKey)
+    })
+  }
+
+  async getSession(sid: string) {
+    const [row] = await db
+      .select({ sess: sessions.sess })
+      .from(sessions)
+      .where(and(eq(sessions.sid, sid), gt(sessions.expire, new Date())))
+    return row?.sess
+  }
+
+  async setSession(sid: string, sess: unknown, expire: Date) {
+    await db
+      .insert(sessions)
+      .values({ sid, sess, expire })
+      .onConflictDoUpdate({ target: sessions.sid, set: { sess, expire } })
+  }
+
+  async touchSession(sid: string, expire: Date) {
+    await db.update(sessions).set({ expire }).where(eq(sessions.sid, sid))
+  }
+
+  async destroySession(sid: string) {
+    await db.delete(sessions).where(eq(sessions.sid, sid))
+  }
+
+  async deleteExpiredSessions() {
+    await db.delete(sessions).where(lte(sessions.expire, new Date()))
+  }
+}
+
+export const storage: IStorage = new DatabaseStorage()
+
+// A fresh database gets the same demo accounts the login page advertises.
+// createUser stores them as scrypt hashes like any other password.
+export async function seedDemoUsers() {
+  if ((await storage.getUsers()).length > 0) return
+
+  await storage.createUser({ username: "admin", fullName: "Administrator", email: "admin@example.com", role: "admin", password: "admin123" })
+  await storage.createUser({ username: "john", fullName: "John Doe", email: "john@example.com", role: "user", password: "user1234" })
+}
@@ -0,0 +1,57 @@
+import type { CertificationAttachment } from "./schema";
+
+export const attachmentContentTypes = ["application/pdf", "image/png", "image/jpeg"] as const;
+export type AttachmentContentType = (typeof attachmentContentTypes)[number];
+
+export const ATTACHMENT_ACCEPT = ".pdf,.png,.jpg,.jpeg";
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+// Per cycle; files moved into the renewal history no longer count
+export const MAX_ATTACHMENTS = 10;
+
+export const ATTACHMENT_TYPE_ERROR = "Only PDF, PNG and JPG files can be attached";
+export const ATTACHMENT_SIZE_ERROR = `Files can be at most ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB`;
+export const ATTACHMENT_LIMIT_ERROR = `At most ${MAX_ATTACHMENTS} documents can be attached to a certification`;
+
+export const isAttachmentContentType = (value: string): value is AttachmentContentType =>
+  (attachmentContentTypes as readonly string[]).includes(value);
+
+export const isImageAttachment = (attachment: Pick<CertificationAttachment, "contentType">) =>
+  attachment.contentType.startsWith("image/");
+
+// Checked in the browser before uploading and again by the server
+export function checkAttachmentFile(file: { type: string; size: number }, currentCount: number): string | null {
+  if (!isAttachmentContentType(file.type)) return ATTACHMENT_TYPE_ERROR;
+  if (file.size === 0) return "The file is empty";
+  if (file.size > MAX_ATTACHMENT_BYTES) return ATTACHMENT_SIZE_ERROR;
+  if (currentCount >= MAX_ATTACHMENTS) return ATTACHMENT_LIMIT_ERROR;
+  return null;
+}
+
+const SIGNATURES: Record<AttachmentContentType, number[]> = {
+  "application/pdf": [0x25, 0x50, 0x44, 0x46, 0x2d], // %PDF-
+  "image/png": [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a],
+  "image/jpeg": [0xff, 0xd8, 0xff],
+};
+
+// Whether the file starts the way its declared type says it should, so a
+// renamed executable cannot be served back as a PDF.
+export function matchesSignature(bytes: Uint8Array, contentType: AttachmentContentType): boolean {
+  return SIGNATURES[contentType].every((byte, i) => bytes[i] === byte);
+}
+
+// Keeps the name readable in Content-Disposition without any path
+export function cleanFileName(name: string): string {
+  const base = name.split(/[\\/]/).pop() ?? "";
+  const cleaned = base.replace(/[\u0000-\u001f"]/g, "").trim().slice(0, 200);
+  return cleaned || "certificate";
+}
+
+export function attachmentUrl(attachment: Pick<CertificationAttachment, "id" | "certificationId">): string {
+  return `/api/certifications/${attachment.certificationId}/attachments/${attachment.id}/content`;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { BACKUP_FORMAT, BACKUP_VERSION, backupSchema } from "./backup";
+import { DEFAULT_ORGANIZATION_SETTINGS } from "./settings";
+
+const backupWith = (settings: Record<string, unknown>) => ({
+  format: BACKUP_FORMAT,
+  version: BACKUP_VERSION,
+  createdAt: "2025-01-01T00:00:00.000Z",
+  passwordFormat: "server",
+  data: {
+    users: [],
+    certifications: [],
+    organizationSettings: { ...DEFAULT_ORGANIZATION_SETTINGS, ...settings },
+  },
+});
+
+const problems = (settings: Record<string, unknown>) => {
+  const result = backupSchema.safeParse(backupWith(settings));
+  return result.success ? [] : result.error.issues.map((issue) => issue.message);
+};
+
+describe("backup organization settings", () => {
+  it("accepts the defaults", () => {
+    expect(problems({})).toEqual([]);
+  });
+
+  it("checks them like an edit on the Settings page", () => {
+    expect(problems({ criticalDays: 90, warningDays: 60, soonDays: 30 })).toEqual([
+      "Thresholds must increase from critical to warning to soon",
+    ]);
+    expect(problems({ reminderOffsets: [30, -1] })).toEqual(["Reminder days cannot be negative"]);
+    expect(problems({ reminderOffsets: [4000] })).toEqual(["Reminder days cannot exceed ten years"]);
+    expect(problems({ organizationName: " " })).toEqual(["Organisation name is required"]);
+  });
+});
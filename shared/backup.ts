@@ -0,0 +1,312 @@
+import { z } from "zod";
+import {
+  catalogLevels,
+  renewalBases,
+  updateOrganizationSettingsSchema,
+  userRoles,
+  verificationStatuses,
+  viewModes,
+} from "./schema";
+import { statusThresholdsSchema } from "./status";
+
+export const BACKUP_FORMAT = "certtrack-backup";
+export const BACKUP_VERSION = 1;
+
+// The server stores scrypt hashes and offline mode PBKDF2 ones, so passwords
+// only carry over between backups of the same kind.
+export const passwordFormats = ["server", "local"] as const;
+export type PasswordFormat = (typeof passwordFormats)[number];
+
+export const restoreModes = ["merge", "replace"] as const;
+export type RestoreMode = (typeof restoreModes)[number];
+
+// Optional columns may be missing from records saved by older offline stores
+const optional = <T extends z.ZodTypeAny>(schema: T) => schema.nullable().default(null);
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+
+const backupUserSchema = z.object({
+  id: z.string().min(1),
+  username: z.string().min(1),
+  password: z.string().default(""),
+  fullName: z.string(),
+  email: z.string(),
+  role: z.enum(userRoles),
+  deactivated: z.boolean().default(false),
+});
+
+const backupTypeSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  issuingOrganization: optional(z.string()),
+  validityMonths: optional(z.number().int()),
+  renewalBasis: z.enum(renewalBases).default("expiration"),
+  level: optional(z.enum(catalogLevels)),
+  category: optional(z.string()),
+  credentialIdFormat: optional(z.string()),
+  verificationUrlTemplate: optional(z.string()),
+});
+
+const backupCertificationSchema = z.object({
+  id: z.string().min(1),
+  userId: z.string().min(1),
+  name: z.string(),
+  issuingOrganization: z.string(),
+  typeId: optional(z.string()),
+  credentialId: optional(z.string()),
+  issueDate: isoDate,
+  expirationDate: optional(isoDate),
+  certificateUrl: optional(z.string()),
+  notes: optional(z.string()),
+  verificationStatus: z.enum(verificationStatuses).default("unverified"),
+  verifiedById: optional(z.string()),
+  verifiedAt: optional(z.coerce.date()),
+});
+
+const backupRenewalSchema = z.object({
+  id: z.string().min(1),
+  certificationId: z.string().min(1),
+  previousIssueDate: isoDate,
+  previousExpirationDate: isoDate,
+  previousCredentialId: optional(z.string()),
+  issueDate: isoDate,
+  expirationDate: isoDate,
+  credentialId: optional(z.string()),
+  proofUrl: optional(z.string()),
+  renewedById: optional(z.string()),
+  renewedAt: z.coerce.date(),
+});
+
+const backupUserSettingsSchema = z.object({
+  userId: z.string().min(1),
+  emailReminders: z.boolean(),
+  defaultView: z.enum(viewModes),
+});
+
+// Restored settings pass the same checks as an edit on the Settings page
+export const backupOrganizationSettingsSchema = updateOrganizationSettingsSchema
+  .required()
+  .superRefine((settings, ctx) => {
+    statusThresholdsSchema.safeParse(settings).error?.issues.forEach((issue) => ctx.addIssue(issue));
+  });
+
+export const backupDataSchema = z
+  .object({
+    users: z.array(backupUserSchema),
+    certificationTypes: z.array(backupTypeSchema).default([]),
+    certifications: z.array(backupCertificationSchema),
+    renewals: z.array(backupRenewalSchema).default([]),
+    organizationSettings: backupOrganizationSettingsSchema,
+    userSettings: z.array(backupUserSettingsSchema).default([]),
+  })
+  .superRefine((data, ctx) => {
+    const userIds = new Set(data.users.map((u) => u.id));
+    const certIds = new Set(data.certifications.map((c) => c.id));
+    const orphan = data.certifications.find((c) => !userIds.has(c.userId));
+    if (orphan) {
+      ctx.addIssue({ code: "custom", message: `Certification "${orphan.name}" belongs to a user missing from the backup` });
+    }
+    if (data.renewals.some((r) => !certIds.has(r.certificationId))) {
+      ctx.addIssue({ code: "custom", message: "The renewal history refers to certifications missing from the backup" });
+    }
+  });
+export type BackupData = z.infer<typeof backupDataSchema>;
+export type BackupUser = BackupData["users"][number];
+
+const archiveSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  version: z.number().int().max(BACKUP_VERSION, "This backup was made by a newer version of the tracker"),
+  createdAt: z.string(),
+  passwordFormat: z.enum(passwordFormats),
+  data: backupDataSchema,
+});
+export type Backup = z.infer<typeof archiveSchema>;
+
+// Checks the format marker first, so any other JSON file gets one clear message
+export const backupSchema = z
+  .object({
+    format: z.literal(BACKUP_FORMAT, {
+      errorMap: () => ({ message: "This file is not a certification tracker backup" }),
+    }),
+  })
+  .passthrough()
+  .pipe(archiveSchema);
+
+export const restoreRequestSchema = z.object({
+  mode: z.enum(restoreModes),
+  backup: backupSchema,
+});
+
+export function createBackup(data: BackupData, passwordFormat: PasswordFormat): Backup {
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    passwordFormat,
+    data,
+  };
+}
+
+export interface CollectionChanges {
+  added: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+}
+
+export interface RestoreSummary {
+  users: CollectionChanges;
+  certificationTypes: CollectionChanges;
+  certifications: CollectionChanges;
+  renewals: CollectionChanges;
+  settingsChanged: boolean;
+  // Restored accounts whose password could not be carried over
+  passwordResets: string[];
+  // Problems that stop the restore; empty when it can go ahead
+  errors: string[];
+}
+
+export interface RestorePlan {
+  data: BackupData;
+  summary: RestoreSummary;
+}
+
+// Flat records compared regardless of key order
+const canonical = (record: object) => JSON.stringify(record, Object.keys(record).sort());
+
+function compare<T extends object>(current: T[], next: T[], key: (record: T) => string): CollectionChanges {
+  const before = new Map(current.map((record) => [key(record), canonical(record)]));
+  const changes = { added: 0, updated: 0, unchanged: 0, removed: 0 };
+  const kept = new Set<string>();
+  for (const record of next) {
+    const id = key(record);
+    kept.add(id);
+    const previous = before.get(id);
+    if (previous === undefined) changes.added++;
+    else if (previous === canonical(record)) changes.unchanged++;
+    else changes.updated++;
+  }
+  changes.removed = Array.from(before.keys()).filter((id) => !kept.has(id)).length;
+  return changes;
+}
+
+// Backup records win over current ones with the same key; merge keeps the rest
+function combine<T>(current: T[], incoming: T[], key: (record: T) => string, mode: RestoreMode): T[] {
+  if (mode === "replace") return incoming;
+  const incomingKeys = new Set(incoming.map(key));
+  return [...current.filter((record) => !incomingKeys.has(key(record))), ...incoming];
+}
+
+const lower = (value: string) => value.trim().toLowerCase();
+
+function duplicates(values: string[]): string[] {
+  const seen = new Set<string>();
+  return values.filter((value) => {
+    const isDuplicate = seen.has(lower(value));
+    seen.add(lower(value));
+    return isDuplicate;
+  });
+}
+
+// Works out what the tracker holds after restoring `backup` over `current`.
+// Users are matched by id and then by username, and types by id and then by
+// name, so a backup from offline mode lines up with the same people on a
+// server. `currentUserId` must still be an active administrator afterwards.
+export function planRestore(
+  current: BackupData,
+  backup: Backup,
+  mode: RestoreMode,
+  passwordFormat: PasswordFormat,
+  currentUserId: string,
+): RestorePlan {
+  const incoming = backup.data;
+  const passwordResets: string[] = [];
+
+  const userIds = new Map<string, string>();
+  const users = incoming.users.map((user) => {
+    const existing =
+      current.users.find((u) => u.id === user.id) ??
+      current.users.find((u) => lower(u.username) === lower(user.username));
+    userIds.set(user.id, existing?.id ?? user.id);
+    let password = user.password;
+    if (backup.passwordFormat !== passwordFormat) {
+      if (existing) {
+        password = existing.password;
+      } else {
+        // Unguessable until an administrator resets it
+        password = crypto.randomUUID();
+        passwordResets.push(user.username);
+      }
+    }
+    return { ...user, id: existing?.id ?? user.id, password };
+  });
+
+  const typeIds = new Map<string, string>();
+  const certificationTypes = incoming.certificationTypes.map((type) => {
+    const existing =
+      current.certificationTypes.find((t) => t.id === type.id) ??
+      current.certificationTypes.find((t) => lower(t.name) === lower(type.name));
+    typeIds.set(type.id, existing?.id ?? type.id);
+    return { ...type, id: existing?.id ?? type.id };
+  });
+
+  const mapUser = (id: string) => userIds.get(id) ?? id;
+  const certifications = incoming.certifications.map((cert) => ({
+    ...cert,
+    userId: mapUser(cert.userId),
+    typeId: cert.typeId ? typeIds.get(cert.typeId) ?? null : null,
+    verifiedById: cert.verifiedById && userIds.has(cert.verifiedById) ? mapUser(cert.verifiedById) : null,
+  }));
+  const renewals = incoming.renewals.map((renewal) => ({
+    ...renewal,
+    renewedById: renewal.renewedById && userIds.has(renewal.renewedById) ? mapUser(renewal.renewedById) : null,
+  }));
+  const userSettings = incoming.userSettings.map((settings) => ({ ...settings, userId: mapUser(settings.userId) }));
+
+  const byId = (record: { id: string }) => record.id;
+  const data: BackupData = {
+    users: combine(current.users, users, byId, mode),
+    certificationTypes: combine(current.certificationTypes, certificationTypes, byId, mode),
+    certifications: combine(current.certifications, certifications, byId, mode),
+    renewals: combine(current.renewals, renewals, byId, mode),
+    organizationSettings: incoming.organizationSettings,
+    userSettings: combine(current.userSettings, userSettings, (s) => s.userId, mode),
+  };
+
+  // Merging can leave records that point at another record's old id
+  const keptUserIds = new Set(data.users.map((u) => u.id));
+  const keptTypeIds = new Set(data.certificationTypes.map((t) => t.id));
+  data.certifications = data.certifications
+    .filter((cert) => keptUserIds.has(cert.userId))
+    .map((cert) => (cert.typeId && !keptTypeIds.has(cert.typeId) ? { ...cert, typeId: null } : cert));
+  const keptCertIds = new Set(data.certifications.map((c) => c.id));
+  data.renewals = data.renewals.filter((renewal) => keptCertIds.has(renewal.certificationId));
+  data.userSettings = data.userSettings.filter((settings) => keptUserIds.has(settings.userId));
+
+  const errors: string[] = [];
+  const self = data.users.find((u) => u.id === currentUserId);
+  if (!self || self.role !== "admin" || self.deactivated) {
+    errors.push("The restore would remove your own administrator account. Include it in the backup or merge instead.");
+  }
+  for (const username of duplicates(data.users.map((u) => u.username))) {
+    errors.push(`More than one account would have the username "${username}"`);
+  }
+  for (const name of duplicates(data.certificationTypes.map((t) => t.name))) {
+    errors.push(`More than one certification type would be named "${name}"`);
+  }
+
+  const userSettingsChanges = compare(current.userSettings, data.userSettings, (s) => s.userId);
+  return {
+    data,
+    summary: {
+      users: compare(current.users, data.users, byId),
+      certificationTypes: compare(current.certificationTypes, data.certificationTypes, byId),
+      certifications: compare(current.certifications, data.certifications, byId),
+      renewals: compare(current.renewals, data.renewals, byId),
+      settingsChanged:
+        canonical(current.organizationSettings) !== canonical(data.organizationSettings) ||
+        userSettingsChanges.added + userSettingsChanges.updated + userSettingsChanges.removed > 0,
+      passwordResets,
+      errors,
+    },
+  };
+}
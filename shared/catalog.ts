@@ -0,0 +1,76 @@
+import { z } from "zod";
+import type { CatalogLevel, Certification, CertificationType } from "./schema";
+
+export const CATALOG_LEVEL_LABELS: Record<CatalogLevel, string> = {
+  foundational: "Foundational",
+  associate: "Associate",
+  professional: "Professional",
+  expert: "Expert",
+  specialty: "Specialty",
+};
+
+export const CREDENTIAL_ID_PLACEHOLDER = "{credentialId}";
+
+function credentialIdRegExp(format: string): RegExp | null {
+  try {
+    return new RegExp(`^(?:${format})$`);
+  } catch {
+    return null;
+  }
+}
+
+export const isValidCredentialIdFormat = (format: string) => credentialIdRegExp(format) !== null;
+
+export function isValidVerificationUrlTemplate(template: string): boolean {
+  if (!template.includes(CREDENTIAL_ID_PLACEHOLDER)) return false;
+  try {
+    const url = new URL(template.replaceAll(CREDENTIAL_ID_PLACEHOLDER, "id"));
+    return url.protocol === "https:" || url.protocol === "http:";
+  } catch {
+    return false;
+  }
+}
+
+// Checked by the form and again by the server. An empty credential ID is
+// always allowed; the catalog only says what a given one should look like.
+export function credentialIdFormatError(
+  type: Pick<CertificationType, "name" | "credentialIdFormat"> | undefined,
+  credentialId: string | null | undefined,
+): string | null {
+  if (!type?.credentialIdFormat || !credentialId) return null;
+  const pattern = credentialIdRegExp(type.credentialIdFormat);
+  return !pattern || pattern.test(credentialId) ? null : `Credential ID does not match the format for ${type.name}`;
+}
+
+// Certifications typed in rather than picked from the catalog, grouped by
+// name and issuer regardless of case and spacing
+export interface UnlistedEntry {
+  name: string;
+  issuingOrganization: string;
+  certificationIds: string[];
+}
+
+const normalize = (value: string) => value.trim().replace(/\s+/g, " ").toLowerCase();
+
+export const sameUnlistedEntry = (
+  a: Pick<Certification, "name" | "issuingOrganization">,
+  b: Pick<Certification, "name" | "issuingOrganization">,
+) => normalize(a.name) === normalize(b.name) && normalize(a.issuingOrganization) === normalize(b.issuingOrganization);
+
+export function unlistedEntries(certifications: Certification[]): UnlistedEntry[] {
+  const entries: UnlistedEntry[] = [];
+  for (const cert of certifications) {
+    if (cert.typeId) continue;
+    const entry = entries.find((e) => sameUnlistedEntry(e, cert));
+    if (entry) entry.certificationIds.push(cert.id);
+    else entries.push({ name: cert.name, issuingOrganization: cert.issuingOrganization, certificationIds: [cert.id] });
+  }
+  return entries.sort((a, b) => b.certificationIds.length - a.certificationIds.length || a.name.localeCompare(b.name));
+}
+
+export const mergeIntoCatalogSchema = z.object({
+  entries: z
+    .array(z.object({ name: z.string(), issuingOrganization: z.string() }))
+    .min(1, "Choose at least one entry to merge"),
+});
+export type MergeIntoCatalog = z.infer<typeof mergeIntoCatalogSchema>;
@@ -0,0 +1,47 @@
+import { afterEach, describe, expect, it } from "vitest";
+import { format, parseISO } from "date-fns";
+import { parseCertificateText } from "./certificate-text";
+
+describe("parseCertificateText dates", () => {
+  const originalTz = process.env.TZ;
+  afterEach(() => {
+    process.env.TZ = originalTz;
+  });
+
+  it("reads each written date format as the same calendar day", () => {
+    for (const written of ["2025-03-07", "March 7, 2025", "Mar. 7th 2025", "7 March 2025", "7th of March, 2025", "3/7/2025"]) {
+      expect(parseCertificateText(`Issued on ${written}`).issueDate).toBe("2025-03-07");
+    }
+  });
+
+  it("takes the dates that follow their labels", () => {
+    const details = parseCertificateText("Expires: June 30, 2028\nDate of issue: 1 July 2025");
+    expect(details).toMatchObject({ issueDate: "2025-07-01", expirationDate: "2028-06-30" });
+  });
+
+  it("reads two unlabelled dates as the issue and expiration dates", () => {
+    const details = parseCertificateText("Valid 2027-01-15 and 2024-01-15");
+    expect(details).toMatchObject({ issueDate: "2024-01-15", expirationDate: "2027-01-15" });
+  });
+
+  it("skips dates that do not exist", () => {
+    expect(parseCertificateText("Issued on February 30, 2025").issueDate).toBeUndefined();
+    expect(parseCertificateText("Issued on 2025-13-01").issueDate).toBeUndefined();
+  });
+
+  it("drops an expiration date that is not after the issue date", () => {
+    const details = parseCertificateText("Issued: 2025-05-01\nExpires: 2024-05-01");
+    expect(details.issueDate).toBe("2025-05-01");
+    expect(details.expirationDate).toBeUndefined();
+  });
+
+  it("gives the same day in every timezone, including once picked and saved by the form", () => {
+    for (const tz of ["UTC", "Pacific/Auckland", "Asia/Kolkata", "America/Los_Angeles"]) {
+      process.env.TZ = tz;
+      const { issueDate } = parseCertificateText("Issued on December 31, 2024");
+      expect(issueDate).toBe("2024-12-31");
+      // The form shows it as a local date and formats it back on submit
+      expect(format(parseISO(issueDate!), "yyyy-MM-dd")).toBe("2024-12-31");
+    }
+  });
+});
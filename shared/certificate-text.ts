@@ -0,0 +1,163 @@
+import { IMPORT_FIELD_LABELS } from "./import";
+
+export const certificateFields = ["name", "issuingOrganization", "credentialId", "issueDate", "expirationDate"] as const;
+export type CertificateField = (typeof certificateFields)[number];
+
+export const CERTIFICATE_FIELD_LABELS: Record<CertificateField, string> = {
+  name: IMPORT_FIELD_LABELS.name,
+  issuingOrganization: IMPORT_FIELD_LABELS.issuingOrganization,
+  credentialId: IMPORT_FIELD_LABELS.credentialId,
+  issueDate: IMPORT_FIELD_LABELS.issueDate,
+  expirationDate: IMPORT_FIELD_LABELS.expirationDate,
+};
+
+// Values found on a certificate; dates are YYYY-MM-DD
+export type CertificateDetails = Partial<Record<CertificateField, string>>;
+
+interface IssuerPattern {
+  issuer: string;
+  detect: RegExp;
+  // The first capture group of the first matching pattern is used
+  name: RegExp[];
+  credentialId: RegExp[];
+}
+
+// Wording used on the certificates of common issuers. Add an entry when a
+// new issuer's certificates come out wrong; the generic rules below still
+// apply to anything these miss.
+const ISSUER_PATTERNS: IssuerPattern[] = [
+  {
+    issuer: "Amazon Web Services",
+    detect: /amazon web services|\bAWS Certified\b/i,
+    name: [/(AWS Certified [A-Za-z -]+?(?:Practitioner|Associate|Professional|Specialty))/i],
+    credentialId: [/Validation (?:Number|ID)\s*:?\s*([A-Z0-9]{8,})/i],
+  },
+  {
+    issuer: "Microsoft",
+    detect: /\bmicrosoft\b/i,
+    name: [/(Microsoft Certified:\s*[^\n]+?(?:Fundamentals|Associate|Expert|Specialty))/i, /(Microsoft Certified:\s*[^\n]+)/i],
+    credentialId: [/Certification (?:number|ID)\s*:?\s*([A-Z0-9-]{6,})/i, /Credential ID\s*:?\s*([A-Z0-9-]{6,})/i],
+  },
+  {
+    issuer: "Google Cloud",
+    detect: /google cloud/i,
+    name: [/((?:Professional|Associate) Cloud [A-Za-z ]+?(?= *(?:\n|$|certif)))/i, /(Cloud Digital Leader)/i],
+    credentialId: [/Credential ID\s*:?\s*([A-Za-z0-9-]{6,})/i],
+  },
+  {
+    issuer: "CompTIA",
+    detect: /\bcomptia\b/i,
+    name: [/(CompTIA [A-Za-z]+\+?(?: ?(?:ce|Plus))?)/],
+    credentialId: [/Verification Code\s*:?\s*([A-Z0-9]{6,})/i, /\b(COMP\d{6,})\b/],
+  },
+  {
+    issuer: "Cisco",
+    detect: /\bcisco\b/i,
+    name: [/(Cisco Certified [A-Za-z ]+?(?:Associate|Professional|Expert|Technician|Specialist)(?: [A-Za-z ]+?(?= *(?:\n|$)))?)/i, /\b(CCNA|CCNP [A-Za-z ]+|CCIE [A-Za-z ]+)\b/],
+    credentialId: [/Cisco ID\s*:?\s*(CSCO\d+)/i, /\b(CSCO\d{6,})\b/],
+  },
+  {
+    issuer: "ISC2",
+    detect: /\(ISC\)²|\(ISC\)2|\bISC2\b/i,
+    name: [/\b(CISSP|SSCP|CCSP|CSSLP|CGRC|ISSAP|ISSEP|ISSMP)\b/],
+    credentialId: [/(?:Certification|Member) (?:Number|ID)\s*:?\s*(\d{4,})/i],
+  },
+  {
+    issuer: "Project Management Institute",
+    detect: /project management institute|\bPMI\b/i,
+    name: [/(Project Management Professional|Certified Associate in Project Management|PMI Agile Certified Practitioner)/i, /\b(PMP|CAPM|PMI-ACP)\b/],
+    credentialId: [/Certification Number\s*:?\s*(\d{5,})/i],
+  },
+];
+
+const GENERIC_NAME = [
+  /(?:has (?:successfully )?(?:earned|achieved|completed|passed)(?: the requirements (?:for|to be recognized as))?(?: an?| the)?|is (?:hereby )?(?:recognized|certified) as(?: an?)?)\s*:?\s*\n?\s*([^\n]{3,80})/i,
+];
+const GENERIC_CREDENTIAL_ID = [
+  /(?:credential|certificate|certification|license|licence|validation|verification)\s*(?:id|no\.?|number|#|code)\s*[:#]?\s*([A-Z0-9][A-Z0-9-]{3,})/i,
+];
+const ISSUE_LABEL = /\b(?:issued(?: on)?|issue date|date of issue|awarded(?: on)?|achieved(?: on)?|earned(?: on)?|certified on|certification date|date certified|valid from|effective(?: date)?|granted)\b/i;
+const EXPIRATION_LABEL = /\b(?:expires?(?: on)?|expiration(?: date)?|expiry(?: date)?|valid (?:until|through|thru|to)|renew(?:al)? by|good through)\b/i;
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const MONTH = "(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?";
+
+// Written dates in the forms certificates use. Numeric day/month dates are
+// read month first, as most issuers that print them are American.
+const DATE_FORMATS: { pattern: RegExp; toParts: (m: RegExpExecArray) => [string, string | number, string] }[] = [
+  { pattern: /\b(\d{4})-(\d{1,2})-(\d{1,2})\b/, toParts: (m) => [m[1], m[2], m[3]] },
+  { pattern: new RegExp(`\\b${MONTH}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, "i"), toParts: (m) => [m[3], monthNumber(m[1]), m[2]] },
+  { pattern: new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH},?\\s+(\\d{4})\\b`, "i"), toParts: (m) => [m[3], monthNumber(m[2]), m[1]] },
+  { pattern: /\b(\d{1,2})\/(\d{1,2})\/(\d{4})\b/, toParts: (m) => [m[3], m[1], m[2]] },
+];
+
+function monthNumber(name: string): number {
+  return MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+}
+
+function toIsoDate(year: string, month: string | number, day: string): string | undefined {
+  const iso = `${year}-${String(month).padStart(2, "0")}-${day.padStart(2, "0")}`;
+  const date = new Date(`${iso}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(iso) ? iso : undefined;
+}
+
+// Every date in the text, in the order they appear
+function findDates(text: string): { index: number; date: string }[] {
+  const found: { index: number; date: string }[] = [];
+  for (const { pattern, toParts } of DATE_FORMATS) {
+    const global = new RegExp(pattern.source, `${pattern.flags}g`);
+    for (const match of Array.from(text.matchAll(global))) {
+      const date = toIsoDate(...toParts(match as RegExpExecArray));
+      if (date && !found.some((f) => f.index === match.index)) found.push({ index: match.index!, date });
+    }
+  }
+  return found.sort((a, b) => a.index - b.index);
+}
+
+// The first date shortly after a label, such as "Expires: March 3, 2027"
+function labelledDate(text: string, label: RegExp, dates: { index: number; date: string }[]): string | undefined {
+  const global = new RegExp(label.source, `${label.flags}g`);
+  for (const match of Array.from(text.matchAll(global))) {
+    const end = match.index! + match[0].length;
+    const date = dates.find((d) => d.index >= end && d.index - end <= 40);
+    if (date) return date.date;
+  }
+  return undefined;
+}
+
+function firstCapture(text: string, patterns: RegExp[]): string | undefined {
+  for (const pattern of patterns) {
+    const value = pattern.exec(text)?.[1]?.replace(/\s+/g, " ").trim();
+    if (value) return value;
+  }
+  return undefined;
+}
+
+// Proposes certification details from the text of a certificate. Anything not
+// found is left out; nothing here is final until the user confirms it.
+export function parseCertificateText(raw: string): CertificateDetails {
+  const text = raw.replace(/[ \t\u00a0]+/g, " ").replace(/ *\n */g, "\n");
+  const issuer = ISSUER_PATTERNS.find((pattern) => pattern.detect.test(text));
+  const details: CertificateDetails = {};
+
+  if (issuer) details.issuingOrganization = issuer.issuer;
+  const name = firstCapture(text, [...(issuer?.name ?? []), ...GENERIC_NAME]);
+  if (name) details.name = name;
+  const credentialId = firstCapture(text, [...(issuer?.credentialId ?? []), ...GENERIC_CREDENTIAL_ID]);
+  if (credentialId) details.credentialId = credentialId;
+
+  const dates = findDates(text);
+  let issueDate = labelledDate(text, ISSUE_LABEL, dates);
+  let expirationDate = labelledDate(text, EXPIRATION_LABEL, dates);
+  // Unlabelled certificates usually print just the two dates of the cycle
+  const distinct = Array.from(new Set(dates.map((d) => d.date))).sort();
+  if (!expirationDate && distinct.length === 2 && (!issueDate || issueDate === distinct[0])) {
+    [issueDate, expirationDate] = distinct;
+  } else if (!issueDate && distinct.length === 1 && distinct[0] !== expirationDate) {
+    issueDate = distinct[0];
+  }
+  if (issueDate) details.issueDate = issueDate;
+  if (expirationDate && (!issueDate || expirationDate > issueDate)) details.expirationDate = expirationDate;
+
+  return details;
+}
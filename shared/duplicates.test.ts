@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { duplicateReason, findDuplicateGroups, mergeProblem, planMerge } from "./duplicates";
+import { makeCertification } from "./test-fixtures";
+
+const cert = makeCertification;
+
+describe("duplicateReason", () => {
+  it("matches the same catalog entry, credential ID or a near-identical name", () => {
+    expect(duplicateReason(cert({ typeId: "t1", name: "A" }), cert({ typeId: "t1", name: "B" }))).toBe("catalog");
+    expect(duplicateReason(cert({ credentialId: "AB-12", name: "A" }), cert({ credentialId: "ab 12", name: "B" }))).toBe(
+      "credential",
+    );
+    expect(duplicateReason(cert({ name: "AWS Solutions Architect" }), cert({ name: "AWS Solutions-Architect" }))).toBe("name");
+  });
+
+  it("never matches certifications of different people or issuers", () => {
+    expect(duplicateReason(cert(), cert({ userId: "u2" }))).toBeNull();
+    expect(duplicateReason(cert(), cert({ issuingOrganization: "CompTIA" }))).toBeNull();
+  });
+
+  it("groups chains of matches together", () => {
+    const groups = findDuplicateGroups([
+      cert({ id: "a", typeId: "t1" }),
+      cert({ id: "b", typeId: "t1", credentialId: "X1" }),
+      cert({ id: "c", name: "Other", credentialId: "X1" }),
+      cert({ id: "d", name: "Unrelated" }),
+    ]);
+    expect(groups.map((g) => g.certifications.map((c) => c.id))).toEqual([["a", "b", "c"]]);
+  });
+});
+
+describe("planMerge", () => {
+  it("fills blanks from the duplicates and keeps every distinct note", () => {
+    const { fields } = planMerge(cert({ notes: "Mine" }), [
+      cert({ id: "c2", credentialId: "X1", certificateUrl: "https://example.com/x1", notes: "Theirs" }),
+      cert({ id: "c3", notes: " Mine " }),
+    ]);
+    expect(fields).toMatchObject({ credentialId: "X1", certificateUrl: "https://example.com/x1", notes: "Mine\n\nTheirs" });
+  });
+
+  it("turns a duplicate covering other dates into an archived cycle", () => {
+    const { archived } = planMerge(cert(), [
+      cert({ id: "old", issueDate: "2021-01-01", expirationDate: "2024-01-01", credentialId: "OLD" }),
+      cert({ id: "same" }),
+    ]);
+    expect(archived).toEqual([
+      {
+        certificationId: "old",
+        issueDate: "2021-01-01",
+        expirationDate: "2024-01-01",
+        credentialId: "OLD",
+        next: { issueDate: "2024-01-01", expirationDate: "2027-01-01", credentialId: null },
+        renewedAt: new Date(2024, 0, 1),
+      },
+    ]);
+  });
+
+  it("keeps the latest cycle current even when an older record is kept", () => {
+    const { fields, archived } = planMerge(
+      cert({ issueDate: "2018-01-01", expirationDate: "2021-01-01", credentialId: "FIRST", notes: "Kept" }),
+      [
+        cert({ id: "latest", credentialId: "THIRD" }),
+        cert({ id: "middle", issueDate: "2021-01-01", expirationDate: "2024-01-01", credentialId: "SECOND" }),
+      ],
+    );
+    expect(fields).toMatchObject({ issueDate: "2024-01-01", expirationDate: "2027-01-01", credentialId: "THIRD", notes: "Kept" });
+    expect(archived.map((a) => [a.certificationId, a.credentialId, a.next.credentialId, a.renewedAt])).toEqual([
+      ["c1", "FIRST", "SECOND", new Date(2021, 0, 1)],
+      ["middle", "SECOND", "THIRD", new Date(2024, 0, 1)],
+    ]);
+  });
+
+  it("takes the strongest verification for the same cycle and credential only", () => {
+    const verifiedAt = new Date("2024-02-01");
+    const { fields } = planMerge(cert({ credentialId: "X1", verificationStatus: "admin", verifiedById: "a1", verifiedAt }), [
+      cert({ id: "same", credentialId: "X1", verificationStatus: "link", verifiedById: "a2", verifiedAt }),
+      cert({ id: "old", issueDate: "2021-01-01", credentialId: "X1", verificationStatus: "link", verifiedById: "a3" }),
+    ]);
+    expect(fields).toMatchObject({ verificationStatus: "link", verifiedById: "a2" });
+
+    const other = planMerge(cert({ credentialId: "X1" }), [
+      cert({ id: "c2", credentialId: "X2", verificationStatus: "admin", verifiedById: "a1", verifiedAt }),
+    ]);
+    expect(other.fields.verificationStatus).toBe("unverified");
+  });
+});
+
+describe("mergeProblem", () => {
+  it("refuses to archive a cycle that never expires", () => {
+    const lifetime = cert({ id: "c2", issueDate: "2020-01-01", expirationDate: null });
+    expect(mergeProblem(cert(), [lifetime], [])).toMatch(/never expire/);
+    expect(mergeProblem(cert({ expirationDate: null }), [cert({ id: "c2", issueDate: "2020-01-01" })], [])).toMatch(
+      /never expire/,
+    );
+    expect(mergeProblem(cert({ expirationDate: null }), [cert({ id: "c2", expirationDate: null })], [])).toBeNull();
+  });
+
+  it("counts only the documents that stay current against the limit", () => {
+    const docs = (certificationId: string, count: number, renewalId: string | null = null) =>
+      Array.from({ length: count }, () => ({ certificationId, renewalId }));
+    const primary = cert();
+    const same = cert({ id: "same" });
+    const old = cert({ id: "old", issueDate: "2021-01-01", expirationDate: "2024-01-01" });
+
+    // Archived and renewal documents leave the current cycle
+    const attachments = [...docs("c1", 5), ...docs("same", 5), ...docs("old", 5), ...docs("c1", 3, "r1")];
+    expect(mergeProblem(primary, [same, old], attachments)).toBeNull();
+    expect(mergeProblem(primary, [same], [...docs("c1", 6), ...docs("same", 5)])).toMatch(/11 documents/);
+    // An older record kept as primary hands its documents to the renewal history
+    expect(mergeProblem(old, [primary, same], [...docs("old", 8), ...docs("c1", 5), ...docs("same", 5)])).toBeNull();
+  });
+});
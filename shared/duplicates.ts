@@ -0,0 +1,250 @@
+import { parseISO } from "date-fns";
+import { z } from "zod";
+import type { Certification, CertificationAttachment } from "./schema";
+import { MAX_ATTACHMENTS } from "./attachments";
+import { strongestVerification, type CertificationVerification } from "./verification";
+
+export const duplicateReasons = ["catalog", "credential", "name"] as const;
+export type DuplicateReason = (typeof duplicateReasons)[number];
+
+export const DUPLICATE_REASON_LABELS: Record<DuplicateReason, string> = {
+  catalog: "Same catalog entry",
+  credential: "Same credential ID and issuer",
+  name: "Similar name from the same issuer",
+};
+
+// Imported rows have no catalog link, so typeId is optional
+export type DuplicateCandidate = Pick<Certification, "userId" | "name" | "issuingOrganization"> &
+  Partial<Pick<Certification, "typeId" | "credentialId">>;
+
+// How alike two names must be, as a Dice coefficient over letter pairs
+const NAME_SIMILARITY = 0.85;
+
+const normalize = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/[\s\-–—_.,:;/\\()[\]'"+&|]+/g, " ")
+    .trim();
+
+function letterPairs(value: string): string[] {
+  const pairs: string[] = [];
+  for (const word of normalize(value).split(" ")) {
+    for (let i = 0; i < word.length - 1; i++) pairs.push(word.slice(i, i + 2));
+  }
+  return pairs;
+}
+
+// 1 for the same name regardless of case and punctuation, 0 for nothing in common
+export function nameSimilarity(a: string, b: string): number {
+  if (normalize(a) === normalize(b)) return 1;
+  const pairsA = letterPairs(a);
+  const pairsB = letterPairs(b);
+  if (pairsA.length === 0 || pairsB.length === 0) return 0;
+  const remaining = [...pairsB];
+  let shared = 0;
+  for (const pair of pairsA) {
+    const index = remaining.indexOf(pair);
+    if (index !== -1) {
+      shared++;
+      remaining.splice(index, 1);
+    }
+  }
+  return (2 * shared) / (pairsA.length + pairsB.length);
+}
+
+// Why two certifications look like the same credential held twice by one
+// person, or null when they don't
+export function duplicateReason(a: DuplicateCandidate, b: DuplicateCandidate): DuplicateReason | null {
+  if (a.userId !== b.userId) return null;
+  if (a.typeId && a.typeId === b.typeId) return "catalog";
+  if (normalize(a.issuingOrganization) !== normalize(b.issuingOrganization)) return null;
+  if (a.credentialId && b.credentialId && normalize(a.credentialId) === normalize(b.credentialId)) {
+    return "credential";
+  }
+  return nameSimilarity(a.name, b.name) >= NAME_SIMILARITY ? "name" : null;
+}
+
+export interface DuplicateMatch<T> {
+  existing: T;
+  reason: DuplicateReason;
+}
+
+export function findDuplicate<T extends DuplicateCandidate>(
+  candidate: DuplicateCandidate,
+  existing: T[],
+): DuplicateMatch<T> | undefined {
+  for (const cert of existing) {
+    const reason = duplicateReason(candidate, cert);
+    if (reason) return { existing: cert, reason };
+  }
+  return undefined;
+}
+
+export function duplicateMessage({ existing, reason }: DuplicateMatch<Pick<Certification, "name" | "issueDate">>) {
+  const why = DUPLICATE_REASON_LABELS[reason].toLowerCase();
+  return `Looks like a duplicate of ${existing.name} issued ${existing.issueDate} (${why})`;
+}
+
+export interface DuplicateGroup {
+  certifications: Certification[];
+  // Why the first pair found in the group matched
+  reason: DuplicateReason;
+}
+
+// Certifications that look like the same credential, grouped so that each
+// group can be merged into one record
+export function findDuplicateGroups(certifications: Certification[]): DuplicateGroup[] {
+  const groups: DuplicateGroup[] = [];
+  const grouped = new Set<string>();
+  certifications.forEach((cert, index) => {
+    if (grouped.has(cert.id)) return;
+    let reason: DuplicateReason | null = null;
+    const members = [cert];
+    // Anything matching a member joins, so chains of near-identical names end up together
+    for (let i = 0; i < members.length; i++) {
+      for (const other of certifications.slice(index + 1)) {
+        if (grouped.has(other.id) || members.includes(other)) continue;
+        const match = duplicateReason(members[i], other);
+        if (match) {
+          reason ??= match;
+          members.push(other);
+        }
+      }
+    }
+    if (reason) {
+      members.forEach((member) => grouped.add(member.id));
+      groups.push({ certifications: members, reason });
+    }
+  });
+  return groups;
+}
+
+const filledCount = (cert: Certification) =>
+  [cert.typeId, cert.credentialId, cert.expirationDate, cert.certificateUrl, cert.notes].filter(Boolean).length;
+
+// The record to keep: the one on the latest cycle, then the most complete
+export function suggestPrimary(certifications: Certification[]): Certification {
+  return [...certifications].sort(
+    (a, b) => b.issueDate.localeCompare(a.issueDate) || filledCount(b) - filledCount(a),
+  )[0];
+}
+
+export type MergedFields = Pick<
+  Certification,
+  "issueDate" | "expirationDate" | "credentialId" | "typeId" | "certificateUrl" | "notes"
+> &
+  CertificationVerification;
+
+type Cycle = Pick<Certification, "issueDate" | "expirationDate">;
+
+const sameCycle = (a: Cycle, b: Cycle) => a.issueDate === b.issueDate && a.expirationDate === b.expirationDate;
+
+// Oldest first. Cycles without an expiration date only ever merge with the
+// same dates, so sorting them first is as good as anywhere.
+const byCycle = (a: Cycle, b: Cycle) =>
+  a.issueDate.localeCompare(b.issueDate) || (a.expirationDate ?? "").localeCompare(b.expirationDate ?? "");
+
+const latestCycle = (records: Certification[]) => [...records].sort(byCycle)[records.length - 1];
+
+export interface RenewedCycle {
+  issueDate: string;
+  expirationDate: string;
+  credentialId: string | null;
+}
+
+// A record on an earlier cycle than the latest one in the group, whichever
+// record is kept. Its cycle becomes a renewal of the kept record, replaced by
+// the next cycle in date order, so reports for those dates still find it and
+// the history reads in order. Its current documents move into that renewal.
+export interface ArchivedCycle extends RenewedCycle {
+  certificationId: string;
+  next: RenewedCycle;
+  // The day the next cycle began, so the history sorts by date
+  renewedAt: Date;
+}
+
+export interface MergePlan {
+  fields: MergedFields;
+  archived: ArchivedCycle[];
+}
+
+const firstFilled = <K extends "typeId" | "credentialId" | "certificateUrl">(records: Certification[], field: K) =>
+  records.find((c) => c[field])?.[field] || null;
+
+const renewedCycle = (c: Certification & { expirationDate: string }): RenewedCycle => ({
+  issueDate: c.issueDate,
+  expirationDate: c.expirationDate,
+  credentialId: c.credentialId,
+});
+
+// What the kept record becomes: the latest cycle, with the credential ID and
+// certificate URL of the records on it, its own catalog link, blanks filled
+// in from the others, and every distinct note. Verification carries over from
+// whichever record vouching for that cycle and credential is strongest.
+export function planMerge(primary: Certification, others: Certification[]): MergePlan {
+  const records = [primary, ...others];
+  const latest = latestCycle(records);
+  const current = records.filter((c) => sameCycle(c, latest));
+  const credentialId = firstFilled(current, "credentialId");
+  const notes = Array.from(new Set(records.map((c) => c.notes?.trim()).filter(Boolean)));
+  const vouching = current.filter((c) => (c.credentialId || null) === credentialId);
+
+  // mergeProblem refuses archiving cycles that never expire, or onto one
+  const earlier = records
+    .filter((c): c is Certification & { expirationDate: string } => !current.includes(c) && !!c.expirationDate)
+    .sort(byCycle);
+  const following = earlier.map((_, i) =>
+    i + 1 < earlier.length
+      ? renewedCycle(earlier[i + 1])
+      : { issueDate: latest.issueDate, expirationDate: latest.expirationDate!, credentialId },
+  );
+
+  return {
+    fields: {
+      issueDate: latest.issueDate,
+      expirationDate: latest.expirationDate,
+      credentialId,
+      typeId: primary.typeId || firstFilled(others, "typeId"),
+      certificateUrl: firstFilled([...current, ...records], "certificateUrl"),
+      notes: notes.join("\n\n") || null,
+      ...strongestVerification(vouching),
+    },
+    archived: earlier.map((c, i) => ({
+      certificationId: c.id,
+      ...renewedCycle(c),
+      next: following[i],
+      renewedAt: parseISO(following[i].issueDate),
+    })),
+  };
+}
+
+// Why a group cannot be merged as chosen, or null. Renewal history needs
+// expiration dates on both sides, and the documents staying current must fit
+// within the per-cycle limit.
+export function mergeProblem(
+  primary: Certification,
+  others: Certification[],
+  attachments: Pick<CertificationAttachment, "certificationId" | "renewalId">[],
+): string | null {
+  const records = [primary, ...others];
+  const latest = latestCycle(records);
+  const current = records.filter((c) => sameCycle(c, latest));
+  if (current.length < records.length && records.some((c) => !c.expirationDate)) {
+    return "Certifications that never expire can only be merged with records covering the same dates";
+  }
+  const stayCurrent = new Set(current.map((c) => c.id));
+  const documents = attachments.filter((a) => !a.renewalId && stayCurrent.has(a.certificationId)).length;
+  if (documents > MAX_ATTACHMENTS) {
+    return `The merged record would have ${documents} documents; at most ${MAX_ATTACHMENTS} can be attached`;
+  }
+  return null;
+}
+
+export const mergeDuplicatesSchema = z.object({
+  primaryId: z.string().min(1),
+  duplicateIds: z.array(z.string().min(1)).min(1, "Choose at least one duplicate to merge"),
+});
+export type MergeDuplicates = z.infer<typeof mergeDuplicatesSchema>;
+
+// Sent with a new certification once the user has seen the duplicate warning
+export const duplicateOverrideSchema = z.object({ allowDuplicate: z.boolean().optional() });
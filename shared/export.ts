@@ -0,0 +1,139 @@
+import * as XLSX from "xlsx";
+import type { Certification, User } from "./schema";
+import { isExpiring, type StatusInfo } from "./status";
+
+export const statusFilters = ["all", "active", "expiring", "expired"] as const;
+export type StatusFilter = (typeof statusFilters)[number];
+
+export interface CertificationFilter {
+  search: string;
+  status: StatusFilter;
+}
+
+// The search box matches name, issuer and credential ID; the status filter
+// groups the critical, warning and soon buckets together as "expiring".
+export function matchesFilter(cert: Certification, filter: CertificationFilter, info: StatusInfo): boolean {
+  const search = filter.search.toLowerCase();
+  const matchesSearch =
+    cert.name.toLowerCase().includes(search) ||
+    cert.issuingOrganization.toLowerCase().includes(search) ||
+    (cert.credentialId?.toLowerCase().includes(search) ?? false);
+  if (!matchesSearch) return false;
+
+  switch (filter.status) {
+    case "active":
+      return info.status === "active";
+    case "expiring":
+      return isExpiring(info.status);
+    case "expired":
+      return info.status === "expired";
+    default:
+      return true;
+  }
+}
+
+export const exportFormats = ["csv", "xlsx", "json"] as const;
+export type ExportFormat = (typeof exportFormats)[number];
+
+export interface CertificationExportRow {
+  name: string;
+  issuingOrganization: string;
+  credentialId: string | null;
+  issueDate: string;
+  expirationDate: string | null;
+  status: string;
+  daysRemaining: number | null;
+  ownerName: string;
+  ownerEmail: string;
+  certificateUrl: string | null;
+  notes: string | null;
+}
+
+const EXPORT_COLUMNS: [keyof CertificationExportRow, string][] = [
+  ["name", "Certification"],
+  ["issuingOrganization", "Issuing Organization"],
+  ["credentialId", "Credential ID"],
+  ["issueDate", "Issue Date"],
+  ["expirationDate", "Expiration Date"],
+  ["status", "Status"],
+  ["daysRemaining", "Days Remaining"],
+  ["ownerName", "Owner"],
+  ["ownerEmail", "Owner Email"],
+  ["certificateUrl", "Certificate URL"],
+  ["notes", "Notes"],
+];
+
+export function toExportRows(
+  certs: Certification[],
+  users: Pick<User, "id" | "fullName" | "email">[],
+  statusOf: (cert: Certification) => StatusInfo,
+): CertificationExportRow[] {
+  return certs.map((cert) => {
+    const owner = users.find((u) => u.id === cert.userId);
+    const info = statusOf(cert);
+    return {
+      name: cert.name,
+      issuingOrganization: cert.issuingOrganization,
+      credentialId: cert.credentialId || null,
+      issueDate: cert.issueDate,
+      expirationDate: cert.expirationDate,
+      status: info.label,
+      daysRemaining: info.days,
+      ownerName: owner?.fullName ?? "Unknown",
+      ownerEmail: owner?.email ?? "",
+      certificateUrl: cert.certificateUrl || null,
+      notes: cert.notes || null,
+    };
+  });
+}
+
+// Spreadsheet apps run cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+\-@]/;
+
+function csvCell(value: string | number | null): string {
+  if (value === null) return "";
+  if (typeof value === "number") return String(value);
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(rows: CertificationExportRow[]): string {
+  const lines = [
+    EXPORT_COLUMNS.map(([, label]) => csvCell(label)).join(","),
+    ...rows.map((row) => EXPORT_COLUMNS.map(([key]) => csvCell(row[key])).join(",")),
+  ];
+  return lines.join("\r\n") + "\r\n";
+}
+
+function toXlsx(rows: CertificationExportRow[]): ArrayBuffer {
+  const sheet = XLSX.utils.aoa_to_sheet([
+    EXPORT_COLUMNS.map(([, label]) => label),
+    ...rows.map((row) => EXPORT_COLUMNS.map(([key]) => row[key] ?? "")),
+  ]);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, "Certifications");
+  return XLSX.write(workbook, { type: "array", bookType: "xlsx" });
+}
+
+export interface ExportFile {
+  body: string | ArrayBuffer;
+  contentType: string;
+  fileName: string;
+}
+
+// Used by the Export menu and GET /api/certifications/export alike
+export function serializeExport(rows: CertificationExportRow[], format: ExportFormat, date: string): ExportFile {
+  const fileName = `certifications-${date}.${format}`;
+  switch (format) {
+    case "csv":
+      return { body: toCsv(rows), contentType: "text/csv; charset=utf-8", fileName };
+    case "xlsx":
+      return {
+        body: toXlsx(rows),
+        contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+        fileName,
+      };
+    case "json":
+      return { body: JSON.stringify(rows, null, 2), contentType: "application/json", fileName };
+  }
+}
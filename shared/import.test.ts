@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { checkImportRows, type ImportContext } from "./import";
+import { EXPIRATION_BEFORE_ISSUE } from "./schema";
+
+const context: ImportContext = {
+  allowedIssuers: [],
+  users: [
+    { id: "u1", username: "admin", email: "admin@example.com", deactivated: false },
+    { id: "u2", username: "john", email: "john@example.com", deactivated: false },
+    { id: "u3", username: "gone", email: "gone@example.com", deactivated: true },
+  ],
+  currentUserId: "u1",
+};
+
+const row = (overrides: Record<string, unknown> = {}) => ({
+  name: "CCNA",
+  issuingOrganization: "Cisco",
+  issueDate: "2024-01-01",
+  expirationDate: "2027-01-01",
+  ...overrides,
+});
+
+describe("checkImportRows", () => {
+  it("numbers rows after the header and imports them for the importing user", () => {
+    const [checked] = checkImportRows([row()], context);
+    expect(checked).toMatchObject({ row: 2, data: { name: "CCNA", userId: "u1", expirationDate: "2027-01-01" } });
+    expect(checked.errors).toBeUndefined();
+  });
+
+  it("reads a blank or missing expiration date as not expiring", () => {
+    const checked = checkImportRows(
+      [row({ expirationDate: "" }), row({ name: "CCNP", expirationDate: "  " }), row({ name: "CCIE", expirationDate: undefined })],
+      context,
+    );
+    expect(checked.map((c) => c.errors)).toEqual([undefined, undefined, undefined]);
+    expect(checked.map((c) => c.data?.expirationDate)).toEqual([null, null, null]);
+  });
+
+  it("names missing columns and rejects bad dates", () => {
+    const [missing, badDate, backwards] = checkImportRows(
+      [{ issuingOrganization: "Cisco" }, row({ issueDate: "01/02/2024" }), row({ expirationDate: "2023-01-01" })],
+      context,
+    );
+    expect(missing.errors).toEqual(expect.arrayContaining(["Certification Name is required", "Issue Date is required"]));
+    expect(badDate.errors).toEqual(["Issue date must be a YYYY-MM-DD date"]);
+    expect(backwards.errors).toEqual([EXPIRATION_BEFORE_ISSUE]);
+  });
+
+  it("matches owners by username or email and refuses unknown or deactivated ones", () => {
+    const checked = checkImportRows(
+      [row({ owner: "JOHN" }), row({ name: "CCNP", owner: "john@example.com" }), row({ owner: "nobody" }), row({ owner: "gone" })],
+      context,
+    );
+    expect(checked[0].data?.userId).toBe("u2");
+    expect(checked[1].data?.userId).toBe("u2");
+    expect(checked[2].errors).toEqual(['No user matches owner "nobody"']);
+    expect(checked[3].errors).toEqual(["gone is deactivated"]);
+  });
+
+  it("holds issuers to the approved list", () => {
+    const [checked] = checkImportRows([row({ issuingOrganization: "CompTIA" })], { ...context, allowedIssuers: ["cisco"] });
+    expect(checked.errors).toEqual(["CompTIA is not on the approved issuer list"]);
+  });
+
+  it("skips rows repeating an existing certification or an earlier row", () => {
+    const existing = [{ userId: "u1", name: "CCNA", issuingOrganization: "Cisco", issueDate: "2021-01-01" }];
+    const aws = row({ name: "AWS Solutions Architect", issuingOrganization: "Amazon" });
+    const [ccna, first, repeat] = checkImportRows([row(), aws, aws], { ...context, existing });
+    expect(ccna.duplicate).toMatch(/duplicate of CCNA issued 2021-01-01/);
+    expect(first.duplicate).toBeUndefined();
+    expect(repeat.duplicate).toMatch(/duplicate of AWS Solutions Architect/);
+  });
+});
@@ -0,0 +1,130 @@
+import { z } from "zod";
+import {
+  EXPIRATION_BEFORE_ISSUE,
+  certificationFieldsSchema,
+  expiresAfterIssue,
+  type InsertCertification,
+  type User,
+} from "./schema";
+import { isAllowedIssuer } from "./settings";
+import { duplicateMessage, findDuplicate, type DuplicateCandidate } from "./duplicates";
+
+export const importFields = [
+  "name",
+  "issuingOrganization",
+  "credentialId",
+  "issueDate",
+  "expirationDate",
+  "certificateUrl",
+  "notes",
+  "owner",
+] as const;
+export type ImportField = (typeof importFields)[number];
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  name: "Certification Name",
+  issuingOrganization: "Issuing Organization",
+  credentialId: "Credential ID",
+  issueDate: "Issue Date",
+  expirationDate: "Expiration Date",
+  certificateUrl: "Certificate URL",
+  notes: "Notes",
+  owner: "Owner (username or email)",
+};
+
+export const REQUIRED_IMPORT_FIELDS: ImportField[] = ["name", "issuingOrganization", "issueDate"];
+
+export const MAX_IMPORT_ROWS = 1000;
+
+const blankToNull = (value: unknown) => (typeof value === "string" && value.trim() === "" ? null : value);
+
+// A spreadsheet row after column mapping. The certification fields follow the
+// same rules as the form; a blank expiration date means it does not expire.
+export const importRowSchema = certificationFieldsSchema
+  .pick({
+    name: true,
+    issuingOrganization: true,
+    credentialId: true,
+    issueDate: true,
+    certificateUrl: true,
+    notes: true,
+  })
+  .extend({
+    expirationDate: z.preprocess(blankToNull, certificationFieldsSchema.shape.expirationDate),
+    owner: z.string().trim().optional(),
+  });
+export type ImportRow = z.infer<typeof importRowSchema>;
+
+export const importCertificationsSchema = z.object({
+  rows: z
+    .array(z.unknown())
+    .min(1, "The file has no rows to import")
+    .max(MAX_IMPORT_ROWS, `At most ${MAX_IMPORT_ROWS} rows can be imported at once`),
+});
+
+type HeldCertification = DuplicateCandidate & Pick<InsertCertification, "issueDate">;
+
+export interface ImportContext {
+  allowedIssuers: string[];
+  // Owners are looked up among these; a blank owner means the importing user
+  users: Pick<User, "id" | "username" | "email" | "deactivated">[];
+  currentUserId: string;
+  // Certifications already held, so rows repeating one can be skipped
+  existing?: HeldCertification[];
+}
+
+// Spreadsheet rows are numbered from 2, after the header row. Valid rows that
+// repeat an existing certification, or an earlier row, say why in duplicate
+// and are skipped rather than imported.
+export type CheckedImportRow =
+  | { row: number; data: InsertCertification; errors?: undefined; duplicate?: string }
+  | { row: number; data?: undefined; errors: string[]; duplicate?: undefined };
+
+function findOwner(users: ImportContext["users"], owner: string) {
+  const wanted = owner.toLowerCase();
+  return users.find((u) => u.username.toLowerCase() === wanted || u.email.toLowerCase() === wanted);
+}
+
+// Zod's "Required" does not say which column is missing
+function describeIssue(issue: z.ZodIssue): string {
+  const field = issue.path[0] as ImportField;
+  if (issue.code === "invalid_type" && issue.received === "undefined") {
+    return `${IMPORT_FIELD_LABELS[field] ?? field} is required`;
+  }
+  return issue.message;
+}
+
+// Validates every row, so the preview and the API report the same problems.
+export function checkImportRows(rows: unknown[], context: ImportContext): CheckedImportRow[] {
+  const held: HeldCertification[] = [...(context.existing ?? [])];
+  return rows.map((raw, index) => {
+    const row = index + 2;
+    const result = importRowSchema.safeParse(raw);
+    if (!result.success) {
+      return { row, errors: result.error.issues.map(describeIssue) };
+    }
+
+    const { owner, ...fields } = result.data;
+    const errors: string[] = [];
+    if (!expiresAfterIssue(fields)) {
+      errors.push(EXPIRATION_BEFORE_ISSUE);
+    }
+    if (!isAllowedIssuer(context.allowedIssuers, fields.issuingOrganization)) {
+      errors.push(`${fields.issuingOrganization} is not on the approved issuer list`);
+    }
+    let userId = context.currentUserId;
+    if (owner) {
+      const user = findOwner(context.users, owner);
+      if (!user) errors.push(`No user matches owner "${owner}"`);
+      else if (user.deactivated) errors.push(`${owner} is deactivated`);
+      else userId = user.id;
+    }
+
+    if (errors.length > 0) return { row, errors };
+    const data = { ...fields, expirationDate: fields.expirationDate ?? null, userId };
+    const match = findDuplicate(data, held);
+    if (match) return { row, data, duplicate: duplicateMessage(match) };
+    held.push(data);
+    return { row, data };
+  });
+}
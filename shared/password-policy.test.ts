@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_PASSWORD_POLICY, describePasswordPolicy, passwordSchema, type PasswordPolicy } from "./password-policy";
+
+const problems = (policy: PasswordPolicy, password: string) => {
+  const result = passwordSchema(policy).safeParse(password);
+  return result.success ? [] : result.error.issues.map((issue) => issue.message);
+};
+
+const strict: PasswordPolicy = {
+  minLength: 12,
+  requireLowercase: true,
+  requireUppercase: true,
+  requireNumber: true,
+  requireSymbol: true,
+};
+
+describe("passwordSchema", () => {
+  it("asks for eight characters including a number by default", () => {
+    expect(problems(DEFAULT_PASSWORD_POLICY, "user1234")).toEqual([]);
+    expect(problems(DEFAULT_PASSWORD_POLICY, "user123")).toEqual(["Password must be at least 8 characters"]);
+    expect(problems(DEFAULT_PASSWORD_POLICY, "password")).toEqual(["Password must contain a number"]);
+  });
+
+  it("accepts the demo accounts' passwords", () => {
+    for (const password of ["admin123", "user1234"]) {
+      expect(problems(DEFAULT_PASSWORD_POLICY, password)).toEqual([]);
+    }
+  });
+
+  it("reports every rule a password breaks", () => {
+    expect(problems(strict, "abc")).toEqual([
+      "Password must be at least 12 characters",
+      "Password must contain an uppercase letter",
+      "Password must contain a number",
+      "Password must contain a symbol",
+    ]);
+    expect(problems(strict, "Correct-horse-9")).toEqual([]);
+  });
+});
+
+describe("describePasswordPolicy", () => {
+  it("lists the rules in the order they are checked", () => {
+    expect(describePasswordPolicy(DEFAULT_PASSWORD_POLICY)).toBe("At least 8 characters, including a number.");
+    expect(describePasswordPolicy(strict)).toBe(
+      "At least 12 characters, including a lowercase letter, an uppercase letter, a number, a symbol.",
+    );
+    expect(describePasswordPolicy({ ...DEFAULT_PASSWORD_POLICY, requireNumber: false })).toBe("At least 8 characters.");
+  });
+});
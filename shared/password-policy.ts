@@ -0,0 +1,48 @@
+import { z } from "zod";
+
+export interface PasswordPolicy {
+  minLength: number;
+  requireLowercase: boolean;
+  requireUppercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+}
+
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  requireLowercase: false,
+  requireUppercase: false,
+  requireNumber: true,
+  requireSymbol: false,
+};
+
+// Builds the validator used for new passwords by the register form and by the
+// server, so both reject the same passwords with the same messages.
+export function passwordSchema(policy: PasswordPolicy) {
+  let schema = z.string().min(policy.minLength, `Password must be at least ${policy.minLength} characters`);
+  if (policy.requireLowercase) {
+    schema = schema.regex(/[a-z]/, "Password must contain a lowercase letter");
+  }
+  if (policy.requireUppercase) {
+    schema = schema.regex(/[A-Z]/, "Password must contain an uppercase letter");
+  }
+  if (policy.requireNumber) {
+    schema = schema.regex(/[0-9]/, "Password must contain a number");
+  }
+  if (policy.requireSymbol) {
+    schema = schema.regex(/[^A-Za-z0-9]/, "Password must contain a symbol");
+  }
+  return schema;
+}
+
+export function describePasswordPolicy(policy: PasswordPolicy): string {
+  const extras = [
+    policy.requireLowercase && "a lowercase letter",
+    policy.requireUppercase && "an uppercase letter",
+    policy.requireNumber && "a number",
+    policy.requireSymbol && "a symbol",
+  ].filter(Boolean);
+  const base = `At least ${policy.minLength} characters`;
+  if (extras.length === 0) return `${base}.`;
+  return `${base}, including ${extras.join(", ")}.`;
+}
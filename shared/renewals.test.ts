@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { certifiedOn, expirationAfter, proposeRenewalExpiration } from "./renewals";
+import { makeCertification, makeRenewal } from "./test-fixtures";
+
+const threeYears = { validityMonths: 36 };
+
+describe("proposeRenewalExpiration", () => {
+  it("keeps the anniversary when counting from the old expiration", () => {
+    expect(proposeRenewalExpiration(threeYears, "expiration", "2025-06-30", "2025-03-10")).toBe("2028-06-30");
+  });
+
+  it("starts a full period on the completion date otherwise", () => {
+    expect(proposeRenewalExpiration(threeYears, "completion", "2025-06-30", "2025-03-10")).toBe("2028-03-10");
+  });
+
+  it("ends on the last day of a shorter month", () => {
+    expect(proposeRenewalExpiration({ validityMonths: 1 }, "expiration", "2025-01-31", "2025-01-15")).toBe("2025-02-28");
+    expect(proposeRenewalExpiration({ validityMonths: 1 }, "expiration", "2024-01-31", "2024-01-15")).toBe("2024-02-29");
+    expect(proposeRenewalExpiration({ validityMonths: 6 }, "completion", "2025-01-01", "2025-08-31")).toBe("2026-02-28");
+  });
+
+  it("moves a leap day to February 28 unless the new year is a leap year too", () => {
+    expect(proposeRenewalExpiration({ validityMonths: 12 }, "expiration", "2024-02-29", "2024-02-01")).toBe("2025-02-28");
+    expect(proposeRenewalExpiration({ validityMonths: 48 }, "expiration", "2024-02-29", "2024-02-01")).toBe("2028-02-29");
+  });
+
+  it("proposes nothing for a type that never expires", () => {
+    expect(proposeRenewalExpiration({ validityMonths: null }, "expiration", "2025-06-30", "2025-03-10")).toBeUndefined();
+    expect(expirationAfter({ validityMonths: null }, "2025-06-30")).toBeUndefined();
+  });
+
+  it("gives the same date in every timezone", () => {
+    const originalTz = process.env.TZ;
+    try {
+      for (const tz of ["UTC", "Pacific/Auckland", "America/Los_Angeles"]) {
+        process.env.TZ = tz;
+        expect(expirationAfter(threeYears, "2025-12-31")).toBe("2028-12-31");
+      }
+    } finally {
+      process.env.TZ = originalTz;
+    }
+  });
+});
+
+describe("certifiedOn", () => {
+  const ccna = makeCertification({ credentialId: "NEW" });
+  const renewal = makeRenewal({ previousCredentialId: "OLD", credentialId: "NEW" });
+  const cycleOn = (date: string, certs = [ccna], renewals = [renewal]) =>
+    certifiedOn(certs, renewals, date).map((entry) => entry.credentialId);
+
+  it("counts both the issue and the expiration day", () => {
+    expect(cycleOn("2024-01-01")).toEqual(["OLD"]);
+    expect(cycleOn("2027-01-01")).toEqual(["NEW"]);
+    expect(cycleOn("2027-01-02")).toEqual([]);
+    expect(cycleOn("2020-12-31")).toEqual([]);
+  });
+
+  it("reports the cycle that covered the day from the renewal history", () => {
+    expect(certifiedOn([ccna], [renewal], "2022-06-01")).toEqual([
+      {
+        certificationId: "c1",
+        userId: "u1",
+        name: "CCNA",
+        issuingOrganization: "Cisco",
+        issueDate: "2021-01-01",
+        expirationDate: "2024-01-01",
+        credentialId: "OLD",
+      },
+    ]);
+  });
+
+  it("leaves out a gap between cycles", () => {
+    const late = makeRenewal({ previousExpirationDate: "2023-06-30", previousCredentialId: "OLD", credentialId: "NEW" });
+    expect(cycleOn("2023-09-01", [ccna], [late])).toEqual([]);
+  });
+
+  it("covers every day from issue onwards when there is no expiration date", () => {
+    const lifetime = makeCertification({ expirationDate: null, credentialId: "LIFE" });
+    expect(cycleOn("2099-12-31", [lifetime], [])).toEqual(["LIFE"]);
+    expect(cycleOn("2023-12-31", [lifetime], [])).toEqual([]);
+  });
+
+  it("only uses the renewals of each certification", () => {
+    const other = makeCertification({ id: "c2", issueDate: "2024-06-01", credentialId: "OTHER" });
+    expect(cycleOn("2022-06-01", [other], [renewal])).toEqual([]);
+  });
+});
@@ -0,0 +1,103 @@
+import { addMonths, format, parseISO } from "date-fns";
+import type { Certification, CertificationRenewal, CertificationType, RenewalBasis } from "./schema";
+
+export type CertificationCycle = {
+  issueDate: string;
+  expirationDate: string | null;
+  credentialId: string | null;
+};
+
+// A certification that covered a given day, with the cycle that covered it
+export type CertifiedOnEntry = Pick<Certification, "userId" | "name" | "issuingOrganization"> &
+  CertificationCycle & { certificationId: string };
+
+export const RENEWAL_MUST_EXTEND = "A renewal must move the expiration date later";
+export const RENEWAL_NOT_NEEDED = "This certification does not expire, so it cannot be renewed";
+
+export const RENEWAL_BASIS_LABELS: Record<RenewalBasis, string> = {
+  expiration: "From original expiry",
+  completion: "From completion date",
+};
+
+// Lifetime types have no validity period and never need renewing
+export const isLifetimeType = (type: Pick<CertificationType, "validityMonths">) => type.validityMonths === null;
+
+// Adds a type's validity period to a YYYY-MM-DD date; undefined for lifetime types.
+export function expirationAfter(
+  type: Pick<CertificationType, "validityMonths">,
+  from: string,
+): string | undefined {
+  if (type.validityMonths === null) return undefined;
+  return format(addMonths(parseISO(from), type.validityMonths), "yyyy-MM-dd");
+}
+
+// The expiration date to propose for a renewal. Counting from the old
+// expiration keeps the anniversary, so renewing early loses nothing; counting
+// from completion starts a full period on the day the renewal was done.
+export function proposeRenewalExpiration(
+  type: Pick<CertificationType, "validityMonths">,
+  basis: RenewalBasis,
+  currentExpiration: string,
+  completionDate: string,
+): string | undefined {
+  return expirationAfter(type, basis === "expiration" ? currentExpiration : completionDate);
+}
+
+// Every period the certification has covered, oldest first: the cycle each
+// renewal replaced, then the current one.
+export function certificationCycles(
+  certification: Certification,
+  renewals: CertificationRenewal[],
+): CertificationCycle[] {
+  const past = renewals
+    .filter((renewal) => renewal.certificationId === certification.id)
+    .sort((a, b) => new Date(a.renewedAt).getTime() - new Date(b.renewedAt).getTime())
+    .map((renewal) => ({
+      issueDate: renewal.previousIssueDate,
+      expirationDate: renewal.previousExpirationDate,
+      credentialId: renewal.previousCredentialId,
+    }));
+  return [
+    ...past,
+    {
+      issueDate: certification.issueDate,
+      expirationDate: certification.expirationDate,
+      credentialId: certification.credentialId,
+    },
+  ];
+}
+
+// Answers "was this person certified on <date>?" for a set of certifications.
+// Dates are YYYY-MM-DD strings, so they compare correctly as text; a cycle
+// covers its issue date through its expiration date inclusive, or
+// indefinitely when it has none.
+export function certifiedOn(
+  certifications: Certification[],
+  renewals: CertificationRenewal[],
+  date: string,
+): CertifiedOnEntry[] {
+  const entries: CertifiedOnEntry[] = [];
+  for (const certification of certifications) {
+    const cycle = certificationCycles(certification, renewals).find(
+      (c) => c.issueDate <= date && (c.expirationDate === null || date <= c.expirationDate),
+    );
+    if (!cycle) continue;
+    entries.push({
+      certificationId: certification.id,
+      userId: certification.userId,
+      name: certification.name,
+      issuingOrganization: certification.issuingOrganization,
+      ...cycle,
+    });
+  }
+  return entries;
+}
+
+export function describeValidity(validityMonths: number | null): string {
+  if (validityMonths === null) return "Does not expire";
+  if (validityMonths % 12 === 0) {
+    const years = validityMonths / 12;
+    return `${years} year${years === 1 ? "" : "s"}`;
+  }
+  return `${validityMonths} month${validityMonths === 1 ? "" : "s"}`;
+}
@@ -0,0 +1,335 @@
+import { sql } from "drizzle-orm";
+import { boolean, date, index, integer, json, pgTable, text, timestamp, uniqueIndex, varchar } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { DEFAULT_STATUS_THRESHOLDS } from "./status";
+import { CREDENTIAL_ID_PLACEHOLDER, isValidCredentialIdFormat, isValidVerificationUrlTemplate } from "./catalog";
+
+export const userRoles = ["admin", "user"] as const;
+export type UserRole = (typeof userRoles)[number];
+
+export const viewModes = ["grid", "list"] as const;
+export type ViewMode = (typeof viewModes)[number];
+
+// How a renewal's new expiration date is counted: on from the old expiration
+// date, or from the day the renewal was completed.
+export const renewalBases = ["expiration", "completion"] as const;
+export type RenewalBasis = (typeof renewalBases)[number];
+
+// How advanced a catalog credential is, for grouping and filtering
+export const catalogLevels = ["foundational", "associate", "professional", "expert", "specialty"] as const;
+export type CatalogLevel = (typeof catalogLevels)[number];
+
+// Whether someone other than the holder has checked a credential: an admin
+// looking at the evidence, or at the issuer's verification page
+export const verificationStatuses = ["unverified", "admin", "link"] as const;
+export type VerificationStatus = (typeof verificationStatuses)[number];
+
+export const notificationTypes = ["expiring", "expired", "renewed", "assigned"] as const;
+export type NotificationType = (typeof notificationTypes)[number];
+
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  username: text("username").notNull().unique(),
+  password: text("password").notNull(),
+  fullName: text("full_name").notNull(),
+  email: text("email").notNull(),
+  role: text("role", { enum: userRoles }).notNull().default("user"),
+  // Deactivated accounts keep their history but cannot sign in
+  deactivated: boolean("deactivated").notNull().default(false),
+});
+
+// The certification catalog: the credentials an organisation recognises, with
+// how long each lasts. Certifications picked from it link here by typeId;
+// ones typed in freely have no type until an admin merges them into one.
+export const certificationTypes = pgTable("certification_types", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  issuingOrganization: text("issuing_organization"),
+  // Null for lifetime certifications that never expire
+  validityMonths: integer("validity_months"),
+  renewalBasis: text("renewal_basis", { enum: renewalBases }).notNull().default("expiration"),
+  level: text("level", { enum: catalogLevels }),
+  // Free text such as "Cloud" or "Security"
+  category: text("category"),
+  // A regular expression the whole credential ID must match
+  credentialIdFormat: text("credential_id_format"),
+  // The issuer's verification page, with {credentialId} where the ID goes
+  verificationUrlTemplate: text("verification_url_template"),
+});
+
+export const certifications = pgTable("certifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  issuingOrganization: text("issuing_organization").notNull(),
+  typeId: varchar("type_id").references(() => certificationTypes.id, { onDelete: "set null" }),
+  credentialId: text("credential_id"),
+  // Calendar dates, stored and exchanged as YYYY-MM-DD strings
+  issueDate: date("issue_date").notNull(),
+  // Null for certifications that never expire
+  expirationDate: date("expiration_date"),
+  certificateUrl: text("certificate_url"),
+  notes: text("notes"),
+  verificationStatus: text("verification_status", { enum: verificationStatuses }).notNull().default("unverified"),
+  verifiedById: varchar("verified_by_id").references(() => users.id, { onDelete: "set null" }),
+  verifiedAt: timestamp("verified_at"),
+});
+
+// One row per renewal. The certification row always holds the current cycle;
+// each renewal keeps the cycle it replaced alongside the new one.
+export const certificationRenewals = pgTable(
+  "certification_renewals",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    certificationId: varchar("certification_id")
+      .notNull()
+      .references(() => certifications.id, { onDelete: "cascade" }),
+    previousIssueDate: date("previous_issue_date").notNull(),
+    previousExpirationDate: date("previous_expiration_date").notNull(),
+    previousCredentialId: text("previous_credential_id"),
+    issueDate: date("issue_date").notNull(),
+    expirationDate: date("expiration_date").notNull(),
+    credentialId: text("credential_id"),
+    // Evidence of the renewal, such as the new certificate or a verification page
+    proofUrl: text("proof_url"),
+    renewedById: varchar("renewed_by_id").references(() => users.id, { onDelete: "set null" }),
+    renewedAt: timestamp("renewed_at").notNull().defaultNow(),
+  },
+  (table) => [index("certification_renewals_certification_idx").on(table.certificationId, table.renewedAt)],
+);
+
+// Certificate files uploaded as proof. The bytes live in the server's file
+// store under storageKey. Files of a cycle that has since been renewed point
+// at that renewal, so the current cycle's files are the ones without one.
+export const certificationAttachments = pgTable(
+  "certification_attachments",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    certificationId: varchar("certification_id")
+      .notNull()
+      .references(() => certifications.id, { onDelete: "cascade" }),
+    renewalId: varchar("renewal_id").references(() => certificationRenewals.id, { onDelete: "cascade" }),
+    fileName: text("file_name").notNull(),
+    contentType: text("content_type").notNull(),
+    size: integer("size").notNull(),
+    storageKey: text("storage_key").notNull().unique(),
+    uploadedById: varchar("uploaded_by_id").references(() => users.id, { onDelete: "set null" }),
+    uploadedAt: timestamp("uploaded_at").notNull().defaultNow(),
+  },
+  (table) => [index("certification_attachments_certification_idx").on(table.certificationId, table.uploadedAt)],
+);
+
+// A single row (id 1) of organisation-wide preferences
+export const organizationSettings = pgTable("organization_settings", {
+  id: integer("id").primaryKey().default(1),
+  criticalDays: integer("critical_days").notNull().default(DEFAULT_STATUS_THRESHOLDS.criticalDays),
+  warningDays: integer("warning_days").notNull().default(DEFAULT_STATUS_THRESHOLDS.warningDays),
+  soonDays: integer("soon_days").notNull().default(DEFAULT_STATUS_THRESHOLDS.soonDays),
+  // Shown in place of the product name in the sidebar, login page and title
+  organizationName: text("organization_name").notNull().default("CertTrack"),
+  // Days before expiry on which owners are reminded
+  reminderOffsets: integer("reminder_offsets").array().notNull().default(sql`'{90,60,30,7,0}'`),
+  // Also send each reminder to every active administrator
+  remindAdmins: boolean("remind_admins").notNull().default(false),
+  // Empty means any issuer may be entered
+  allowedIssuers: text("allowed_issuers").array().notNull().default(sql`'{}'`),
+});
+
+// Per-user preferences; users without a row get the column defaults
+export const userSettings = pgTable("user_settings", {
+  userId: varchar("user_id")
+    .primaryKey()
+    .references(() => users.id, { onDelete: "cascade" }),
+  emailReminders: boolean("email_reminders").notNull().default(true),
+  defaultView: text("default_view", { enum: viewModes }).notNull().default("grid"),
+});
+
+// One row per reminder email sent. A scheduled milestone is keyed by the
+// expiration date it was sent for, so renewing a certification starts its
+// reminders afresh. Reminders an admin sends by hand have no offset and record
+// who sent them.
+export const reminders = pgTable(
+  "reminders",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    certificationId: varchar("certification_id")
+      .notNull()
+      .references(() => certifications.id, { onDelete: "cascade" }),
+    recipientId: varchar("recipient_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    offsetDays: integer("offset_days"),
+    expirationDate: date("expiration_date").notNull(),
+    sentAt: timestamp("sent_at").notNull().defaultNow(),
+    sentById: varchar("sent_by_id").references(() => users.id, { onDelete: "set null" }),
+  },
+  (table) => [
+    uniqueIndex("reminders_milestone_idx").on(
+      table.certificationId,
+      table.recipientId,
+      table.expirationDate,
+      table.offsetDays,
+    ),
+  ],
+);
+
+// The most certifications one "Remind all" request may cover
+export const MAX_BULK_REMINDERS = 500;
+
+// In-app events shown in the header's notification centre. Events raised by the
+// reminder schedule carry a dedupe key so each milestone appears only once.
+export const notifications = pgTable(
+  "notifications",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    type: text("type", { enum: notificationTypes }).notNull(),
+    certificationId: varchar("certification_id")
+      .notNull()
+      .references(() => certifications.id, { onDelete: "cascade" }),
+    message: text("message").notNull(),
+    dedupeKey: text("dedupe_key"),
+    readAt: timestamp("read_at"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+  },
+  (table) => [
+    index("notifications_user_idx").on(table.userId, table.createdAt),
+    uniqueIndex("notifications_dedupe_idx").on(table.userId, table.certificationId, table.dedupeKey),
+  ],
+);
+
+// express-session records; same layout as the table connect-pg-simple expects
+export const sessions = pgTable(
+  "sessions",
+  {
+    sid: varchar("sid").primaryKey(),
+    sess: json("sess").notNull(),
+    expire: timestamp("expire", { precision: 6 }).notNull(),
+  },
+  (table) => [index("sessions_expire_idx").on(table.expire)],
+);
+
+const isoDate = (label: string) =>
+  z
+    .string({ required_error: `${label} is required` })
+    .regex(/^\d{4}-\d{2}-\d{2}$/, `${label} must be a YYYY-MM-DD date`);
+
+export const insertUserSchema = createInsertSchema(users, {
+  username: (schema) => schema.min(3, "Username must be at least 3 characters"),
+  // Strength rules live in shared/password-policy.ts and are applied on top
+  password: (schema) => schema.min(1, "Password is required"),
+  fullName: (schema) => schema.min(1, "Full name is required"),
+  email: (schema) => schema.email("Invalid email address"),
+}).omit({ id: true });
+
+export const updateUserSchema = insertUserSchema.partial();
+
+export const EXPIRATION_BEFORE_ISSUE = "Expiration date must be after the issue date";
+
+// YYYY-MM-DD dates compare correctly as text; no expiration date never clashes
+export const expiresAfterIssue = (cert: { issueDate: string; expirationDate?: string | null }) =>
+  !cert.expirationDate || cert.expirationDate > cert.issueDate;
+
+// Field rules shared by the Express routes, shared/import.ts and
+// certificationFormSchema in client/src/components/certification-form.tsx.
+// Verification is left out: only administrators set it, through its own route.
+export const certificationFieldsSchema = createInsertSchema(certifications, {
+  name: (schema) => schema.trim().min(1, "Certification name is required"),
+  issuingOrganization: (schema) => schema.trim().min(1, "Issuing organization is required"),
+  issueDate: () => isoDate("Issue date"),
+  expirationDate: () => isoDate("Expiration date").nullish(),
+  certificateUrl: () => z.string().url("Must be a valid URL").or(z.literal("")).nullish(),
+}).omit({ id: true, verificationStatus: true, verifiedById: true, verifiedAt: true });
+
+export const insertCertificationSchema = certificationFieldsSchema.refine(expiresAfterIssue, {
+  message: EXPIRATION_BEFORE_ISSUE,
+  path: ["expirationDate"],
+});
+
+// The PATCH route checks the dates once merged with the stored record
+export const updateCertificationSchema = certificationFieldsSchema.partial();
+
+export const insertCertificationTypeSchema = createInsertSchema(certificationTypes, {
+  name: (schema) => schema.trim().min(1, "Type name is required"),
+  issuingOrganization: () => z.string().trim().nullish(),
+  validityMonths: () =>
+    z
+      .number()
+      .int("Enter a whole number of months")
+      .min(1, "Validity must be at least one month")
+      .max(600, "Validity cannot exceed 50 years")
+      .nullable(),
+  category: () => z.string().trim().nullish(),
+  credentialIdFormat: () =>
+    z.string().trim().refine(isValidCredentialIdFormat, "Enter a valid regular expression").nullish(),
+  verificationUrlTemplate: () =>
+    z
+      .string()
+      .trim()
+      .refine(isValidVerificationUrlTemplate, `Must be a URL containing ${CREDENTIAL_ID_PLACEHOLDER}`)
+      .nullish(),
+}).omit({ id: true });
+
+export const updateCertificationTypeSchema = insertCertificationTypeSchema.partial();
+
+// What a renewal changes; the previous cycle is taken from the certification
+export const renewCertificationSchema = z
+  .object({
+    issueDate: isoDate("Issue date"),
+    expirationDate: isoDate("Expiration date"),
+    credentialId: z.string().trim().nullish(),
+    proofUrl: z.string().url("Must be a valid URL").or(z.literal("")).nullish(),
+  })
+  .refine((data) => data.expirationDate > data.issueDate, {
+    message: EXPIRATION_BEFORE_ISSUE,
+    path: ["expirationDate"],
+  });
+
+// Partial on the wire; the route checks the merged thresholds still make sense
+export const updateOrganizationSettingsSchema = createInsertSchema(organizationSettings, {
+  organizationName: (schema) =>
+    schema.trim().min(1, "Organisation name is required").max(60, "Organisation name is too long"),
+  reminderOffsets: () =>
+    z
+      .array(z.number().int().min(0, "Reminder days cannot be negative").max(3650, "Reminder days cannot exceed ten years"))
+      .max(10, "At most 10 reminders can be scheduled"),
+  allowedIssuers: () => z.array(z.string().trim().min(1, "Issuer names cannot be blank")),
+})
+  .omit({ id: true })
+  .partial();
+
+export const updateUserSettingsSchema = createInsertSchema(userSettings).omit({ userId: true }).partial();
+
+export type UserRecord = typeof users.$inferSelect;
+export type User = Omit<UserRecord, "password">;
+export type InsertUser = z.infer<typeof insertUserSchema>;
+
+export type Certification = typeof certifications.$inferSelect;
+export type InsertCertification = z.infer<typeof insertCertificationSchema>;
+
+export type CertificationType = typeof certificationTypes.$inferSelect;
+export type InsertCertificationType = z.infer<typeof insertCertificationTypeSchema>;
+export type CertificationRenewal = typeof certificationRenewals.$inferSelect;
+export type RenewCertification = z.infer<typeof renewCertificationSchema>;
+export type RenewalWithRenewer = CertificationRenewal & { renewedByName: string | null };
+export type CertificationAttachment = typeof certificationAttachments.$inferSelect;
+export type InsertCertificationAttachment = typeof certificationAttachments.$inferInsert;
+
+export type OrganizationSettings = typeof organizationSettings.$inferSelect;
+export type UpdateOrganizationSettings = z.infer<typeof updateOrganizationSettingsSchema>;
+export type UserSettings = typeof userSettings.$inferSelect;
+export type Reminder = typeof reminders.$inferSelect;
+export type InsertReminder = typeof reminders.$inferInsert;
+// The most recent reminder for a certification, as shown on the Expiring page
+export type LastReminder = Pick<Reminder, "certificationId" | "sentAt" | "offsetDays"> & {
+  sentByName: string | null;
+};
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = typeof notifications.$inferInsert;
+export type UpdateUserSettings = z.infer<typeof updateUserSettingsSchema>;
+export type Branding = Pick<OrganizationSettings, "organizationName">;
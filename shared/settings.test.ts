@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { dueOffset, isAllowedIssuer } from "./settings";
+
+const offsets = [90, 60, 30, 7, 0];
+
+describe("dueOffset", () => {
+  it("is the milestone most recently reached", () => {
+    expect(dueOffset(offsets, 90)).toBe(90);
+    expect(dueOffset(offsets, 61)).toBe(90);
+    expect(dueOffset(offsets, 60)).toBe(60);
+    expect(dueOffset(offsets, 8)).toBe(30);
+    expect(dueOffset(offsets, 1)).toBe(7);
+  });
+
+  it("reaches the last milestone on the expiration day and stops after it", () => {
+    expect(dueOffset(offsets, 0)).toBe(0);
+    expect(dueOffset(offsets, -1)).toBeUndefined();
+  });
+
+  it("has nothing due before the first milestone or without a schedule", () => {
+    expect(dueOffset(offsets, 91)).toBeUndefined();
+    expect(dueOffset([], 5)).toBeUndefined();
+  });
+
+  it("does not depend on the order the schedule was saved in", () => {
+    expect(dueOffset([7, 90, 30], 20)).toBe(30);
+  });
+});
+
+describe("isAllowedIssuer", () => {
+  it("allows any issuer while the list is empty, else only those listed", () => {
+    expect(isAllowedIssuer([], "Anyone")).toBe(true);
+    expect(isAllowedIssuer([" Cisco "], "cisco")).toBe(true);
+    expect(isAllowedIssuer(["Cisco"], "CompTIA")).toBe(false);
+  });
+});
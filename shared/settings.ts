@@ -0,0 +1,33 @@
+import type { OrganizationSettings, UserSettings } from "./schema";
+import { DEFAULT_STATUS_THRESHOLDS } from "./status";
+
+// Mirrors the column defaults in shared/schema.ts, for offline mode and
+// anything rendered before the settings have loaded.
+export const DEFAULT_ORGANIZATION_SETTINGS: Omit<OrganizationSettings, "id"> = {
+  ...DEFAULT_STATUS_THRESHOLDS,
+  organizationName: "CertTrack",
+  reminderOffsets: [90, 60, 30, 7, 0],
+  remindAdmins: false,
+  allowedIssuers: [],
+};
+
+export const DEFAULT_USER_SETTINGS: Omit<UserSettings, "userId"> = {
+  emailReminders: true,
+  defaultView: "grid",
+};
+
+// Issuer names are compared case-insensitively; an empty list allows any.
+export function isAllowedIssuer(allowedIssuers: string[], issuer: string): boolean {
+  if (allowedIssuers.length === 0) return true;
+  const wanted = issuer.trim().toLowerCase();
+  return allowedIssuers.some((allowed) => allowed.trim().toLowerCase() === wanted);
+}
+
+// The reminder milestone a certification has most recently reached: the
+// smallest offset that is still at least the days left. Nothing is due before
+// the largest offset, and expired certifications are no longer chased.
+export function dueOffset(offsets: number[], daysLeft: number): number | undefined {
+  if (daysLeft < 0) return undefined;
+  const reached = offsets.filter((offset) => offset >= daysLeft);
+  return reached.length > 0 ? Math.min(...reached) : undefined;
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import {
+  byExpiration,
+  countByStatus,
+  describeDaysLeft,
+  getCertificationStatus,
+  statusForDays,
+  statusThresholdsSchema,
+} from "./status";
+
+// Late in the evening, so a time-of-day slip would show as an extra day
+const today = new Date(2025, 5, 15, 23, 30);
+
+describe("statusForDays", () => {
+  it("puts each threshold day in its own bucket", () => {
+    expect([-1, 0, 30, 31, 60, 61, 90, 91].map((days) => statusForDays(days))).toEqual([
+      "expired",
+      "critical",
+      "critical",
+      "warning",
+      "warning",
+      "soon",
+      "soon",
+      "active",
+    ]);
+  });
+
+  it("follows the organisation's thresholds", () => {
+    const thresholds = { criticalDays: 7, warningDays: 14, soonDays: 21 };
+    expect([7, 8, 15, 22].map((days) => statusForDays(days, thresholds))).toEqual(["critical", "warning", "soon", "active"]);
+  });
+});
+
+describe("getCertificationStatus", () => {
+  it("counts a certification expiring today as valid with 0 days left", () => {
+    expect(getCertificationStatus("2025-06-15", undefined, today)).toMatchObject({ status: "critical", days: 0 });
+    expect(getCertificationStatus("2025-06-14", undefined, today)).toMatchObject({ status: "expired", days: -1 });
+    expect(describeDaysLeft(0)).toBe("Expires today");
+  });
+
+  it("treats a certification without an expiration date as always active", () => {
+    expect(getCertificationStatus(null, undefined, today)).toMatchObject({ status: "active", days: null, label: "Active" });
+    expect(describeDaysLeft(null)).toBe("Does not expire");
+  });
+});
+
+describe("countByStatus", () => {
+  it("gives every certification exactly one bucket", () => {
+    const certs = ["2025-06-01", "2025-06-15", "2025-08-01", "2025-09-01", "2026-06-15", null].map((expirationDate) => ({
+      expirationDate,
+    }));
+    expect(countByStatus(certs, undefined, today)).toEqual({ expired: 1, critical: 1, warning: 1, soon: 1, active: 2 });
+  });
+
+  it("sorts the soonest expiration first and the non-expiring last", () => {
+    const certs = [{ expirationDate: null }, { expirationDate: "2026-01-01" }, { expirationDate: "2025-07-01" }];
+    expect(certs.sort(byExpiration).map((c) => c.expirationDate)).toEqual(["2025-07-01", "2026-01-01", null]);
+  });
+});
+
+describe("statusThresholdsSchema", () => {
+  it("needs thresholds increasing from critical to soon", () => {
+    expect(statusThresholdsSchema.safeParse({ criticalDays: 30, warningDays: 60, soonDays: 90 }).success).toBe(true);
+    expect(statusThresholdsSchema.safeParse({ criticalDays: 60, warningDays: 60, soonDays: 90 }).success).toBe(false);
+    expect(statusThresholdsSchema.safeParse({ criticalDays: -1, warningDays: 60, soonDays: 90 }).success).toBe(false);
+  });
+});
@@ -0,0 +1,147 @@
+import { differenceInCalendarDays, format, parseISO } from "date-fns";
+import { z } from "zod";
+
+// Every page that buckets certifications by expiry goes through this module so
+// the counts on the dashboards, lists and renewal views always agree.
+
+export const certificationStatuses = ["expired", "critical", "warning", "soon", "active"] as const;
+export type CertificationStatus = (typeof certificationStatuses)[number];
+
+// Upper bounds, in days left, of the critical, warning and soon buckets
+export interface StatusThresholds {
+  criticalDays: number;
+  warningDays: number;
+  soonDays: number;
+}
+
+export const DEFAULT_STATUS_THRESHOLDS: StatusThresholds = {
+  criticalDays: 30,
+  warningDays: 60,
+  soonDays: 90,
+};
+
+export const statusThresholdsSchema = z
+  .object({
+    criticalDays: z.number().int().min(0, "Thresholds cannot be negative"),
+    warningDays: z.number().int().min(0, "Thresholds cannot be negative"),
+    soonDays: z.number().int().min(0, "Thresholds cannot be negative").max(3650, "Thresholds cannot exceed ten years"),
+  })
+  .refine((t) => t.criticalDays < t.warningDays && t.warningDays < t.soonDays, {
+    message: "Thresholds must increase from critical to warning to soon",
+  });
+
+export interface StatusStyle {
+  label: string;
+  badgeVariant: "default" | "secondary" | "destructive" | "outline";
+  textClass: string;
+  bgClass: string;
+}
+
+export const STATUS_STYLES: Record<CertificationStatus, StatusStyle> = {
+  expired: {
+    label: "Expired",
+    badgeVariant: "destructive",
+    textClass: "text-destructive",
+    bgClass: "bg-destructive/10",
+  },
+  critical: {
+    label: "Critical",
+    badgeVariant: "destructive",
+    textClass: "text-destructive",
+    bgClass: "bg-destructive/10",
+  },
+  warning: {
+    label: "Warning",
+    badgeVariant: "secondary",
+    textClass: "text-yellow-600 dark:text-yellow-500",
+    bgClass: "bg-yellow-500/10",
+  },
+  soon: {
+    label: "Expiring Soon",
+    badgeVariant: "secondary",
+    textClass: "text-muted-foreground",
+    bgClass: "bg-muted",
+  },
+  active: {
+    label: "Active",
+    badgeVariant: "default",
+    textClass: "text-green-600 dark:text-green-500",
+    bgClass: "bg-green-500/10",
+  },
+};
+
+export function hasExpiration<T extends { expirationDate: string | null }>(
+  cert: T,
+): cert is T & { expirationDate: string } {
+  return cert.expirationDate !== null;
+}
+
+// Calendar days, so a certificate expiring today has 0 days left whatever
+// the time of day, and is still valid until tomorrow.
+export function daysUntilExpiration(expirationDate: string, today: Date = new Date()): number {
+  return differenceInCalendarDays(parseISO(expirationDate), today);
+}
+
+export function statusForDays(days: number, thresholds: StatusThresholds = DEFAULT_STATUS_THRESHOLDS): CertificationStatus {
+  if (days < 0) return "expired";
+  if (days <= thresholds.criticalDays) return "critical";
+  if (days <= thresholds.warningDays) return "warning";
+  if (days <= thresholds.soonDays) return "soon";
+  return "active";
+}
+
+export function isExpiring(status: CertificationStatus): boolean {
+  return status === "critical" || status === "warning" || status === "soon";
+}
+
+export function describeDaysLeft(days: number | null): string {
+  if (days === null) return "Does not expire";
+  if (days < 0) {
+    const ago = Math.abs(days);
+    return `Expired ${ago} ${ago === 1 ? "day" : "days"} ago`;
+  }
+  if (days === 0) return "Expires today";
+  return `${days} ${days === 1 ? "day" : "days"} left`;
+}
+
+export function formatExpiration(expirationDate: string | null, pattern = "MMM d, yyyy"): string {
+  return expirationDate === null ? "Does not expire" : format(parseISO(expirationDate), pattern);
+}
+
+// days is null for certifications without an expiration date, which are
+// always active.
+export interface StatusInfo extends StatusStyle {
+  status: CertificationStatus;
+  days: number | null;
+}
+
+export function getCertificationStatus(
+  expirationDate: string | null,
+  thresholds: StatusThresholds = DEFAULT_STATUS_THRESHOLDS,
+  today: Date = new Date(),
+): StatusInfo {
+  if (expirationDate === null) return { status: "active", days: null, ...STATUS_STYLES.active };
+  const days = daysUntilExpiration(expirationDate, today);
+  const status = statusForDays(days, thresholds);
+  return { status, days, ...STATUS_STYLES[status] };
+}
+
+export function countByStatus(
+  certs: { expirationDate: string | null }[],
+  thresholds: StatusThresholds = DEFAULT_STATUS_THRESHOLDS,
+  today: Date = new Date(),
+): Record<CertificationStatus, number> {
+  const counts = { expired: 0, critical: 0, warning: 0, soon: 0, active: 0 };
+  for (const cert of certs) {
+    counts[getCertificationStatus(cert.expirationDate, thresholds, today).status]++;
+  }
+  return counts;
+}
+
+// Soonest expiration first; certifications that never expire sort last.
+export function byExpiration(a: { expirationDate: string | null }, b: { expirationDate: string | null }): number {
+  if (a.expirationDate === b.expirationDate) return 0;
+  if (a.expirationDate === null) return 1;
+  if (b.expirationDate === null) return -1;
+  return a.expirationDate < b.expirationDate ? -1 : 1;
+}
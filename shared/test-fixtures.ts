@@ -0,0 +1,35 @@
+import type { Certification, CertificationRenewal } from "./schema";
+
+// An unverified CCNA held by user u1, for the unit tests to adjust
+export const makeCertification = (overrides: Partial<Certification> = {}): Certification => ({
+  id: "c1",
+  userId: "u1",
+  name: "CCNA",
+  issuingOrganization: "Cisco",
+  typeId: null,
+  credentialId: null,
+  issueDate: "2024-01-01",
+  expirationDate: "2027-01-01",
+  certificateUrl: null,
+  notes: null,
+  verificationStatus: "unverified",
+  verifiedById: null,
+  verifiedAt: null,
+  ...overrides,
+});
+
+// c1's renewal from its 2021 cycle to the current one
+export const makeRenewal = (overrides: Partial<CertificationRenewal> = {}): CertificationRenewal => ({
+  id: "r1",
+  certificationId: "c1",
+  previousIssueDate: "2021-01-01",
+  previousExpirationDate: "2024-01-01",
+  previousCredentialId: null,
+  issueDate: "2024-01-01",
+  expirationDate: "2027-01-01",
+  credentialId: null,
+  proofUrl: null,
+  renewedById: null,
+  renewedAt: new Date("2023-12-01"),
+  ...overrides,
+});
@@ -0,0 +1,19 @@
+import type { User, UserRole } from "./schema";
+
+export interface UserChange {
+  role?: UserRole;
+  deactivated?: boolean;
+  deleted?: boolean;
+}
+
+// True when applying `change` to user `id` would leave nobody able to
+// administer the tracker. Checked by the API and by offline mode alike.
+export function removesLastAdmin(users: User[], id: string, change: UserChange): boolean {
+  const target = users.find((u) => u.id === id);
+  if (!target || target.role !== "admin" || target.deactivated) return false;
+
+  const stillAdmin = !change.deleted && !change.deactivated && (change.role ?? target.role) === "admin";
+  if (stillAdmin) return false;
+
+  return !users.some((u) => u.id !== id && u.role === "admin" && !u.deactivated);
+}
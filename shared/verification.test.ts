@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import {
+  UNVERIFIED,
+  generatedVerificationUrl,
+  invalidatesVerification,
+  strongestVerification,
+  withRenewalVerificationUrl,
+  withVerificationUrl,
+} from "./verification";
+import type { Certification, CertificationType } from "./schema";
+import { makeCertification } from "./test-fixtures";
+
+// Verified by an administrator against its certificate URL
+const cert = (overrides: Partial<Certification> = {}) =>
+  makeCertification({
+    credentialId: "CSCO-1",
+    certificateUrl: "https://example.com/verify/CSCO-1",
+    verificationStatus: "admin",
+    verifiedById: "admin1",
+    verifiedAt: new Date("2024-02-01"),
+    ...overrides,
+  });
+
+const type = (overrides: Partial<CertificationType> = {}): CertificationType => ({
+  id: "t1",
+  name: "CCNA",
+  issuingOrganization: "Cisco",
+  validityMonths: 36,
+  renewalBasis: "expiration",
+  level: null,
+  category: null,
+  credentialIdFormat: null,
+  verificationUrlTemplate: "https://verify.cisco.example/{credentialId}",
+  ...overrides,
+});
+
+describe("invalidatesVerification", () => {
+  it("resets a verified record when a vouched-for field changes", () => {
+    expect(invalidatesVerification(cert(), { credentialId: "CSCO-2" })).toBe(true);
+    expect(invalidatesVerification(cert(), { userId: "u2" })).toBe(true);
+    expect(invalidatesVerification(cert(), { certificateUrl: "https://elsewhere.example" })).toBe(true);
+    expect(invalidatesVerification(cert(), { expirationDate: null })).toBe(true);
+  });
+
+  it("keeps it when the fields are resent unchanged", () => {
+    expect(invalidatesVerification(cert(), { name: "CCNA", credentialId: "CSCO-1" })).toBe(false);
+    expect(invalidatesVerification(cert({ certificateUrl: null }), { certificateUrl: "" })).toBe(false);
+  });
+
+  it("has nothing to reset on an unverified record", () => {
+    expect(invalidatesVerification(cert(UNVERIFIED), { credentialId: "CSCO-2" })).toBe(false);
+  });
+});
+
+describe("strongestVerification", () => {
+  it("prefers a link check over an administrator's", () => {
+    const link = cert({ verificationStatus: "link", verifiedById: "admin2" });
+    expect(strongestVerification([cert(), link, cert(UNVERIFIED)])).toMatchObject({
+      verificationStatus: "link",
+      verifiedById: "admin2",
+    });
+  });
+
+  it("is unverified when nothing vouches", () => {
+    expect(strongestVerification([])).toEqual(UNVERIFIED);
+    expect(strongestVerification([cert(UNVERIFIED)])).toEqual(UNVERIFIED);
+  });
+});
+
+describe("generatedVerificationUrl", () => {
+  it("fills the linked entry's template with the encoded credential ID", () => {
+    expect(generatedVerificationUrl({ typeId: "t1", credentialId: " AB 12/3 " }, [type()])).toBe(
+      "https://verify.cisco.example/AB%2012%2F3",
+    );
+  });
+
+  it("borrows the template of an entry from the same issuer", () => {
+    expect(generatedVerificationUrl({ issuingOrganization: " cisco ", credentialId: "X1" }, [type()])).toBe(
+      "https://verify.cisco.example/X1",
+    );
+    expect(generatedVerificationUrl({ issuingOrganization: "CompTIA", credentialId: "X1" }, [type()])).toBeNull();
+  });
+
+  it("needs a credential ID", () => {
+    expect(generatedVerificationUrl({ typeId: "t1", credentialId: "  " }, [type()])).toBeNull();
+  });
+});
+
+describe("verification URL defaults", () => {
+  it("keeps a link the holder gave", () => {
+    const data = { typeId: "t1", credentialId: "X1", certificateUrl: "https://mine.example" };
+    expect(withVerificationUrl(data, [type()]).certificateUrl).toBe("https://mine.example");
+    expect(withVerificationUrl({ ...data, certificateUrl: null }, [type()]).certificateUrl).toBe(
+      "https://verify.cisco.example/X1",
+    );
+  });
+
+  it("links a renewal's new credential ID", () => {
+    const renewal = { issueDate: "2027-01-01", expirationDate: "2030-01-01", credentialId: "X2" };
+    expect(withRenewalVerificationUrl(cert({ typeId: "t1" }), renewal, [type()]).proofUrl).toBe(
+      "https://verify.cisco.example/X2",
+    );
+  });
+});
@@ -0,0 +1,116 @@
+import { z } from "zod";
+import {
+  verificationStatuses,
+  type Certification,
+  type CertificationType,
+  type RenewCertification,
+  type VerificationStatus,
+} from "./schema";
+import { CREDENTIAL_ID_PLACEHOLDER } from "./catalog";
+
+export const VERIFICATION_STATUS_LABELS: Record<VerificationStatus, string> = {
+  unverified: "Unverified",
+  admin: "Verified by admin",
+  link: "Verified via link",
+};
+
+export type CertificationVerification = Pick<Certification, "verificationStatus" | "verifiedById" | "verifiedAt">;
+
+export const UNVERIFIED: CertificationVerification = {
+  verificationStatus: "unverified",
+  verifiedById: null,
+  verifiedAt: null,
+};
+
+export const isVerified = (cert: Pick<Certification, "verificationStatus">) => cert.verificationStatus !== "unverified";
+
+// A check against the issuer's own page beats an administrator's say-so
+const VERIFICATION_STRENGTH: Record<VerificationStatus, number> = { unverified: 0, admin: 1, link: 2 };
+
+export function strongestVerification(certs: CertificationVerification[]): CertificationVerification {
+  const strongest = [...certs].sort(
+    (a, b) => VERIFICATION_STRENGTH[b.verificationStatus] - VERIFICATION_STRENGTH[a.verificationStatus],
+  )[0];
+  return strongest && isVerified(strongest)
+    ? { verificationStatus: strongest.verificationStatus, verifiedById: strongest.verifiedById, verifiedAt: strongest.verifiedAt }
+    : UNVERIFIED;
+}
+
+export const verificationUrl = (template: string, credentialId: string) =>
+  template.replaceAll(CREDENTIAL_ID_PLACEHOLDER, encodeURIComponent(credentialId.trim()));
+
+type VerificationSource = Partial<Pick<Certification, "typeId" | "issuingOrganization" | "credentialId">>;
+
+const sameIssuer = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// The issuer's verification page for this credential, from its catalog entry
+// or, failing that, from any entry by the same issuer
+export function generatedVerificationUrl(cert: VerificationSource, types: CertificationType[]): string | null {
+  if (!cert.credentialId?.trim()) return null;
+  const linked = types.find((t) => t.id === cert.typeId);
+  const template =
+    linked?.verificationUrlTemplate ??
+    types.find(
+      (t) =>
+        t.verificationUrlTemplate &&
+        t.issuingOrganization &&
+        cert.issuingOrganization &&
+        sameIssuer(t.issuingOrganization, cert.issuingOrganization),
+    )?.verificationUrlTemplate;
+  return template ? verificationUrl(template, cert.credentialId) : null;
+}
+
+// Where an admin checks the credential: the link on record, else the generated one
+export const verificationLink = (cert: Certification, types: CertificationType[]) =>
+  cert.certificateUrl || generatedVerificationUrl(cert, types);
+
+// New certifications with a credential ID but no link get the issuer's page
+export function withVerificationUrl<T extends VerificationSource & { certificateUrl?: string | null }>(
+  data: T,
+  types: CertificationType[],
+): T {
+  if (data.certificateUrl) return data;
+  const url = generatedVerificationUrl(data, types);
+  return url ? { ...data, certificateUrl: url } : data;
+}
+
+// A renewal under a new credential ID links the issuer's page for it, unless
+// the holder gave their own evidence
+export function withRenewalVerificationUrl(
+  cert: Certification,
+  data: RenewCertification,
+  types: CertificationType[],
+): RenewCertification {
+  if (data.proofUrl || !data.credentialId) return data;
+  const url = generatedVerificationUrl({ ...cert, credentialId: data.credentialId }, types);
+  return url ? { ...data, proofUrl: url } : data;
+}
+
+const verifiedFields = [
+  "userId",
+  "name",
+  "issuingOrganization",
+  "credentialId",
+  "issueDate",
+  "expirationDate",
+  "certificateUrl",
+] as const;
+
+// A verification vouches for the credential as recorded, including the link
+// it was checked against, so changing any of these puts it back in the queue
+export function invalidatesVerification(
+  cert: Certification,
+  changes: Partial<Pick<Certification, (typeof verifiedFields)[number]>>,
+): boolean {
+  return (
+    isVerified(cert) &&
+    verifiedFields.some((field) => changes[field] !== undefined && (changes[field] || null) !== (cert[field] || null))
+  );
+}
+
+export const setVerificationSchema = z.object({ status: z.enum(verificationStatuses) });
+export type SetVerification = z.infer<typeof setVerificationSchema>;
+
+export function verificationFields(status: VerificationStatus, verifiedById: string): CertificationVerification {
+  return status === "unverified" ? UNVERIFIED : { verificationStatus: status, verifiedById, verifiedAt: new Date() };
+}
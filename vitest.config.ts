@@ -0,0 +1,18 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+// Kept apart from vite.config.ts, whose root is the client. The tests cover
+// the pure rules in shared/, which run the same in the browser and on Node,
+// and the client modules that need nothing from the browser but localStorage.
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+      "@": path.resolve(import.meta.dirname, "client", "src"),
+    },
+  },
+  test: {
+    include: ["shared/**/*.test.ts", "client/src/**/*.test.ts"],
+    environment: "node",
+  },
+});